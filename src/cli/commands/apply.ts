@@ -0,0 +1,113 @@
+import chalk from 'chalk'
+import { createInterface } from 'node:readline/promises'
+import { WorkflowStorage } from '../../core/workflow-storage'
+import { createChangeset, applyChangeset } from '../../core/artifact-applier'
+
+interface ApplyOptions {
+  apply?: boolean
+}
+
+/**
+ * Print a unified diff with colors
+ */
+function printDiff(diff: string): void {
+  for (const line of diff.trimEnd().split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      console.log(chalk.bold(line))
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line))
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line))
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line))
+    } else {
+      console.log(chalk.dim(line))
+    }
+  }
+}
+
+/**
+ * Ask a yes/no question on the terminal (defaults to no)
+ */
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    const answer = await rl.question(`${question} ${chalk.dim('(y/N)')} `)
+    return /^y(es)?$/i.test(answer.trim())
+  } finally {
+    rl.close()
+  }
+}
+
+export async function applyCommand(workflowId: string, options: ApplyOptions): Promise<void> {
+  console.log(chalk.bold('\n📝 crew-opencode - Apply Workflow Changes\n'))
+
+  try {
+    const storage = new WorkflowStorage(process.cwd())
+    const workflow = await storage.load(workflowId)
+
+    if (!workflow) {
+      console.log(chalk.red(`❌ Workflow not found: ${workflowId}`))
+      process.exit(1)
+    }
+
+    const changeset = createChangeset(workflow.context.artifacts, workflow.context.projectPath)
+    const pending = changeset.changes.filter((c) => c.type !== 'unchanged')
+    const unchanged = changeset.changes.filter((c) => c.type === 'unchanged')
+
+    console.log(chalk.dim('Workflow:'), chalk.bold(workflowId))
+    console.log(chalk.dim('Project:'), workflow.context.projectPath)
+    console.log()
+
+    for (const change of pending) {
+      console.log(chalk.bold(`${change.type === 'create' ? 'New file' : 'Modified'}: ${change.path}`))
+      printDiff(change.diff)
+      console.log()
+    }
+
+    if (unchanged.length > 0) {
+      console.log(chalk.dim(`Unchanged: ${unchanged.map((c) => c.path).join(', ')}\n`))
+    }
+
+    if (changeset.rejected.length > 0) {
+      console.log(chalk.yellow('Skipped:'))
+      for (const rejected of changeset.rejected) {
+        console.log(chalk.yellow(`  ${rejected.path}: ${rejected.reason}`))
+      }
+      console.log()
+    }
+
+    if (pending.length === 0) {
+      console.log(chalk.dim('No file changes to apply.\n'))
+      return
+    }
+
+    const summary = `${pending.length} file change${pending.length > 1 ? 's' : ''}`
+
+    if (!options.apply) {
+      if (!process.stdin.isTTY) {
+        console.log(chalk.dim(`Run \`crew-opencode apply ${workflowId} --apply\` to write ${summary}.\n`))
+        return
+      }
+
+      if (!(await confirm(`Apply ${summary}?`))) {
+        console.log(chalk.dim('\nNothing written.\n'))
+        return
+      }
+    }
+
+    const written = applyChangeset(changeset)
+
+    console.log()
+    for (const path of written) {
+      console.log(chalk.green(`✓ Wrote ${path}`))
+    }
+    console.log()
+  } catch (error) {
+    console.log()
+    console.log(chalk.red('❌ Apply failed:'))
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)))
+    console.log()
+    process.exit(1)
+  }
+}
@@ -0,0 +1,177 @@
+import chalk from 'chalk'
+import { spawnSync } from 'node:child_process'
+import { readFileSync, writeFileSync, unlinkSync, existsSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Orchestrator } from '../../core/orchestrator'
+import { WorkflowStorage } from '../../core/workflow-storage'
+import { loadConfig } from '../../config'
+import type { WorkflowState } from '../../core/types'
+import { registerProgressHandlers, printExecutionSummary, createSigintHandler } from './crew'
+
+interface ApproveOptions {
+  edit?: boolean
+  comment?: string
+}
+
+interface RejectOptions {
+  reason?: string
+}
+
+/**
+ * Open the outputs awaiting approval in $VISUAL/$EDITOR and return the changed ones
+ */
+function editOutputs(workflow: WorkflowState): Record<string, unknown> {
+  const approval = workflow.approval
+  if (!approval) {
+    return {}
+  }
+
+  const original = Object.fromEntries(
+    approval.outputs.map((name) => [name, workflow.context.outputs[name] ?? null])
+  )
+  const filePath = join(tmpdir(), `crew-opencode-${workflow.id}-approval.json`)
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi'
+
+  writeFileSync(filePath, `${JSON.stringify(original, null, 2)}\n`, 'utf-8')
+
+  try {
+    const result = spawnSync(`${editor} "${filePath}"`, { stdio: 'inherit', shell: true })
+    if (result.status !== 0) {
+      throw new Error(`Editor exited with code ${result.status ?? 'unknown'}`)
+    }
+
+    let edited: unknown
+    try {
+      edited = JSON.parse(readFileSync(filePath, 'utf-8'))
+    } catch (error) {
+      throw new Error(
+        `Edited outputs are not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+
+    if (!edited || typeof edited !== 'object' || Array.isArray(edited)) {
+      throw new Error('Edited outputs must be a JSON object keyed by output name')
+    }
+
+    // Only outputs awaiting approval may be edited
+    const unknown = Object.keys(edited).filter((name) => !approval.outputs.includes(name))
+    if (unknown.length > 0) {
+      console.warn(
+        chalk.yellow(
+          `⚠  Ignoring ${unknown.join(', ')}: only ${approval.outputs.join(', ')} can be edited`
+        )
+      )
+    }
+
+    // Only pass on outputs that actually changed
+    return Object.fromEntries(
+      Object.entries(edited).filter(
+        ([name, value]) =>
+          approval.outputs.includes(name) &&
+          JSON.stringify(value) !== JSON.stringify(original[name])
+      )
+    )
+  } finally {
+    if (existsSync(filePath)) {
+      unlinkSync(filePath)
+    }
+  }
+}
+
+/**
+ * Load a workflow and check that it is waiting for approval
+ */
+async function loadAwaitingWorkflow(workflowId: string): Promise<WorkflowState | null> {
+  const storage = new WorkflowStorage(process.cwd())
+  const workflow = await storage.load(workflowId)
+
+  if (!workflow) {
+    console.log(chalk.red(`❌ Workflow not found: ${workflowId}`))
+    process.exit(1)
+  }
+
+  if (workflow.status !== 'awaiting-approval' || !workflow.approval) {
+    console.log(chalk.yellow(`⚠  Workflow is not awaiting approval (status: ${workflow.status})`))
+    return null
+  }
+
+  return workflow
+}
+
+export async function approveCommand(
+  workflowId: string,
+  options: ApproveOptions
+): Promise<void> {
+  console.log(chalk.bold('\n✅ crew-opencode - Approve Workflow\n'))
+
+  try {
+    const workflow = await loadAwaitingWorkflow(workflowId)
+    if (!workflow?.approval) {
+      return
+    }
+
+    console.log(chalk.dim('Workflow:'), chalk.bold(workflowId))
+    console.log(chalk.dim('Step:'), chalk.cyan(workflow.approval.taskId))
+    console.log()
+
+    let outputs: Record<string, unknown> | undefined
+    if (options.edit) {
+      outputs = editOutputs(workflow)
+      const edited = Object.keys(outputs)
+      console.log(
+        edited.length > 0
+          ? chalk.green(`✓ Edited: ${edited.join(', ')}\n`)
+          : chalk.dim('No changes made; approving as is\n')
+      )
+    }
+
+    const orchestrator = new Orchestrator(loadConfig(), process.cwd())
+
+    // Register event handlers for progress tracking
+    registerProgressHandlers(orchestrator)
+
+    const onSigint = createSigintHandler(orchestrator)
+    process.on('SIGINT', onSigint)
+
+    let workflowState: WorkflowState
+    try {
+      workflowState = await orchestrator.approve(workflowId, { outputs, comment: options.comment })
+    } finally {
+      process.off('SIGINT', onSigint)
+    }
+
+    printExecutionSummary(workflowState)
+  } catch (error) {
+    console.log()
+    console.log(chalk.red('❌ Approval failed:'))
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)))
+    console.log()
+    process.exit(1)
+  }
+}
+
+export async function rejectCommand(workflowId: string, options: RejectOptions): Promise<void> {
+  console.log(chalk.bold('\n🛑 crew-opencode - Reject Workflow\n'))
+
+  try {
+    const workflow = await loadAwaitingWorkflow(workflowId)
+    if (!workflow?.approval) {
+      return
+    }
+
+    const orchestrator = new Orchestrator(loadConfig(), process.cwd())
+    await orchestrator.reject(workflowId, options.reason)
+
+    console.log(chalk.green(`✓ Rejected ${workflow.approval.taskId}; workflow stopped`))
+    console.log(
+      chalk.dim(`\nRun \`crew-opencode resume ${workflowId}\` to redo the step and continue.\n`)
+    )
+  } catch (error) {
+    console.log()
+    console.log(chalk.red('❌ Rejection failed:'))
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)))
+    console.log()
+    process.exit(1)
+  }
+}
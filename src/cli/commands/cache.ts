@@ -0,0 +1,61 @@
+import chalk from 'chalk'
+import { resolve } from 'node:path'
+import { loadConfig } from '../../config'
+import { ResponseCache } from '../../core/response-cache'
+
+interface CacheClearOptions {
+  expired?: boolean
+}
+
+/**
+ * Response cache of the current project
+ */
+function openCache(): { cache: ResponseCache; dir: string; enabled: boolean } {
+  const { cache } = loadConfig()
+  const dir = resolve(process.cwd(), cache.dir)
+  return { cache: new ResponseCache(dir, cache.ttl), dir, enabled: cache.enabled }
+}
+
+/**
+ * Format a byte count, e.g. "12.3 KB"
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export async function cacheStatsCommand(): Promise<void> {
+  console.log(chalk.bold('\n🗄  crew-opencode - Response Cache\n'))
+
+  const { cache, dir, enabled } = openCache()
+  const stats = cache.stats()
+
+  console.log(chalk.dim('Directory:'), dir)
+  console.log(chalk.dim('Status:'), enabled ? chalk.green('enabled') : chalk.yellow('disabled'))
+  console.log()
+  console.log(`  Entries:    ${stats.entries}${stats.expired > 0 ? chalk.dim(` (${stats.expired} expired)`) : ''}`)
+  console.log(`  Hits:       ${stats.hits}`)
+  console.log(`  Saved:      $${stats.savedCost.toFixed(4)}`)
+  console.log(`  Size:       ${formatSize(stats.size)}`)
+  console.log()
+
+  if (!enabled) {
+    console.log(chalk.dim('Enable it with `crew-opencode config cache.enabled true`.\n'))
+  }
+}
+
+export async function cacheClearCommand(options: CacheClearOptions): Promise<void> {
+  const { cache } = openCache()
+  const removed = cache.clear({ expiredOnly: options.expired })
+
+  console.log(
+    removed > 0
+      ? chalk.green(`\n✓ Removed ${removed} ${options.expired ? 'expired ' : ''}cache entr${removed === 1 ? 'y' : 'ies'}\n`)
+      : chalk.dim(`\nNo ${options.expired ? 'expired ' : ''}cache entries to remove.\n`)
+  )
+}
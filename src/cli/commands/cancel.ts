@@ -0,0 +1,41 @@
+import chalk from 'chalk'
+import { WorkflowStorage } from '../../core/workflow-storage'
+
+interface CancelOptions {
+  pause?: boolean
+  reason?: string
+}
+
+export async function cancelCommand(
+  workflowId: string,
+  options: CancelOptions
+): Promise<void> {
+  const action = options.pause ? 'pause' : 'cancel'
+
+  console.log(chalk.bold(`\n🛑 crew-opencode - ${options.pause ? 'Pause' : 'Cancel'} Workflow\n`))
+
+  const storage = new WorkflowStorage(process.cwd())
+  const workflow = await storage.load(workflowId)
+
+  if (!workflow) {
+    console.log(chalk.red(`❌ Workflow not found: ${workflowId}`))
+    process.exit(1)
+  }
+
+  if (workflow.status !== 'running' && workflow.status !== 'pending') {
+    console.log(chalk.yellow(`⚠  Workflow is not running (status: ${workflow.status})`))
+    return
+  }
+
+  await storage.requestStop(workflowId, action, options.reason)
+
+  console.log(chalk.green(`✓ ${options.pause ? 'Pause' : 'Cancellation'} requested for ${workflowId}`))
+  console.log(
+    chalk.dim(
+      options.pause
+        ? '  The workflow will stop after its in-flight tasks finish.'
+        : '  In-flight agent calls will be aborted within a few seconds.'
+    )
+  )
+  console.log(chalk.dim(`\nRun \`crew-opencode resume ${workflowId}\` to continue later.\n`))
+}
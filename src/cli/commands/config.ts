@@ -54,7 +54,7 @@ export async function configCommand(
     const configValue = getConfigValue(key)
     if (configValue === undefined) {
       console.log(chalk.yellow(`Key "${key}" not found.`))
-      console.log(chalk.dim('\nAvailable top-level keys: version, crew, sop, incidentReport, hooks'))
+      console.log(chalk.dim('\nAvailable top-level keys: version, crew, sop, incidentReport, hooks, planning, sandbox'))
       return
     }
 
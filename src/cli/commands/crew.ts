@@ -1,12 +1,49 @@
 import chalk from 'chalk'
+import { clearScreenDown, moveCursor } from 'node:readline'
+import { resolve } from 'node:path'
 import { Orchestrator } from '../../core/orchestrator'
-import { loadConfig } from '../../config'
-import { getSOPDefinition } from '../../sop'
-import type { SOPType } from '../../sop'
+import { createProviderRegistry } from '../../core/providers'
+import { loadConfig, type CrewConfig } from '../../config'
+import { createSOPRegistry } from '../../sop'
+import type { AgentRole, WorkflowState } from '../../core/types'
 
 interface CrewOptions {
   sop?: string
   dryRun?: boolean
+  provider?: string
+  mockFile?: string
+}
+
+/**
+ * Route every agent to one provider, keeping the model names
+ *
+ * With a mock file, a mock provider is registered under the provider name
+ * ("mock" by default). Throws if the provider is unknown.
+ */
+export function useProvider(config: CrewConfig, provider: string, mockFile?: string): CrewConfig {
+  const providers = mockFile
+    ? { ...config.providers, [provider]: { kind: 'mock' as const, mockFile: resolve(mockFile) } }
+    : config.providers
+
+  const registry = createProviderRegistry(providers)
+  if (!registry.has(provider)) {
+    throw new Error(`Unknown provider "${provider}". Available: ${registry.names().join(', ')}`)
+  }
+
+  const route = (id: string): string => `${provider}/${id.substring(id.indexOf('/') + 1)}`
+  const crew = Object.fromEntries(
+    Object.entries(config.crew).map(([agent, agentConfig]) => [
+      agent,
+      {
+        ...agentConfig,
+        model: Array.isArray(agentConfig.model)
+          ? agentConfig.model.map(route)
+          : route(agentConfig.model),
+      },
+    ])
+  ) as CrewConfig['crew']
+
+  return { ...config, providers, crew }
 }
 
 export async function crewCommand(
@@ -20,8 +57,10 @@ export async function crewCommand(
     console.log(chalk.dim('\nUsage:'))
     console.log(chalk.dim('  crew-opencode crew "your task description"'))
     console.log(chalk.dim('\nOptions:'))
-    console.log(chalk.dim('  -s, --sop <type>  SOP type: feature, bugfix, refactor (default: feature)'))
+    console.log(chalk.dim('  -s, --sop <name>  SOP: feature, bugfix, refactor or a custom SOP (default: feature)'))
     console.log(chalk.dim('  --dry-run         Show execution plan without running'))
+    console.log(chalk.dim('  --provider <name> Run every agent on one provider'))
+    console.log(chalk.dim('  --mock-file <path> Scripted responses for the mock provider'))
     console.log(chalk.dim('\nExamples:'))
     console.log(chalk.dim('  crew-opencode crew "Add authentication to the API"'))
     console.log(chalk.dim('  crew-opencode crew "Fix login timeout issue" --sop bugfix'))
@@ -29,25 +68,44 @@ export async function crewCommand(
     return
   }
 
-  // Validate SOP type
-  const sopType = (options.sop ?? 'feature') as SOPType
-  if (!['feature', 'bugfix', 'refactor'].includes(sopType)) {
-    console.log(chalk.red(`\n❌ Invalid SOP type: ${sopType}`))
-    console.log(chalk.dim('Valid types: feature, bugfix, refactor'))
+  // Validate SOP name against built-in and user-defined SOPs
+  let config = loadConfig()
+  const sopRegistry = createSOPRegistry({ config })
+  const sopType = options.sop ?? config.sop.default
+  const sop = sopRegistry.get(sopType)
+
+  if (!sop) {
+    console.log(chalk.red(`\n❌ Unknown SOP: ${sopType}`))
+    console.log(chalk.dim(`Available SOPs: ${sopRegistry.names().join(', ')}`))
+    for (const loadError of sopRegistry.getErrors()) {
+      console.log(chalk.yellow(`  ⚠  ${loadError}`))
+    }
     return
   }
 
+  const provider = options.provider ?? (options.mockFile ? 'mock' : undefined)
+  if (provider) {
+    try {
+      config = useProvider(config, provider, options.mockFile)
+    } catch (error) {
+      console.log(chalk.red(`\n❌ ${error instanceof Error ? error.message : String(error)}`))
+      return
+    }
+  }
+
   const isDryRun = options.dryRun ?? false
 
   console.log(chalk.dim('Task:'), chalk.bold(task))
   console.log(chalk.dim('SOP:'), chalk.cyan(sopType))
   console.log(chalk.dim('Mode:'), isDryRun ? chalk.yellow('Dry Run') : chalk.green('Live'))
+  if (provider) {
+    console.log(chalk.dim('Provider:'), chalk.cyan(provider))
+  }
   console.log()
 
-  try {
-    // Load SOP definition
-    const sop = getSOPDefinition(sopType)
+  let orchestrator: Orchestrator | undefined
 
+  try {
     // Display execution plan
     console.log(chalk.bold('📋 Execution Plan:\n'))
     console.log(chalk.dim(`Workflow: ${sop.name}`))
@@ -73,16 +131,42 @@ export async function crewCommand(
         if (step) {
           console.log(chalk.cyan(`  ${order}. ${step.agent.toUpperCase()}`))
           console.log(chalk.dim(`     ${step.action}`))
+          if (step.dependsOn) {
+            console.log(chalk.dim(`     after: ${step.dependsOn.join(', ') || '(none)'}`))
+          }
+          if (step.when) {
+            console.log(chalk.dim(`     only when: ${step.when}`))
+          }
+          if (step.approval) {
+            console.log(chalk.dim(`     ✋ waits for approval`))
+          }
+          if (step.loop) {
+            console.log(
+              chalk.dim(`     ↺ back to ${step.loop.goto} if ${step.loop.when} (max ${step.loop.maxIterations})`)
+            )
+          }
         }
       } else {
         console.log(chalk.cyan(`  ${order}. ${steps.map((s) => s.agent.toUpperCase()).join(' + ')} [Parallel]`))
         for (const step of steps) {
-          console.log(chalk.dim(`     • ${step.agent.toUpperCase()}: ${step.action}`))
+          const after = step.dependsOn ? chalk.dim(` (after: ${step.dependsOn.join(', ') || 'none'})`) : ''
+          console.log(chalk.dim(`     • ${step.agent.toUpperCase()}: ${step.action}`) + after)
+          if (step.when) {
+            console.log(chalk.dim(`       only when: ${step.when}`))
+          }
+          if (step.approval) {
+            console.log(chalk.dim(`       ✋ waits for approval`))
+          }
         }
       }
       console.log()
     }
 
+    if (config.planning.enabled) {
+      console.log(chalk.dim(`  + tasks from the PM's ${config.planning.output} (max ${config.planning.maxTasks})`))
+      console.log()
+    }
+
     if (isDryRun) {
       console.log(chalk.yellow('✓ Dry run complete. No agents were executed.\n'))
       return
@@ -91,94 +175,374 @@ export async function crewCommand(
     // Execute workflow
     console.log(chalk.bold('🚀 Starting execution...\n'))
 
-    const config = await loadConfig()
-    const orchestrator = new Orchestrator(config, process.cwd())
+    orchestrator = new Orchestrator(config, process.cwd())
 
     // Register event handlers for progress tracking
-    orchestrator.on((event) => {
-      switch (event.type) {
-        case 'workflow:start':
-          console.log(chalk.green(`✓ Workflow started: ${event.sopName}`))
-          console.log(chalk.dim(`  Workflow ID: ${event.workflowId}\n`))
-          break
-
-        case 'task:start':
-          console.log(chalk.cyan(`→ ${event.agent.toUpperCase()} starting...`))
-          break
-
-        case 'task:complete':
-          console.log(chalk.green(`✓ ${event.taskId} completed`))
-          break
-
-        case 'task:fail':
-          console.log(chalk.red(`✗ ${event.taskId} failed`))
-          if (event.error) {
-            console.log(chalk.red(`  Error: ${event.error.message}`))
-          }
-          break
+    registerProgressHandlers(orchestrator)
 
-        case 'agent:progress':
-          console.log(chalk.dim(`  ${event.progress.agent.toUpperCase()}: ${event.progress.message}`))
-          break
+    // First Ctrl+C cancels gracefully (state is kept for resume), second one exits
+    const onSigint = createSigintHandler(orchestrator)
+    process.on('SIGINT', onSigint)
 
-        case 'incident:created':
-          console.log(chalk.yellow(`⚠  Incident report created: ${event.report.id}`))
-          break
+    let workflowState: WorkflowState
+    try {
+      workflowState = await orchestrator.execute(task, sopType, process.cwd())
+    } finally {
+      process.off('SIGINT', onSigint)
+    }
 
-        case 'workflow:complete':
-          const mins = Math.floor(event.duration / 60000)
-          const secs = Math.floor((event.duration % 60000) / 1000)
-          console.log(chalk.green(`\n✓ Workflow completed in ${mins}m ${secs}s`))
-          break
+    printExecutionSummary(workflowState)
+  } catch (error) {
+    console.log()
+    console.log(chalk.red('❌ Execution failed:'))
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)))
+    const workflowId = orchestrator?.getWorkflowState()?.id
+    if (workflowId) {
+      console.log(chalk.dim(`\nRun \`crew-opencode resume ${workflowId}\` to retry unfinished tasks`))
+    }
+    console.log()
+    process.exit(1)
+  }
+}
+
+/**
+ * Create a SIGINT handler that cancels the workflow, then force-exits on repeat
+ */
+export function createSigintHandler(orchestrator: Orchestrator): () => void {
+  let interrupted = false
+
+  return () => {
+    if (interrupted) {
+      console.log(chalk.red('\n✗ Forced exit'))
+      process.exit(130)
+    }
+
+    interrupted = true
+    console.log(chalk.yellow('\n⚠  Cancelling workflow... (press Ctrl+C again to force exit)'))
+    orchestrator.cancel('Interrupted by user (SIGINT)')
+  }
+}
+
+/**
+ * Minimum time between redraws of the live token lines
+ */
+const TOKEN_RENDER_INTERVAL = 100
+
+/**
+ * Streaming throughput of one task
+ */
+interface TokenStats {
+  agent: AgentRole
+  outputTokens: number
+  startedAt: number
+  updatedAt: number
+}
+
+/**
+ * Tokens per second between a task's first and latest streamed tokens
+ */
+function tokensPerSecond(stats: TokenStats): number {
+  const seconds = (stats.updatedAt - stats.startedAt) / 1000
+  return seconds > 0 ? stats.outputTokens / seconds : 0
+}
+
+/**
+ * Live per-task token lines kept below the event log
+ *
+ * Tasks running in parallel get a line each. Lines are only drawn on a TTY;
+ * elsewhere the stats still show when a task completes.
+ */
+export class TokenStatusDisplay {
+  private tasks = new Map<string, TokenStats>()
+  private stream: NodeJS.WriteStream
+  private renderedLines = 0
+  private lastRender = 0
+
+  constructor(stream: NodeJS.WriteStream = process.stdout) {
+    this.stream = stream
+  }
+
+  /**
+   * Record a task's output token count and redraw (throttled)
+   */
+  update(taskId: string, agent: AgentRole, outputTokens: number): void {
+    const now = Date.now()
+    const stats = this.tasks.get(taskId)
+
+    // A lower count means a retry started over
+    if (!stats || outputTokens < stats.outputTokens) {
+      this.tasks.set(taskId, { agent, outputTokens, startedAt: now, updatedAt: now })
+    } else {
+      stats.outputTokens = outputTokens
+      stats.updatedAt = now
+    }
+
+    if (now - this.lastRender >= TOKEN_RENDER_INTERVAL) {
+      this.clear()
+      this.render()
+    }
+  }
+
+  /**
+   * Stop showing a task, returning its summary (undefined if it never streamed)
+   */
+  finish(taskId: string): string | undefined {
+    const stats = this.tasks.get(taskId)
+    if (!stats) {
+      return undefined
+    }
+
+    this.tasks.delete(taskId)
+    return `${stats.outputTokens} tokens, ${tokensPerSecond(stats).toFixed(1)} tok/s`
+  }
+
+  /**
+   * Erase the drawn lines so a log line can be printed in their place
+   */
+  clear(): void {
+    if (this.renderedLines > 0) {
+      moveCursor(this.stream, 0, -this.renderedLines)
+      clearScreenDown(this.stream)
+      this.renderedLines = 0
+    }
+  }
 
-        case 'workflow:fail':
-          console.log(chalk.red(`\n✗ Workflow failed: ${event.error.message}`))
-          break
+  /**
+   * Draw a line per streaming task
+   */
+  render(): void {
+    if (!this.stream.isTTY || this.tasks.size === 0) {
+      return
+    }
+
+    for (const stats of this.tasks.values()) {
+      this.stream.write(
+        chalk.dim(
+          `  ${stats.agent.toUpperCase()} ▸ ${stats.outputTokens} tokens · ${tokensPerSecond(stats).toFixed(1)} tok/s\n`
+        )
+      )
+    }
+    this.renderedLines = this.tasks.size
+    this.lastRender = Date.now()
+  }
+}
+
+/**
+ * Print workflow progress events to the console
+ */
+export function registerProgressHandlers(orchestrator: Orchestrator): void {
+  const tokens = new TokenStatusDisplay()
+
+  orchestrator.on((event) => {
+    if (event.type === 'agent:token') {
+      tokens.update(event.taskId, event.agent, event.outputTokens)
+      return
+    }
+
+    // Log lines go above the live token lines
+    tokens.clear()
+
+    switch (event.type) {
+      case 'workflow:start':
+        console.log(chalk.green(`✓ Workflow started: ${event.sopName}`))
+        console.log(chalk.dim(`  Workflow ID: ${event.workflowId}\n`))
+        break
+
+      case 'workflow:resume':
+        console.log(chalk.green(`✓ Workflow resumed: ${event.sopName}`))
+        console.log(chalk.dim(`  Workflow ID: ${event.workflowId}`))
+        console.log(chalk.dim(`  Remaining tasks: ${event.remainingTasks}\n`))
+        break
+
+      case 'task:start':
+        console.log(chalk.cyan(`→ ${event.agent.toUpperCase()} starting...`))
+        break
+
+      case 'task:complete': {
+        const summary = tokens.finish(event.taskId)
+        console.log(
+          chalk.green(`✓ ${event.taskId} completed`) + (summary ? chalk.dim(` (${summary})`) : '')
+        )
+        break
       }
-    })
 
-    const workflowState = await orchestrator.execute(task, sopType, process.cwd())
+      case 'task:fail':
+        tokens.finish(event.taskId)
+        console.log(chalk.red(`✗ ${event.taskId} failed`))
+        if (event.error) {
+          console.log(chalk.red(`  Error: ${event.error.message}`))
+        }
+        break
 
-    // Display final summary
-    console.log()
-    console.log(chalk.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'))
-    console.log(chalk.bold('📊 Execution Summary'))
-    console.log(chalk.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'))
-    console.log()
-    console.log(chalk.dim('Status:'), workflowState.status === 'completed' ? chalk.green('✓ Completed') : chalk.red('✗ Failed'))
-    console.log(chalk.dim('SOP:'), chalk.cyan(workflowState.sopName))
-    console.log(chalk.dim('Steps:'), `${workflowState.currentStep}/${workflowState.totalSteps}`)
+      case 'task:skip':
+        console.log(chalk.dim(`⤼ ${event.taskId} skipped (${event.reason})`))
+        break
+
+      case 'task:loop':
+        console.log(
+          chalk.yellow(
+            `↺ ${event.taskId} sent work back to ${event.gotoTaskId} (iteration ${event.iteration}/${event.maxIterations})`
+          )
+        )
+        break
+
+      case 'plan:expand':
+        console.log(chalk.cyan(`🗺  ${event.taskId} planned ${event.addedTasks.length} more task(s):`))
+        for (const taskId of event.addedTasks) {
+          console.log(chalk.dim(`   • ${taskId}`))
+        }
+        break
+
+      case 'agent:progress':
+        console.log(chalk.dim(`  ${event.progress.agent.toUpperCase()}: ${event.progress.message}`))
+        break
+
+      case 'incident:created':
+        console.log(chalk.yellow(`⚠  Incident report created: ${event.report.id}`))
+        break
+
+      case 'workflow:complete':
+        const mins = Math.floor(event.duration / 60000)
+        const secs = Math.floor((event.duration % 60000) / 1000)
+        console.log(chalk.green(`\n✓ Workflow completed in ${mins}m ${secs}s`))
+        break
 
-    if (workflowState.completedAt && workflowState.startedAt) {
-      const duration = workflowState.completedAt.getTime() - workflowState.startedAt.getTime()
-      const mins = Math.floor(duration / 60000)
-      const secs = Math.floor((duration % 60000) / 1000)
-      console.log(chalk.dim('Duration:'), `${mins}m ${secs}s`)
+      case 'workflow:fail':
+        console.log(chalk.red(`\n✗ Workflow failed: ${event.error.message}`))
+        break
+
+      case 'workflow:pause':
+        console.log(chalk.yellow(`\n⏸  Workflow paused: ${event.reason}`))
+        break
+
+      case 'workflow:cancel':
+        console.log(chalk.yellow(`\n✗ Workflow cancelled: ${event.reason}`))
+        break
+
+      case 'workflow:awaiting-approval':
+        console.log(chalk.yellow(`\n✋ ${event.approval.taskId} is waiting for approval`))
+        break
     }
 
-    const completed = workflowState.tasks.filter((t) => t.status === 'completed').length
-    const failed = workflowState.tasks.filter((t) => t.status === 'failed').length
+    tokens.render()
+  })
+}
+
+/**
+ * Print the final execution summary and exit non-zero on failure
+ */
+export function printExecutionSummary(workflowState: WorkflowState): void {
+  console.log()
+  console.log(chalk.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'))
+  console.log(chalk.bold('📊 Execution Summary'))
+  console.log(chalk.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'))
+  console.log()
+  console.log(chalk.dim('Status:'), formatWorkflowStatus(workflowState.status))
+  console.log(chalk.dim('SOP:'), chalk.cyan(workflowState.sopName))
+  console.log(chalk.dim('Steps:'), `${workflowState.currentStep}/${workflowState.totalSteps}`)
+
+  if (workflowState.completedAt && workflowState.startedAt) {
+    const duration = workflowState.completedAt.getTime() - workflowState.startedAt.getTime()
+    const mins = Math.floor(duration / 60000)
+    const secs = Math.floor((duration % 60000) / 1000)
+    console.log(chalk.dim('Duration:'), `${mins}m ${secs}s`)
+  }
+
+  const completed = workflowState.tasks.filter((t) => t.status === 'completed').length
+  const failed = workflowState.tasks.filter((t) => t.status === 'failed').length
+
+  console.log(chalk.dim('Tasks:'), `${completed} completed, ${failed} failed`)
+
+  const iterated = workflowState.tasks.filter((t) => !t.iterationOf && (t.iteration ?? 1) > 1)
+  if (iterated.length > 0) {
+    console.log(
+      chalk.dim('Iterations:'),
+      iterated.map((t) => `${t.id} ×${t.iteration}`).join(', ')
+    )
+  }
+
+  const usage = workflowState.tokenUsage
+  if (usage) {
+    console.log(
+      chalk.dim('Tokens:'),
+      `${usage.inputTokens} in, ${usage.outputTokens} out` +
+        (usage.cachedInputTokens ? chalk.dim(` (${usage.cachedInputTokens} from prompt cache)`) : '')
+    )
+    console.log(chalk.dim('Cost:'), `$${usage.estimatedCost.toFixed(4)}`)
+
+    if (usage.unpricedModels?.length) {
+      console.log(
+        chalk.yellow(
+          `⚠  No pricing for ${usage.unpricedModels.join(', ')}; their calls are counted as $0. ` +
+            'Add prices under `providers.<name>.pricing`.'
+        )
+      )
+    }
+  }
 
-    console.log(chalk.dim('Tasks:'), `${completed} completed, ${failed} failed`)
+  console.log()
+  console.log(chalk.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'))
 
+  if (workflowState.status === 'completed') {
+    console.log()
+    console.log(chalk.green('✨ Task completed successfully!'))
     console.log()
-    console.log(chalk.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'))
 
-    if (workflowState.status === 'completed') {
-      console.log()
-      console.log(chalk.green('✨ Task completed successfully!'))
-      console.log()
-    } else {
-      console.log()
-      console.log(chalk.red('⚠️  Task failed. Check incident reports for details.'))
-      console.log(chalk.dim('Run `crew-opencode reports` to view incident reports\n'))
-      process.exit(1)
+    if (workflowState.context.artifacts.some((a) => a.path && a.content !== undefined)) {
+      console.log(chalk.dim(`Run \`crew-opencode apply ${workflowState.id}\` to review and write the file changes\n`))
     }
-  } catch (error) {
+  } else if (workflowState.status === 'awaiting-approval' && workflowState.approval) {
+    printPendingApproval(workflowState)
+  } else if (workflowState.status === 'cancelled' || workflowState.status === 'paused') {
     console.log()
-    console.log(chalk.red('❌ Execution failed:'))
-    console.log(chalk.red(error instanceof Error ? error.message : String(error)))
+    console.log(chalk.yellow(`Workflow ${workflowState.status}. Partial outputs have been saved.`))
+    console.log(chalk.dim(`Run \`crew-opencode resume ${workflowState.id}\` to continue\n`))
+    process.exit(workflowState.status === 'cancelled' ? 130 : 0)
+  } else {
     console.log()
+    console.log(chalk.red('⚠️  Task failed. Check incident reports for details.'))
+    console.log(chalk.dim('Run `crew-opencode reports` to view incident reports\n'))
     process.exit(1)
   }
 }
+
+/**
+ * Show the outputs waiting for approval and how to continue
+ */
+function printPendingApproval(workflowState: WorkflowState): void {
+  const approval = workflowState.approval
+  if (!approval) return
+
+  console.log()
+  console.log(chalk.yellow(`✋ ${approval.agent.toUpperCase()} output needs approval before the crew continues:`))
+
+  for (const name of approval.outputs) {
+    const value = workflowState.context.outputs[name]
+    console.log()
+    console.log(chalk.bold(`  ${name}`))
+    console.log(chalk.dim(value === undefined ? '  (not available)' : JSON.stringify(value, null, 2)))
+  }
+
+  console.log()
+  console.log(chalk.dim(`Run \`crew-opencode approve ${workflowState.id}\` to continue,`))
+  console.log(chalk.dim(`    \`crew-opencode approve ${workflowState.id} --edit\` to edit the outputs first,`))
+  console.log(chalk.dim(` or \`crew-opencode reject ${workflowState.id}\` to stop\n`))
+}
+
+/**
+ * Format workflow status for the summary
+ */
+function formatWorkflowStatus(status: WorkflowState['status']): string {
+  switch (status) {
+    case 'completed':
+      return chalk.green('✓ Completed')
+    case 'paused':
+      return chalk.yellow('⏸ Paused')
+    case 'awaiting-approval':
+      return chalk.yellow('✋ Awaiting approval')
+    case 'cancelled':
+      return chalk.yellow('✗ Cancelled')
+    default:
+      return chalk.red('✗ Failed')
+  }
+}
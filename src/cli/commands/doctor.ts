@@ -2,6 +2,9 @@ import chalk from 'chalk'
 import { existsSync } from 'node:fs'
 import { join } from 'node:path'
 import { homedir } from 'node:os'
+import { createSOPRegistry } from '../../sop'
+import { DEFAULT_PRICING, loadConfig, type CrewConfig } from '../../config'
+import { createProviderRegistry } from '../../core/providers'
 
 interface CheckResult {
   name: string
@@ -58,14 +61,24 @@ async function runChecks(): Promise<CheckResult[]> {
   const sopsPath = existsSync(join(localPath, 'sop'))
     ? join(localPath, 'sop')
     : join(globalPath, 'sop')
+  const sopRegistry = createSOPRegistry()
   results.push({
     name: 'SOPs',
     status: existsSync(sopsPath) ? 'pass' : 'fail',
     message: existsSync(sopsPath)
-      ? 'All SOPs available (feature, bugfix, refactor)'
+      ? `SOPs available (${sopRegistry.names().join(', ')})`
       : 'SOPs not found. Run `crew-opencode install`.',
   })
 
+  // Check user-defined SOP files
+  for (const loadError of sopRegistry.getErrors()) {
+    results.push({
+      name: 'SOP file',
+      status: 'warn',
+      message: `Skipped invalid SOP ${loadError}`,
+    })
+  }
+
   // Check config
   const configPath = existsSync(join(localPath, 'crew-opencode.json'))
     ? join(localPath, 'crew-opencode.json')
@@ -78,9 +91,61 @@ async function runChecks(): Promise<CheckResult[]> {
       : 'Using default configuration.',
   })
 
+  results.push(...checkPricing())
+
   return results
 }
 
+/**
+ * Check that the agents' models have prices, so run costs are complete
+ */
+function checkPricing(): CheckResult[] {
+  let config: CrewConfig
+  try {
+    config = loadConfig()
+  } catch (error) {
+    return [
+      {
+        name: 'Pricing',
+        status: 'warn',
+        message: `Could not load configuration: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ]
+  }
+
+  const registry = createProviderRegistry(config.providers)
+  const unpriced = new Set<string>()
+
+  for (const agentConfig of Object.values(config.crew)) {
+    const models = Array.isArray(agentConfig.model) ? agentConfig.model : [agentConfig.model]
+    for (const model of models) {
+      try {
+        if (registry.resolve(model).unpriced) {
+          unpriced.add(model)
+        }
+      } catch {
+        // Unknown providers are reported by config validation
+      }
+    }
+  }
+
+  return [
+    unpriced.size > 0
+      ? {
+          name: 'Pricing',
+          status: 'warn',
+          message:
+            `No pricing for ${[...unpriced].join(', ')}; their calls are counted as $0. ` +
+            'Add prices under `providers.<name>.pricing`.',
+        }
+      : {
+          name: 'Pricing',
+          status: 'pass',
+          message: `All agent models priced (price table ${DEFAULT_PRICING.version})`,
+        },
+  ]
+}
+
 export async function doctorCommand(): Promise<void> {
   console.log(chalk.bold('\ncrew-opencode doctor\n'))
   console.log(chalk.dim('Checking installation and configuration...\n'))
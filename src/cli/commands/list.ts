@@ -1,6 +1,7 @@
 import chalk from 'chalk'
 import { AGENT_METADATA } from '../../agents'
-import { getAllSOPMetadata } from '../../sop'
+import { createSOPRegistry, getAllSOPMetadata } from '../../sop'
+import { loadConfig } from '../../config'
 
 interface ListOptions {
   agents?: boolean
@@ -47,17 +48,30 @@ export async function listCommand(options: ListOptions): Promise<void> {
     console.log(chalk.bold.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'))
     console.log()
 
-    const sops = getAllSOPMetadata()
+    // Same registry as `crew`, so config overrides of built-ins show up
+    const registry = createSOPRegistry({ projectPath: process.cwd(), config: loadConfig() })
+    const sops = getAllSOPMetadata(registry)
 
     for (const [sopName, metadata] of Object.entries(sops)) {
-      console.log(chalk.bold(`  ${sopName}`), chalk.dim(`(${metadata.estimatedTime})`))
+      const entry = registry.getEntry(sopName)
+      const badge =
+        entry && entry.source !== 'builtin' ? chalk.magenta(` [${entry.source}]`) : ''
+
+      console.log(chalk.bold(`  ${sopName}`) + badge, chalk.dim(`(${metadata.estimatedTime})`))
       console.log(chalk.dim(`    ${metadata.description}`))
       console.log(
         chalk.dim(`    Steps: ${metadata.totalSteps} | Agents: ${metadata.requiredAgents.map((a) => a.toUpperCase()).join(', ')}`)
       )
+      if (entry?.path) {
+        console.log(chalk.dim(`    File: ${entry.path}`))
+      }
       console.log()
     }
 
+    for (const loadError of registry.getErrors()) {
+      console.log(chalk.yellow(`  ⚠  Skipped ${loadError}`))
+    }
+
     console.log(chalk.dim('Usage: crew-opencode crew "task" --sop <name>\n'))
   }
 
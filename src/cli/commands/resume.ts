@@ -0,0 +1,37 @@
+import chalk from 'chalk'
+import { Orchestrator } from '../../core/orchestrator'
+import { loadConfig } from '../../config'
+import type { WorkflowState } from '../../core/types'
+import { registerProgressHandlers, printExecutionSummary, createSigintHandler } from './crew'
+
+export async function resumeCommand(workflowId: string): Promise<void> {
+  console.log(chalk.bold('\n🎯 crew-opencode - Resume Workflow\n'))
+  console.log(chalk.dim('Workflow:'), chalk.bold(workflowId))
+  console.log()
+
+  try {
+    const config = await loadConfig()
+    const orchestrator = new Orchestrator(config, process.cwd())
+
+    // Register event handlers for progress tracking
+    registerProgressHandlers(orchestrator)
+
+    const onSigint = createSigintHandler(orchestrator)
+    process.on('SIGINT', onSigint)
+
+    let workflowState: WorkflowState
+    try {
+      workflowState = await orchestrator.resume(workflowId)
+    } finally {
+      process.off('SIGINT', onSigint)
+    }
+
+    printExecutionSummary(workflowState)
+  } catch (error) {
+    console.log()
+    console.log(chalk.red('❌ Resume failed:'))
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)))
+    console.log()
+    process.exit(1)
+  }
+}
@@ -0,0 +1,55 @@
+import chalk from 'chalk'
+import { loadConfig } from '../../config'
+import { createSOPRegistry, validateSOPDefinition } from '../../sop'
+
+export async function sopLintCommand(name?: string): Promise<void> {
+  console.log(chalk.bold('\n🔎 crew-opencode - SOP Lint\n'))
+
+  const registry = createSOPRegistry({ config: loadConfig() })
+
+  if (name && !registry.has(name)) {
+    console.log(chalk.red(`❌ Unknown SOP: ${name}`))
+    console.log(chalk.dim(`   Available: ${registry.names().join(', ')}`))
+    process.exit(1)
+  }
+
+  const names = name ? [name] : registry.names()
+  let errorCount = 0
+  let warningCount = 0
+
+  // Files that could not even be parsed
+  if (!name) {
+    for (const loadError of registry.getErrors()) {
+      errorCount++
+      console.log(chalk.red(`✗ ${loadError}`))
+    }
+  }
+
+  for (const entry of registry.list().filter((e) => names.includes(e.definition.name))) {
+    const sopName = entry.definition.name
+    const { errors, warnings } = validateSOPDefinition(entry.definition)
+
+    errorCount += errors.length
+    warningCount += warnings.length
+
+    const icon = errors.length > 0 ? chalk.red('✗') : chalk.green('✓')
+    const origin = entry.path ? entry.path : `${entry.definition.steps.length} steps`
+    console.log(`${icon} ${chalk.bold(sopName)} ${chalk.dim(`(${origin})`)}`)
+
+    for (const error of errors) {
+      console.log(chalk.red(`    error    ${error}`))
+    }
+    for (const warning of warnings) {
+      console.log(chalk.yellow(`    warning  ${warning}`))
+    }
+  }
+
+  console.log()
+  console.log(
+    chalk.dim(`${errorCount} error(s), ${warningCount} warning(s) in ${names.length} SOP(s)\n`)
+  )
+
+  if (errorCount > 0) {
+    process.exit(1)
+  }
+}
@@ -8,6 +8,12 @@ import { configCommand } from './commands/config'
 import { listCommand } from './commands/list'
 import { doctorCommand } from './commands/doctor'
 import { reportsCommand } from './commands/reports'
+import { resumeCommand } from './commands/resume'
+import { cancelCommand } from './commands/cancel'
+import { approveCommand, rejectCommand } from './commands/approve'
+import { sopLintCommand } from './commands/sop'
+import { applyCommand } from './commands/apply'
+import { cacheStatsCommand, cacheClearCommand } from './commands/cache'
 
 const VERSION = '1.0.0'
 
@@ -39,10 +45,43 @@ program
 program
   .command('crew [task]')
   .description('Execute a task with the crew (like a strict manager)')
-  .option('-s, --sop <type>', 'SOP type: feature, bugfix, refactor', 'feature')
+  .option('-s, --sop <name>', 'SOP: feature, bugfix, refactor or a custom SOP name')
   .option('--dry-run', 'Show execution plan without running')
+  .option('--provider <name>', 'Run every agent on this provider (e.g. mock or ollama)')
+  .option('--mock-file <path>', 'Rules file (JSON or script) for the mock provider')
   .action(crewCommand)
 
+program
+  .command('resume <workflowId>')
+  .description('Resume an interrupted or failed workflow')
+  .action(resumeCommand)
+
+program
+  .command('cancel <workflowId>')
+  .description('Cancel (or pause) a running workflow')
+  .option('-p, --pause', 'Pause after in-flight tasks finish instead of aborting them')
+  .option('-r, --reason <text>', 'Reason recorded with the cancellation')
+  .action(cancelCommand)
+
+program
+  .command('approve <workflowId>')
+  .description('Approve the step a workflow is waiting on and continue')
+  .option('-e, --edit', 'Edit the step outputs (JSON) in $EDITOR before approving')
+  .option('-c, --comment <text>', 'Comment recorded with the approval')
+  .action(approveCommand)
+
+program
+  .command('reject <workflowId>')
+  .description('Reject the step a workflow is waiting on and stop it')
+  .option('-r, --reason <text>', 'Reason recorded with the rejection')
+  .action(rejectCommand)
+
+program
+  .command('apply <workflowId>')
+  .description('Review file changes produced by a workflow and write them to the project')
+  .option('-a, --apply', 'Write the changes without asking')
+  .action(applyCommand)
+
 program
   .command('config [key] [value]')
   .description('Get or set configuration values')
@@ -58,6 +97,26 @@ program
   .option('-s, --sops', 'List SOPs only')
   .action(listCommand)
 
+const sop = program.command('sop').description('Inspect SOP definitions')
+
+sop
+  .command('lint [name]')
+  .description('Check SOP data flow: unsatisfied inputs, unused outputs, parallel collisions')
+  .action(sopLintCommand)
+
+const cache = program.command('cache').description('Inspect or clear the LLM response cache')
+
+cache
+  .command('stats')
+  .description('Show cache entries, hits and the cost they saved')
+  .action(cacheStatsCommand)
+
+cache
+  .command('clear')
+  .description('Remove cached responses')
+  .option('--expired', 'Only remove entries past their TTL')
+  .action(cacheClearCommand)
+
 program
   .command('doctor')
   .description('Diagnose installation and configuration issues')
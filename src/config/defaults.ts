@@ -1,4 +1,5 @@
-import type { CrewConfig, SOPDefinition } from './schema'
+import { PricingTableSchema, type CrewConfig, type PricingTable, type SOPDefinition } from './schema'
+import pricingTable from './pricing.json'
 
 /**
  * Default SOP: Feature Development
@@ -9,13 +10,16 @@ export const DEFAULT_SOP_FEATURE: SOPDefinition = {
   requiredAgents: ['pm', 'ta', 'design', 'fe', 'qa'],
   steps: [
     {
+      id: 'plan',
       order: 1,
       agent: 'pm',
-      action: 'Analyze requirements and create execution plan',
+      action:
+        'Analyze requirements and create execution plan. Include "hasUI": boolean in task_breakdown',
       inputs: ['user_request', 'project_context'],
       outputs: ['execution_plan', 'task_breakdown'],
     },
     {
+      id: 'analyze',
       order: 2,
       agent: 'ta',
       action: 'Research documentation and analyze codebase',
@@ -24,14 +28,18 @@ export const DEFAULT_SOP_FEATURE: SOPDefinition = {
       parallel: ['design'],
     },
     {
+      id: 'design',
       order: 2,
       agent: 'design',
       action: 'Review UI/UX flows and propose design',
       inputs: ['execution_plan', 'user_requirements'],
       outputs: ['design_spec', 'component_hierarchy'],
       parallel: ['ta'],
+      // Backend-only work doesn't need a design pass
+      when: 'task_breakdown.hasUI != false',
     },
     {
+      id: 'implement',
       order: 3,
       agent: 'fe',
       action: 'Implement feature based on specs',
@@ -39,13 +47,33 @@ export const DEFAULT_SOP_FEATURE: SOPDefinition = {
       outputs: ['implementation_code', 'components'],
     },
     {
+      id: 'verify',
       order: 4,
       agent: 'qa',
-      action: 'Write and run tests, verify quality',
+      action:
+        'Write and run tests, verify quality. Report quality_assessment as JSON: { "pass": boolean, "findings": string[] }',
       inputs: ['implementation_code', 'technical_spec'],
       outputs: ['test_files', 'coverage_report', 'quality_assessment'],
+      loop: {
+        when: 'quality_assessment.pass == false',
+        goto: 'implement',
+        maxIterations: 3,
+      },
+      validation: {
+        schema: {
+          quality_assessment: {
+            type: 'object',
+            properties: {
+              pass: { type: 'boolean' },
+              findings: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['pass'],
+          },
+        },
+      },
     },
     {
+      id: 'review',
       order: 5,
       agent: 'pm',
       action: 'Final review and summary',
@@ -64,6 +92,7 @@ export const DEFAULT_SOP_BUGFIX: SOPDefinition = {
   requiredAgents: ['pm', 'ta', 'fe', 'qa'],
   steps: [
     {
+      id: 'triage',
       order: 1,
       agent: 'pm',
       action: 'Analyze bug report and prioritize',
@@ -71,6 +100,7 @@ export const DEFAULT_SOP_BUGFIX: SOPDefinition = {
       outputs: ['bug_analysis', 'fix_plan'],
     },
     {
+      id: 'investigate',
       order: 2,
       agent: 'ta',
       action: 'Investigate root cause and affected areas',
@@ -78,6 +108,7 @@ export const DEFAULT_SOP_BUGFIX: SOPDefinition = {
       outputs: ['root_cause_analysis', 'affected_files'],
     },
     {
+      id: 'fix',
       order: 3,
       agent: 'fe',
       action: 'Implement fix with minimal changes',
@@ -85,6 +116,7 @@ export const DEFAULT_SOP_BUGFIX: SOPDefinition = {
       outputs: ['fix_code', 'changed_files'],
     },
     {
+      id: 'verify',
       order: 4,
       agent: 'qa',
       action: 'Verify fix and regression test',
@@ -92,6 +124,7 @@ export const DEFAULT_SOP_BUGFIX: SOPDefinition = {
       outputs: ['test_results', 'regression_report'],
     },
     {
+      id: 'close',
       order: 5,
       agent: 'pm',
       action: 'Review and close bug',
@@ -110,6 +143,7 @@ export const DEFAULT_SOP_REFACTOR: SOPDefinition = {
   requiredAgents: ['pm', 'ta', 'fe', 'qa'],
   steps: [
     {
+      id: 'scope',
       order: 1,
       agent: 'pm',
       action: 'Define refactoring scope and goals',
@@ -117,6 +151,7 @@ export const DEFAULT_SOP_REFACTOR: SOPDefinition = {
       outputs: ['refactor_plan', 'success_criteria'],
     },
     {
+      id: 'analyze',
       order: 2,
       agent: 'ta',
       action: 'Analyze current architecture and propose improvements',
@@ -124,6 +159,7 @@ export const DEFAULT_SOP_REFACTOR: SOPDefinition = {
       outputs: ['architecture_analysis', 'improvement_proposals'],
     },
     {
+      id: 'safety-net',
       order: 3,
       agent: 'qa',
       action: 'Create safety net tests before refactoring',
@@ -131,6 +167,7 @@ export const DEFAULT_SOP_REFACTOR: SOPDefinition = {
       outputs: ['baseline_tests', 'coverage_baseline'],
     },
     {
+      id: 'refactor',
       order: 4,
       agent: 'fe',
       action: 'Execute refactoring in incremental steps',
@@ -138,6 +175,7 @@ export const DEFAULT_SOP_REFACTOR: SOPDefinition = {
       outputs: ['refactored_code'],
     },
     {
+      id: 'verify',
       order: 5,
       agent: 'qa',
       action: 'Verify refactoring with tests',
@@ -145,6 +183,7 @@ export const DEFAULT_SOP_REFACTOR: SOPDefinition = {
       outputs: ['test_results', 'coverage_report'],
     },
     {
+      id: 'review',
       order: 6,
       agent: 'pm',
       action: 'Review and validate against success criteria',
@@ -154,6 +193,14 @@ export const DEFAULT_SOP_REFACTOR: SOPDefinition = {
   ],
 }
 
+/**
+ * Model prices of the built-in providers (src/config/pricing.json)
+ *
+ * Approximate, in USD per million tokens; `version` is the date the table
+ * was last reviewed. Override prices with a provider's `pricing` config.
+ */
+export const DEFAULT_PRICING: PricingTable = PricingTableSchema.parse(pricingTable)
+
 /**
  * Default configuration for crew-opencode
  */
@@ -208,4 +255,28 @@ export const DEFAULT_CONFIG: CrewConfig = {
     postToolUse: [],
     stop: [],
   },
+  planning: {
+    enabled: false,
+    output: 'execution_plan',
+    maxTasks: 8,
+    allowedAgents: ['ta', 'design', 'fe', 'qa'],
+  },
+  sandbox: {
+    allowedCommands: ['bun test', 'npm test', 'tsc --noEmit'],
+    timeout: 120000,
+    maxOutput: 20000,
+    worktree: false,
+  },
+  cache: {
+    enabled: false,
+    dir: '.opencode/crew-opencode/cache',
+    ttl: 86_400_000,
+  },
+  replay: {
+    mode: 'live',
+    dir: '.opencode/crew-opencode/cassettes',
+    strict: true,
+  },
+  budget: {},
+  providers: {},
 }
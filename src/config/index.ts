@@ -4,18 +4,47 @@ export {
   AgentConfigSchema,
   SOPDefinitionSchema,
   SOPStepSchema,
+  SOPStepLoopSchema,
+  SOPStepValidationSchema,
   IncidentReportConfigSchema,
   HooksConfigSchema,
+  PlanningConfigSchema,
+  SandboxConfigSchema,
+  ReplayConfigSchema,
+  BudgetConfigSchema,
+  CacheConfigSchema,
+  RateLimitConfigSchema,
   ModelIdSchema,
   ModelProviderSchema,
+  BUILTIN_MODEL_IDS,
+  ProviderKindSchema,
+  ProviderConfigSchema,
+  ModelPricingSchema,
+  ModelPricingEntrySchema,
+  PricingTableSchema,
+  FallbackErrorClassSchema,
+  FALLBACK_ERROR_CLASSES,
   validateConfig,
   safeValidateConfig,
   type CrewConfig,
   type AgentConfig,
   type SOPDefinition,
   type SOPStep,
+  type SOPStepLoop,
+  type SOPStepValidation,
   type IncidentReportConfig,
   type HooksConfig,
+  type PlanningConfig,
+  type SandboxConfig,
+  type ReplayConfig,
+  type BudgetConfig,
+  type CacheConfig,
+  type RateLimitConfig,
+  type ProviderConfig,
+  type ModelPricing,
+  type ModelPricingEntry,
+  type PricingTable,
+  type FallbackErrorClass,
 } from './schema'
 
 // Defaults exports
@@ -24,6 +53,7 @@ export {
   DEFAULT_SOP_FEATURE,
   DEFAULT_SOP_BUGFIX,
   DEFAULT_SOP_REFACTOR,
+  DEFAULT_PRICING,
 } from './defaults'
 
 // Loader exports
@@ -1,7 +1,7 @@
 import { z } from 'zod'
 
 /**
- * Model providers and their available models
+ * Built-in model providers and their models
  */
 export const ModelProviderSchema = z.enum([
   'anthropic',
@@ -9,7 +9,7 @@ export const ModelProviderSchema = z.enum([
   'google',
 ])
 
-export const ModelIdSchema = z.enum([
+export const BUILTIN_MODEL_IDS = [
   // Anthropic
   'claude-opus-4.5',
   'claude-sonnet-4.5',
@@ -20,32 +20,203 @@ export const ModelIdSchema = z.enum([
   // Google
   'gemini-3-pro',
   'gemini-3-flash',
-])
+] as const
+
+/**
+ * Qualified model ids: "<provider>/<model>", e.g. "ollama/llama3.1:8b"
+ */
+const QUALIFIED_MODEL_ID_PATTERN = /^[^/\s]+\/\S+$/
+
+/**
+ * Model id: "<provider>/<model>", or a built-in model name as shorthand
+ */
+export const ModelIdSchema = z
+  .string()
+  .refine(
+    (id) =>
+      QUALIFIED_MODEL_ID_PATTERN.test(id) || (BUILTIN_MODEL_IDS as ReadonlyArray<string>).includes(id),
+    { message: 'Model ids look like "provider/model" (e.g. "ollama/llama3.1") or name a built-in model' }
+  )
+
+/**
+ * LLM call failures that move an agent on to the next model in its chain
+ */
+export const FALLBACK_ERROR_CLASSES = ['rate_limit', 'server_error', 'timeout', 'context_length'] as const
+
+export const FallbackErrorClassSchema = z.enum(FALLBACK_ERROR_CLASSES)
+
+export type FallbackErrorClass = z.infer<typeof FallbackErrorClassSchema>
+
+/**
+ * How crew-opencode talks to a provider
+ */
+export const ProviderKindSchema = z.enum(['anthropic', 'openai', 'google', 'openai-compatible', 'mock'])
+
+/**
+ * Model prices in USD per million tokens
+ */
+export const ModelPricingSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  // Input tokens read from the provider's prompt cache (default: the input rate)
+  cachedInput: z.number().min(0).optional(),
+  // Input tokens written to the prompt cache (default: the input rate)
+  cacheWrite: z.number().min(0).optional(),
+  // First day (YYYY-MM-DD) the prices apply; undated prices always apply
+  effectiveFrom: z.iso.date().optional(),
+})
+
+export type ModelPricing = z.infer<typeof ModelPricingSchema>
+
+/**
+ * Prices of a model: one set, or dated sets (the latest effective one applies)
+ */
+export const ModelPricingEntrySchema = z.union([ModelPricingSchema, z.array(ModelPricingSchema).min(1)])
+
+export type ModelPricingEntry = z.infer<typeof ModelPricingEntrySchema>
+
+/**
+ * Versioned price table shipped with crew-opencode (src/config/pricing.json)
+ */
+export const PricingTableSchema = z.object({
+  // Date the table was last reviewed
+  version: z.string().min(1),
+  // Prices by provider, then by model name
+  providers: z.record(z.string(), z.record(z.string(), ModelPricingEntrySchema)),
+})
+
+export type PricingTable = z.infer<typeof PricingTableSchema>
+
+/**
+ * Client-side limits on calls to a provider (all optional)
+ */
+export const RateLimitConfigSchema = z.object({
+  requestsPerMinute: z.number().int().min(1).optional(),
+  tokensPerMinute: z.number().int().min(1).optional(),
+  // Requests in flight at once
+  maxConcurrency: z.number().int().min(1).optional(),
+})
+
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>
+
+/**
+ * LLM provider (the registry key is the provider name used in model ids)
+ */
+export const ProviderConfigSchema = z.object({
+  kind: ProviderKindSchema,
+  // API endpoint, e.g. "http://localhost:11434/v1" for Ollama
+  baseURL: z.string().url().optional(),
+  // Environment variable holding the API key (local endpoints usually need none)
+  apiKeyEnv: z.string().min(1).optional(),
+  // Prices by model name, overriding the price table; "*" covers models not listed
+  pricing: z.record(z.string(), ModelPricingEntrySchema).optional(),
+  // Rules for the mock provider: a JSON file or a script module
+  mockFile: z.string().min(1).optional(),
+  // Requests and tokens per minute and concurrent requests sent to the provider
+  rateLimit: RateLimitConfigSchema.optional(),
+}).refine((provider) => provider.kind !== 'mock' || provider.mockFile, {
+  message: 'Mock providers need a mockFile',
+  path: ['mockFile'],
+})
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>
+
+/**
+ * Spending limits of a workflow or an agent (all optional)
+ *
+ * A call whose estimate would take spending past a limit is refused.
+ */
+export const BudgetConfigSchema = z.object({
+  // Estimated cost in USD
+  maxCostUSD: z.number().positive().optional(),
+  // Input plus output tokens
+  maxTokens: z.number().int().positive().optional(),
+})
+
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>
 
 /**
  * Agent configuration schema
  */
 export const AgentConfigSchema = z.object({
   enabled: z.boolean().default(true),
-  model: ModelIdSchema,
+  // A model id, or an ordered chain of models tried in turn when a call fails
+  model: z.union([ModelIdSchema, z.array(ModelIdSchema).min(1)]),
+  // Failures that move on to the next model in the chain (default: all classes)
+  fallbackOn: z.array(FallbackErrorClassSchema).optional(),
   maxTurns: z.number().int().min(1).max(100).default(10),
   temperature: z.number().min(0).max(2).default(0.7),
   systemPrompt: z.string().optional(),
+  // Tools the agent may call, e.g. ['read_file', 'grep'] (defaults depend on the role)
+  tools: z.array(z.string()).optional(),
+  // Set false to keep this agent's calls out of the response cache
+  cache: z.boolean().optional(),
+  // Cap on output tokens per call (default 4096)
+  maxTokens: z.number().int().positive().optional(),
+  // Ask the provider for a JSON answer following the step's outputs (parsing the text is the fallback)
+  structuredOutput: z.boolean().optional(),
+  // Limits on this agent's calls across the workflow
+  budget: BudgetConfigSchema.optional(),
 })
 
 export type AgentConfig = z.infer<typeof AgentConfigSchema>
 
+/**
+ * SOP step loop-back (e.g. re-run FE with QA findings until QA passes)
+ */
+export const SOPStepLoopSchema = z.object({
+  // Condition over step outputs, e.g. "quality_assessment.pass == false"
+  when: z.string().min(1),
+  // Id of an upstream step to re-run from
+  goto: z.string().min(1),
+  maxIterations: z.number().int().min(1).default(3),
+})
+
+export type SOPStepLoop = z.infer<typeof SOPStepLoopSchema>
+
+/**
+ * SOP Step validation gates (post-conditions checked after the step completes)
+ *
+ * A failed gate sends the step back to its agent with the failure message.
+ */
+export const SOPStepValidationSchema = z.object({
+  // Outputs that must be present and non-empty
+  requiredOutputs: z.array(z.string()).optional(),
+  // JSON Schema per output, e.g. { quality_assessment: { type: 'object', required: ['pass'] } }
+  schema: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+  // Regular expression per text output
+  pattern: z.record(z.string(), z.string()).optional(),
+  // Condition over the step outputs, e.g. "quality_assessment.pass == true"
+  condition: z.string().min(1).optional(),
+  // Shell command run in the project directory that must exit 0, e.g. "bun test"
+  command: z.string().min(1).optional(),
+  // Command timeout in milliseconds
+  timeout: z.number().int().positive().optional(),
+  // Message shown to the agent when a gate fails
+  message: z.string().optional(),
+})
+
+export type SOPStepValidation = z.infer<typeof SOPStepValidationSchema>
+
 /**
  * SOP Step schema
  */
 export const SOPStepSchema = z.object({
+  id: z.string().min(1).optional(),
   order: z.number().int().min(1),
   agent: z.enum(['pm', 'ta', 'fe', 'design', 'qa']),
   action: z.string(),
   inputs: z.array(z.string()).default([]),
   outputs: z.array(z.string()).default([]),
   parallel: z.array(z.string()).optional(),
-  validation: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+  loop: SOPStepLoopSchema.optional(),
+  // Run the step only if this condition over earlier outputs holds
+  when: z.string().min(1).optional(),
+  // Pause the workflow for human approval once the step completes
+  approval: z.boolean().optional(),
+  // Post-conditions; a string is shorthand for { condition }
+  validation: z.union([z.string().min(1), SOPStepValidationSchema]).optional(),
 })
 
 export type SOPStep = z.infer<typeof SOPStepSchema>
@@ -58,6 +229,7 @@ export const SOPDefinitionSchema = z.object({
   description: z.string(),
   steps: z.array(SOPStepSchema),
   requiredAgents: z.array(z.enum(['pm', 'ta', 'fe', 'design', 'qa'])),
+  estimatedTime: z.string().optional(),
 })
 
 export type SOPDefinition = z.infer<typeof SOPDefinitionSchema>
@@ -127,7 +299,8 @@ export type CrewAgentsConfig = z.infer<typeof CrewAgentsConfigSchema>
  * SOP configurations
  */
 export const SOPConfigSchema = z.object({
-  default: z.enum(['feature', 'bugfix', 'refactor']).default('feature'),
+  // Built-in or user-defined SOP name (see .opencode/crew-opencode/sop/)
+  default: z.string().min(1).default('feature'),
   feature: SOPDefinitionSchema.optional(),
   bugfix: SOPDefinitionSchema.optional(),
   refactor: SOPDefinitionSchema.optional(),
@@ -135,6 +308,78 @@ export const SOPConfigSchema = z.object({
 
 export type SOPConfig = z.infer<typeof SOPConfigSchema>
 
+/**
+ * Dynamic planning configuration
+ *
+ * When enabled, the first PM step returns a structured plan whose tasks are
+ * added to the workflow right after it.
+ */
+export const PlanningConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // PM output that carries the plan
+  output: z.string().min(1).default('execution_plan'),
+  // Most tasks a plan may add
+  maxTasks: z.number().int().min(1).default(8),
+  // Agents a plan may assign tasks to
+  allowedAgents: z
+    .array(z.enum(['pm', 'ta', 'fe', 'design', 'qa']))
+    .min(1)
+    .default(['ta', 'design', 'fe', 'qa']),
+})
+
+export type PlanningConfig = z.infer<typeof PlanningConfigSchema>
+
+/**
+ * Command sandbox configuration
+ *
+ * Limits what agents can run through the run_command tool.
+ */
+export const SandboxConfigSchema = z.object({
+  // Command prefixes agents may run, e.g. "bun test" also allows "bun test tests/core"
+  allowedCommands: z.array(z.string().min(1)).default(['bun test', 'npm test', 'tsc --noEmit']),
+  // Per-command timeout in milliseconds
+  timeout: z.number().int().min(1000).default(120000),
+  // Characters of output kept (the end of the output is kept)
+  maxOutput: z.number().int().min(1000).default(20000),
+  // Run in a scratch git worktree of HEAD instead of the working tree
+  worktree: z.boolean().default(false),
+})
+
+export type SandboxConfig = z.infer<typeof SandboxConfigSchema>
+
+/**
+ * LLM response cache
+ *
+ * Identical requests (model, temperature, output token cap, tools, system
+ * prompt and messages) are served from disk at no cost until their TTL runs out.
+ */
+export const CacheConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Cache directory, relative to the project root
+  dir: z.string().min(1).default('.opencode/crew-opencode/cache'),
+  // Entry lifetime in milliseconds (default: 24 hours)
+  ttl: z.number().int().min(1).default(86_400_000),
+})
+
+export type CacheConfig = z.infer<typeof CacheConfigSchema>
+
+/**
+ * LLM record/replay
+ *
+ * Records LLM calls to cassette files, or serves recorded responses without
+ * calling a provider (tests, demos, CI). CREW_LLM_MODE overrides `mode`.
+ */
+export const ReplayConfigSchema = z.object({
+  // live: call providers; record: call and save; replay: serve saved responses
+  mode: z.enum(['live', 'record', 'replay']).default('live'),
+  // Cassette directory, relative to the project root
+  dir: z.string().min(1).default('.opencode/crew-opencode/cassettes'),
+  // In replay mode, fail on calls that weren't recorded (otherwise call and record them)
+  strict: z.boolean().default(true),
+})
+
+export type ReplayConfig = z.infer<typeof ReplayConfigSchema>
+
 /**
  * Main crew-opencode configuration schema
  */
@@ -159,6 +404,50 @@ export const CrewConfigSchema = z.object({
     postToolUse: [],
     stop: [],
   })),
+  planning: PlanningConfigSchema.default(() => ({
+    enabled: false,
+    output: 'execution_plan',
+    maxTasks: 8,
+    allowedAgents: ['ta' as const, 'design' as const, 'fe' as const, 'qa' as const],
+  })),
+  sandbox: SandboxConfigSchema.default(() => ({
+    allowedCommands: ['bun test', 'npm test', 'tsc --noEmit'],
+    timeout: 120000,
+    maxOutput: 20000,
+    worktree: false,
+  })),
+  cache: CacheConfigSchema.default(() => ({
+    enabled: false,
+    dir: '.opencode/crew-opencode/cache',
+    ttl: 86_400_000,
+  })),
+  replay: ReplayConfigSchema.default(() => ({
+    mode: 'live' as const,
+    dir: '.opencode/crew-opencode/cassettes',
+    strict: true,
+  })),
+  // Limits on all calls of a workflow
+  budget: BudgetConfigSchema.default(() => ({})),
+  // LLM providers by name, added to (or overriding) anthropic, openai and google
+  providers: z.record(z.string().regex(/^[\w-]+$/), ProviderConfigSchema).default(() => ({})),
+}).superRefine((config, ctx) => {
+  // Qualified model ids must name a known provider
+  const providers = new Set<string>([...ModelProviderSchema.options, ...Object.keys(config.providers)])
+
+  for (const [agent, agentConfig] of Object.entries(config.crew)) {
+    const models = Array.isArray(agentConfig.model) ? agentConfig.model : [agentConfig.model]
+
+    models.forEach((model, index) => {
+      const [provider] = model.split('/')
+      if (model.includes('/') && provider && !providers.has(provider)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['crew', agent, 'model', ...(Array.isArray(agentConfig.model) ? [index] : [])],
+          message: `Unknown provider "${provider}". Configured providers: ${[...providers].join(', ')}`,
+        })
+      }
+    })
+  }
 })
 
 export type CrewConfig = z.infer<typeof CrewConfigSchema>
@@ -6,12 +6,91 @@ import type {
   AgentError,
   Artifact,
   TokenUsage,
+  ConversationMessage,
+  ToolResult,
 } from './types'
+import { addTokenUsage } from './types'
 import type { ContextManager } from './context-manager'
-import { callLLM, type LLMRequest } from './llm-clients'
+import type { BudgetTracker } from './budget'
+import {
+  callLLM,
+  classifyLLMError,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMTokenDelta,
+} from './llm-clients'
+import { FALLBACK_ERROR_CLASSES, type FallbackErrorClass } from '../config'
 import { loadAgentDefinition } from '../agents'
-import { parseOutputs, validateOutputs, formatOutputInstruction } from './output-parser'
+import {
+  parseOutputs,
+  validateOutputs,
+  formatOutputInstruction,
+  createOutputSchema,
+  formatStructuredOutputInstruction,
+} from './output-parser'
 import { extractArtifacts, summarizeArtifacts } from './artifact-extractor'
+import { checkValidationGates } from './validation-gates'
+import { checkPatchArtifacts } from './artifact-applier'
+import { createProviderRegistry, type ProviderRegistry } from './providers'
+import type { ResponseCache } from './response-cache'
+import {
+  parseContextRequests,
+  resolveContextRequests,
+  formatContextRequestInstruction,
+  formatTurnsLeft,
+} from './context-requests'
+import { createAgentToolRegistry, DEFAULT_AGENT_TOOLS, type AgentToolRegistry } from './agent-tools'
+
+/**
+ * Wait for a delay, resolving early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Describe a fallback error class, e.g. "rate limit"
+ */
+function describeErrorClass(errorClass: FallbackErrorClass): string {
+  return errorClass.replace('_', ' ')
+}
+
+/**
+ * Throw if the signal has already been aborted
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(`Aborted: ${describeAbortReason(signal)}`)
+  }
+}
+
+/**
+ * Human-readable abort reason
+ */
+function describeAbortReason(signal: AbortSignal): string {
+  const reason: unknown = signal.reason
+  if (reason instanceof Error) {
+    return reason.message
+  }
+  return reason ? String(reason) : 'cancelled'
+}
 
 /**
  * AgentRunner - Executes individual agent tasks
@@ -22,11 +101,32 @@ import { extractArtifacts, summarizeArtifacts } from './artifact-extractor'
  * - Handle agent errors and retries
  * - Emit progress events
  * - Manage agent context
+ * - Run the tools agents call
+ * - Resolve agent models through the provider registry
+ * - Serve repeated calls from the response cache
  */
 export class AgentRunner {
   private contextManager: ContextManager
+  private tools: AgentToolRegistry
+  private providers: ProviderRegistry
+  private cache?: ResponseCache
+
+  constructor(
+    contextManager: ContextManager,
+    tools: AgentToolRegistry = createAgentToolRegistry(),
+    providers: ProviderRegistry = createProviderRegistry(),
+    cache?: ResponseCache
+  ) {
+    this.contextManager = contextManager
+    this.tools = tools
+    this.providers = providers
+    this.cache = cache
+  }
 
-  constructor(contextManager: ContextManager) {
+  /**
+   * Point the runner at a different context (new or resumed workflow)
+   */
+  setContextManager(contextManager: ContextManager): void {
     this.contextManager = contextManager
   }
 
@@ -38,12 +138,21 @@ export class AgentRunner {
     config: AgentConfig,
     options?: {
       timeout?: number
+      signal?: AbortSignal
       onProgress?: (phase: string, message: string, percentage?: number) => void
+      /** Stream the agent's replies; `outputTokens` counts all turns of the attempt */
+      onToken?: (delta: LLMTokenDelta) => void
+      /** Validation failures from the previous attempt, added to the prompt */
+      validationFailures?: ReadonlyArray<string>
+      /** Checks each call against the budgets and records its usage */
+      budget?: BudgetTracker
     }
   ): Promise<AgentResult> {
     const startTime = Date.now()
 
     try {
+      throwIfAborted(options?.signal)
+
       // Emit starting event
       options?.onProgress?.('starting', `Starting ${task.agent} agent for: ${task.action}`, 0)
 
@@ -58,20 +167,100 @@ export class AgentRunner {
       )
 
       // Build agent prompt
-      const prompt = this.buildAgentPrompt(task, contextSummary)
+      const prompt = this.buildAgentPrompt(
+        task,
+        contextSummary,
+        config,
+        options?.validationFailures
+      )
 
       // Emit executing event
       options?.onProgress?.('executing', `${task.agent} is executing: ${task.action}`, 50)
 
       // Execute agent (this would integrate with actual LLM APIs)
-      const executionResult = await this.executeAgent(task.agent, prompt, config, options?.timeout)
+      const executionResult = await this.executeAgent(task.agent, prompt, config, {
+        action: task.action,
+        timeout: options?.timeout,
+        signal: options?.signal,
+        onProgress: options?.onProgress,
+        onToken: options?.onToken,
+        budget: options?.budget,
+        responseSchema: config.structuredOutput
+          ? createOutputSchema(task.expectedOutputs, task.validation?.schema)
+          : undefined,
+      })
+
+      // Keep the conversation with the task
+      this.contextManager.setTranscript(task.id, executionResult.transcript)
 
       // Emit completing event
       options?.onProgress?.('completing', `${task.agent} is finalizing results`, 90)
 
       // Extract outputs and artifacts from agent response
-      const outputs = this.extractOutputs(executionResult.response, task.expectedOutputs)
-      const artifacts = this.extractArtifacts(executionResult.response)
+      const outputs = this.extractOutputs(
+        executionResult.response,
+        task.expectedOutputs,
+        executionResult.structured
+      )
+      // File blocks of a structured answer are inside its (JSON-escaped) output values
+      const artifacts = this.extractArtifacts(
+        executionResult.structured
+          ? [executionResult.response, ...Object.values(outputs).filter((v) => typeof v === 'string')]
+              .join('\n')
+          : executionResult.response
+      )
+
+      // Patches must apply on top of earlier artifacts and the project files
+      const projectPath = this.contextManager.getContext().projectPath
+      const failures = checkPatchArtifacts(
+        artifacts,
+        this.contextManager.getContext().artifacts,
+        projectPath
+      )
+
+      // Check validation gates before accepting the outputs
+      if (task.validation) {
+        options?.onProgress?.('completing', `Checking validation gates for ${task.agent}`, 95)
+
+        const gates = await checkValidationGates(task.validation, outputs, {
+          cwd: projectPath,
+          secretEnv: this.providers.apiKeyEnvs(),
+          signal: options?.signal,
+        })
+        throwIfAborted(options?.signal)
+        failures.push(...gates.failures)
+      }
+
+      if (failures.length > 0) {
+        this.contextManager.addHistoryEntry(
+          task.agent,
+          task.action,
+          'failed',
+          `Validation failed: ${failures.join('; ')}`
+        )
+
+        return {
+          taskId: task.id,
+          agent: task.agent,
+          success: false,
+          outputs,
+          duration: Date.now() - startTime,
+          tokenUsage: executionResult.tokenUsage,
+          turns: executionResult.turns,
+          model: executionResult.model,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Task ${task.id} failed validation: ${failures.join('; ')}`,
+            recoverable: true,
+            context: {
+              agent: task.agent,
+              action: task.action,
+              taskId: task.id,
+              failures,
+            },
+          },
+        }
+      }
 
       // Store outputs in context
       for (const [key, value] of Object.entries(outputs)) {
@@ -101,10 +290,42 @@ export class AgentRunner {
         artifacts,
         duration,
         tokenUsage: executionResult.tokenUsage,
+        turns: executionResult.turns,
+        model: executionResult.model,
       }
     } catch (error) {
       const duration = Date.now() - startTime
 
+      // Aborted tasks go back to pending so a resumed run picks them up
+      if (options?.signal?.aborted) {
+        const reason = describeAbortReason(options.signal)
+
+        this.contextManager.addHistoryEntry(
+          task.agent,
+          task.action,
+          'pending',
+          `Interrupted: ${reason}`
+        )
+
+        return {
+          taskId: task.id,
+          agent: task.agent,
+          success: false,
+          outputs: {},
+          duration,
+          error: {
+            code: 'ABORTED',
+            message: `Task ${task.id} aborted: ${reason}`,
+            recoverable: false,
+            context: {
+              agent: task.agent,
+              action: task.action,
+              taskId: task.id,
+            },
+          },
+        }
+      }
+
       // Log error to history
       this.contextManager.addHistoryEntry(
         task.agent,
@@ -134,10 +355,14 @@ export class AgentRunner {
     config: AgentConfig,
     options?: {
       timeout?: number
+      signal?: AbortSignal
       onProgress?: (phase: string, message: string, percentage?: number) => void
+      onToken?: (delta: LLMTokenDelta) => void
+      budget?: BudgetTracker
     }
   ): Promise<AgentResult> {
     let lastError: AgentError | undefined
+    let validationFailures: ReadonlyArray<string> | undefined
 
     for (let attempt = 0; attempt <= task.maxRetries; attempt++) {
       if (attempt > 0) {
@@ -148,7 +373,7 @@ export class AgentRunner {
         )
       }
 
-      const result = await this.executeTask(task, config, options)
+      const result = await this.executeTask(task, config, { ...options, validationFailures })
 
       if (result.success) {
         return result
@@ -157,14 +382,20 @@ export class AgentRunner {
       lastError = result.error
 
       // Check if error is recoverable
-      if (!lastError?.recoverable) {
+      if (!lastError?.recoverable || options?.signal?.aborted) {
         break
       }
 
+      // Failed gates are fed back to the agent; retry right away
+      if (lastError.code === 'VALIDATION_FAILED') {
+        validationFailures = lastError.context?.failures as ReadonlyArray<string> | undefined
+        continue
+      }
+
       // Wait before retrying (exponential backoff)
       if (attempt < task.maxRetries) {
         const delay = Math.min(1000 * Math.pow(2, attempt), 10000)
-        await new Promise((resolve) => setTimeout(resolve, delay))
+        await sleep(delay, options?.signal)
       }
     }
 
@@ -186,7 +417,13 @@ export class AgentRunner {
   /**
    * Build agent prompt from task and context
    */
-  private buildAgentPrompt(task: Task, contextSummary: string): string {
+  private buildAgentPrompt(
+    task: Task,
+    contextSummary: string,
+    config: AgentConfig,
+    validationFailures?: ReadonlyArray<string>
+  ): string {
+    const { maxTurns } = config
     const lines: string[] = [
       `# Agent Role: ${task.agent.toUpperCase()}`,
       ``,
@@ -205,16 +442,67 @@ export class AgentRunner {
       }
     }
 
+    if (task.feedback && task.feedback.length > 0) {
+      lines.push(``)
+      lines.push(`## Feedback (iteration ${task.iteration ?? 1})`)
+      lines.push(`The previous attempt was sent back. Address these findings:`)
+
+      for (const name of task.feedback) {
+        const value = this.contextManager.getOutput(name)
+        lines.push(`- **${name}**: ${value ? JSON.stringify(value, null, 2) : '(not available)'}`)
+      }
+    }
+
+    if (validationFailures && validationFailures.length > 0) {
+      lines.push(``)
+      lines.push(`## Validation Failures`)
+      lines.push(`Your previous attempt did not pass this step's validation. Fix the following:`)
+
+      for (const failure of validationFailures) {
+        lines.push(`- ${failure}`)
+      }
+    }
+
     lines.push(``)
     lines.push(`## Context`)
     lines.push(contextSummary)
 
+    // A model forced to call a tool can't reply with a context request
+    if (maxTurns > 1 && !this.forcesToolUse(task.agent, config)) {
+      lines.push(``)
+      lines.push(formatContextRequestInstruction(maxTurns))
+    }
+
     lines.push(``)
-    lines.push(formatOutputInstruction(task.expectedOutputs))
+    lines.push(
+      config.structuredOutput
+        ? formatStructuredOutputInstruction(task.expectedOutputs)
+        : formatOutputInstruction(task.expectedOutputs)
+    )
 
     return lines.join('\n')
   }
 
+  /**
+   * Whether a model of the agent must answer with a tool call: Anthropic's
+   * structured output forces one whenever tools are offered
+   */
+  private forcesToolUse(agent: AgentRole, config: AgentConfig): boolean {
+    if (!config.structuredOutput || (config.tools ?? DEFAULT_AGENT_TOOLS[agent]).length === 0) {
+      return false
+    }
+
+    const models = Array.isArray(config.model) ? config.model : [config.model]
+    return models.some((model) => {
+      try {
+        return this.providers.resolve(model).config.kind === 'anthropic'
+      } catch {
+        // Unknown models fail when they are called
+        return false
+      }
+    })
+  }
+
   /**
    * Execute agent via LLM API
    *
@@ -222,15 +510,34 @@ export class AgentRunner {
    * - Anthropic API for Claude models (PM, TA, QA)
    * - OpenAI API for GPT models (Design)
    * - Google API for Gemini models (FE)
+   *
+   * Runs up to `config.maxTurns` round trips: while the agent calls tools or
+   * replies with a context request, the results are sent back as the next turn.
    */
   private async executeAgent(
     agent: AgentRole,
     prompt: string,
     config: AgentConfig,
-    timeout?: number
+    options?: {
+      /** Task action, sent with each call */
+      action?: string
+      timeout?: number
+      signal?: AbortSignal
+      onProgress?: (phase: string, message: string, percentage?: number) => void
+      onToken?: (delta: LLMTokenDelta) => void
+      budget?: BudgetTracker
+      /** JSON Schema of the final answer, sent for provider-native structured output */
+      responseSchema?: Record<string, unknown>
+    }
   ): Promise<{
     response: string
+    /** The final answer as an object, when structured output was requested and parsed */
+    structured?: Record<string, unknown>
     tokenUsage?: TokenUsage
+    turns: number
+    transcript: ReadonlyArray<ConversationMessage>
+    /** Model that served the last call */
+    model: string
   }> {
     // Load agent definition as system prompt
     const agentDefinition = loadAgentDefinition(agent)
@@ -238,31 +545,151 @@ export class AgentRunner {
     // Build system prompt
     const systemPrompt = `${agentDefinition}\n\nYou are the ${agent.toUpperCase()} agent. Follow the instructions in your role definition above.`
 
-    // Prepare LLM request
-    const request: LLMRequest = {
-      model: config.model,
-      prompt,
-      systemPrompt,
-      temperature: config.temperature,
-      maxTokens: config.maxTurns * 1000, // Approximate max tokens based on turns
-      timeout,
-    }
+    // Tools offered to the agent (config.tools overrides the role defaults)
+    const toolNames = config.tools ?? DEFAULT_AGENT_TOOLS[agent]
+    const tools = toolNames.length > 0 ? this.tools.definitions(toolNames) : undefined
+    const projectPath = this.contextManager.getContext().projectPath
+
+    // Fallback chain: later models serve the calls after an earlier one fails
+    const models = Array.isArray(config.model) ? config.model : [config.model]
+    const fallbackOn = config.fallbackOn ?? FALLBACK_ERROR_CLASSES
+    let modelIndex = 0
+
+    const messages: ConversationMessage[] = [{ role: 'user', content: prompt }]
+    let tokenUsage: TokenUsage | undefined
+    // Output tokens of finished turns, so streamed counts add up across turns
+    let previousOutputTokens = 0
+    const onToken = options?.onToken
+    const budget = options?.budget
+
+    for (let turn = 1; ; turn++) {
+      throwIfAborted(options?.signal)
+
+      // Prepare LLM request
+      const request: Omit<LLMRequest, 'model'> = {
+        messages: [...messages],
+        systemPrompt,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        responseSchema: options?.responseSchema,
+        tools,
+        // The last turn must be the answer, so the model may not call tools
+        toolChoice: tools && turn >= config.maxTurns ? 'none' : undefined,
+        timeout: options?.timeout,
+        signal: options?.signal,
+        agent,
+        action: options?.action,
+        onQueueWait: (waited) =>
+          options?.onProgress?.(
+            'executing',
+            `${agent} waited ${(waited / 1000).toFixed(1)}s in the rate limit queue`,
+            50
+          ),
+        onBeforeCall: budget ? (estimate) => budget.check(agent, estimate) : undefined,
+        onToken: onToken
+          ? (delta) =>
+              onToken({ text: delta.text, outputTokens: previousOutputTokens + delta.outputTokens })
+          : undefined,
+      }
 
-    try {
-      // Call LLM API
-      const response = await callLLM(request)
+      let response: LLMResponse | undefined
+      while (!response) {
+        const model = models[modelIndex] ?? ''
+        try {
+          // Call LLM API (through the cache unless the agent opts out)
+          const call = { ...request, model }
+          response = await (this.cache && config.cache !== false
+            ? this.cache.fetch(call, () => callLLM(call, this.providers))
+            : callLLM(call, this.providers))
+        } catch (error) {
+          throwIfAborted(options?.signal)
+
+          // Walk the chain on errors another model may not have
+          const errorClass = classifyLLMError(error)
+          const next = models[modelIndex + 1]
+          if (next && errorClass && fallbackOn.includes(errorClass)) {
+            options?.onProgress?.(
+              'executing',
+              `${agent}: ${model} failed (${describeErrorClass(errorClass)}), falling back to ${next}`,
+              50
+            )
+            modelIndex++
+            continue
+          }
+
+          // Add context to error
+          throw new Error(
+            `Failed to execute ${agent} agent with model ${model}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        }
+      }
 
-      return {
-        response: response.content,
-        tokenUsage: response.tokenUsage,
+      budget?.record(agent, response.tokenUsage)
+      tokenUsage = addTokenUsage(tokenUsage, response.tokenUsage)
+      previousOutputTokens = tokenUsage?.outputTokens ?? previousOutputTokens
+
+      const { content, toolCalls, structured } = response
+      messages.push({ role: 'assistant', content, toolCalls })
+
+      const done = () => ({
+        response: content,
+        structured,
+        tokenUsage,
+        turns: turn,
+        transcript: messages,
+        model: models[modelIndex] ?? '',
+      })
+
+      // Call/observe: run the requested tools and send back their results
+      if (toolCalls && toolCalls.length > 0) {
+        if (turn >= config.maxTurns) {
+          return done()
+        }
+
+        const toolResults: ToolResult[] = []
+        for (const call of toolCalls) {
+          throwIfAborted(options?.signal)
+          options?.onProgress?.(
+            'executing',
+            `${agent} called ${call.name} (turn ${turn + 1}/${config.maxTurns})`,
+            50
+          )
+          toolResults.push(
+            await this.tools.execute(call, {
+              projectPath,
+              signal: options?.signal,
+              agent,
+              contextManager: this.contextManager,
+            })
+          )
+        }
+
+        messages.push({
+          role: 'user',
+          content: config.maxTurns - turn === 1 ? formatTurnsLeft(1) : '',
+          toolResults,
+        })
+        continue
       }
-    } catch (error) {
-      // Add context to error
-      throw new Error(
-        `Failed to execute ${agent} agent with model ${config.model}: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+
+      // No request (or no turns left) means this is the final answer
+      const requested = parseContextRequests(content)
+      if (requested.length === 0 || turn >= config.maxTurns) {
+        return done()
+      }
+
+      options?.onProgress?.(
+        'executing',
+        `${agent} requested ${requested.join(', ')} (turn ${turn + 1}/${config.maxTurns})`,
+        50
       )
+
+      messages.push({
+        role: 'user',
+        content: resolveContextRequests(requested, this.contextManager, config.maxTurns - turn),
+      })
     }
   }
 
@@ -271,10 +698,16 @@ export class AgentRunner {
    */
   private extractOutputs(
     response: string,
-    expectedOutputs: ReadonlyArray<string>
+    expectedOutputs: ReadonlyArray<string>,
+    structured?: Record<string, unknown>
   ): Record<string, unknown> {
-    // Parse structured outputs from response
+    // Parse structured outputs from response (for outputs a structured answer lacks)
     const parsedOutputs = parseOutputs(response, expectedOutputs)
+    for (const key of expectedOutputs) {
+      if (structured?.[key] !== undefined) {
+        parsedOutputs[key] = structured[key]
+      }
+    }
 
     // Validate that we got all expected outputs
     const validation = validateOutputs(parsedOutputs, expectedOutputs)
@@ -0,0 +1,434 @@
+import { existsSync, lstatSync, realpathSync } from 'node:fs'
+import { readFile, readdir, stat } from 'node:fs/promises'
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path'
+import { z } from 'zod'
+import type { AgentRole, ToolCall, ToolResult } from './types'
+import type { LLMToolDefinition } from './llm-clients'
+import type { ContextManager } from './context-manager'
+import { DEFAULT_CONFIG, type SandboxConfig } from '../config'
+import { CommandSandbox, formatSandboxResult } from './sandbox'
+
+/**
+ * Agent Tools
+ *
+ * Tools agents can call during their turns to look at the project instead of
+ * guessing. Every path is resolved inside `ExecutionContext.projectPath`.
+ */
+
+/**
+ * Names of the tools shipped with crew-opencode
+ */
+export const BUILTIN_AGENT_TOOLS = ['read_file', 'grep', 'list_directory', 'run_command'] as const
+
+/**
+ * Tools each agent gets when its config has no `tools` list
+ */
+export const DEFAULT_AGENT_TOOLS: Record<AgentRole, ReadonlyArray<string>> = {
+  pm: ['read_file', 'grep', 'list_directory'],
+  ta: ['read_file', 'grep', 'list_directory'],
+  design: ['read_file', 'grep', 'list_directory'],
+  fe: ['read_file', 'grep', 'list_directory', 'run_command'],
+  qa: ['read_file', 'grep', 'list_directory', 'run_command'],
+}
+
+/**
+ * Maximum characters of tool output sent back to the model
+ */
+const MAX_TOOL_OUTPUT = 20000
+
+/**
+ * Lines returned by read_file when no limit is given
+ */
+const DEFAULT_READ_LINES = 2000
+
+/**
+ * Maximum grep matches and directory entries returned
+ */
+const MAX_GREP_MATCHES = 200
+const MAX_DIRECTORY_ENTRIES = 500
+
+/**
+ * Files larger than this are skipped by grep
+ */
+const MAX_GREP_FILE_SIZE = 1024 * 1024
+
+/**
+ * Directories grep never descends into
+ */
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules'])
+
+/**
+ * Where a tool runs
+ */
+export interface AgentToolContext {
+  projectPath: string
+  signal?: AbortSignal
+  /** Agent making the call and its workflow context, for recording results */
+  agent?: AgentRole
+  contextManager?: ContextManager
+}
+
+/**
+ * A tool agents can call
+ */
+export interface AgentTool {
+  name: string
+  description: string
+  /** Arguments schema; also sent to the model as JSON Schema */
+  parameters: z.ZodObject
+  execute(args: Record<string, unknown>, context: AgentToolContext): Promise<string>
+}
+
+/**
+ * Real path of a file that may not exist yet: the nearest existing ancestor
+ * is resolved (following symlinks) and the missing part appended
+ */
+function realpathOfNew(path: string, original: string): string {
+  const missing: string[] = []
+  let current = path
+
+  for (;;) {
+    try {
+      lstatSync(current)
+      break
+    } catch {
+      const parent = dirname(current)
+      if (parent === current) break
+      missing.unshift(basename(current))
+      current = parent
+    }
+  }
+
+  try {
+    return join(realpathSync(current), ...missing)
+  } catch {
+    // The nearest entry is a link to nowhere; writing through it could land anywhere
+    throw new Error(`Path "${original}" goes through a broken symlink`)
+  }
+}
+
+/**
+ * Resolve a path inside the project, throwing if it points outside
+ *
+ * Symlinks are followed, also in the existing directories of a file that
+ * doesn't exist yet, so a link can't be used to escape the project.
+ */
+export function resolveProjectPath(projectPath: string, path: string): string {
+  const root = existsSync(projectPath) ? realpathSync(projectPath) : resolve(projectPath)
+  const real = realpathOfNew(resolve(root, path), path)
+  const fromRoot = relative(root, real)
+
+  if (fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+    throw new Error(`Path "${path}" is outside the project`)
+  }
+
+  return real
+}
+
+/**
+ * Cap tool output so one call can't flood the conversation
+ */
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_TOOL_OUTPUT) {
+    return output
+  }
+  return `${output.substring(0, MAX_TOOL_OUTPUT)}\n... (truncated, ${output.length} characters total)`
+}
+
+/**
+ * Match a file name against a simple glob (`*` and `?`)
+ */
+function matchesGlob(name: string, glob: string): boolean {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+  return new RegExp(`^${pattern}$`).test(name)
+}
+
+/**
+ * Project files under a directory, skipping ignored directories
+ */
+async function listFiles(directory: string, files: string[] = []): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true })
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(directory, entry.name)
+
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        await listFiles(path, files)
+      }
+    } else if (entry.isFile()) {
+      files.push(path)
+    }
+  }
+
+  return files
+}
+
+/**
+ * Tool: read_file
+ */
+const readFileTool: AgentTool = {
+  name: 'read_file',
+  description: 'Read a text file in the project. Returns numbered lines.',
+  parameters: z.object({
+    path: z.string().describe('File path relative to the project root'),
+    offset: z.number().int().min(1).optional().describe('First line to read (1-based)'),
+    limit: z.number().int().min(1).optional().describe('Number of lines to read'),
+  }),
+  async execute(args, context) {
+    const { path, offset = 1, limit = DEFAULT_READ_LINES } = args as {
+      path: string
+      offset?: number
+      limit?: number
+    }
+    const lines = (await readFile(resolveProjectPath(context.projectPath, path), 'utf-8')).split('\n')
+    const selected = lines.slice(offset - 1, offset - 1 + limit)
+
+    const numbered = selected.map((line, index) => `${offset + index}\t${line}`).join('\n')
+    const remaining = lines.length - (offset - 1 + selected.length)
+
+    return remaining > 0 ? `${numbered}\n... (${remaining} more lines)` : numbered
+  },
+}
+
+/**
+ * Tool: list_directory
+ */
+const listDirectoryTool: AgentTool = {
+  name: 'list_directory',
+  description: 'List the entries of a project directory. Directories end with "/".',
+  parameters: z.object({
+    path: z.string().default('.').describe('Directory path relative to the project root'),
+  }),
+  async execute(args, context) {
+    const { path = '.' } = args as { path?: string }
+    const entries = await readdir(resolveProjectPath(context.projectPath, path), {
+      withFileTypes: true,
+    })
+
+    const names = entries
+      .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+      .sort((a, b) => a.localeCompare(b))
+
+    if (names.length === 0) {
+      return '(empty directory)'
+    }
+
+    const shown = names.slice(0, MAX_DIRECTORY_ENTRIES).join('\n')
+    return names.length > MAX_DIRECTORY_ENTRIES
+      ? `${shown}\n... (${names.length - MAX_DIRECTORY_ENTRIES} more entries)`
+      : shown
+  },
+}
+
+/**
+ * Tool: grep
+ */
+const grepTool: AgentTool = {
+  name: 'grep',
+  description:
+    'Search project files for a regular expression. Returns "file:line: text" matches; .git and node_modules are skipped.',
+  parameters: z.object({
+    pattern: z.string().describe('Regular expression to search for'),
+    path: z.string().default('.').describe('File or directory to search, relative to the project root'),
+    include: z.string().optional().describe('Only search file names matching this glob, e.g. "*.ts"'),
+  }),
+  async execute(args, context) {
+    const { pattern, path = '.', include } = args as {
+      pattern: string
+      path?: string
+      include?: string
+    }
+
+    let regex: RegExp
+    try {
+      regex = new RegExp(pattern)
+    } catch (error) {
+      throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    const root = resolveProjectPath(context.projectPath, '.')
+    const target = resolveProjectPath(context.projectPath, path)
+    const files = (await stat(target)).isDirectory() ? await listFiles(target) : [target]
+    const matches: string[] = []
+
+    for (const file of files) {
+      if (include && !matchesGlob(file.split(sep).pop() ?? '', include)) continue
+      if ((await stat(file)).size > MAX_GREP_FILE_SIZE) continue
+
+      const content = await readFile(file, 'utf-8')
+      // Skip binary files
+      if (content.includes('\0')) continue
+
+      const lines = content.split('\n')
+      for (let i = 0; i < lines.length; i++) {
+        if (regex.test(lines[i] ?? '')) {
+          matches.push(`${relative(root, file)}:${i + 1}: ${(lines[i] ?? '').trim()}`)
+
+          if (matches.length >= MAX_GREP_MATCHES) {
+            return `${matches.join('\n')}\n... (stopped after ${MAX_GREP_MATCHES} matches)`
+          }
+        }
+      }
+    }
+
+    return matches.length > 0 ? matches.join('\n') : 'No matches'
+  },
+}
+
+/**
+ * Tool: run_command
+ *
+ * Runs through the command sandbox; each run is recorded as a 'test' (test
+ * commands) or 'report' artifact and in the workflow history.
+ */
+function createRunCommandTool(sandbox: CommandSandbox, config: SandboxConfig): AgentTool {
+  return {
+    name: 'run_command',
+    description: `Run an allowed command in the project directory and get its exit status and output. Allowed commands (extra arguments are fine): ${config.allowedCommands.join(', ')}. Shell syntax is not supported.`,
+    parameters: z.object({
+      command: z.string().min(1).describe('Command to run, e.g. "bun test tests/core"'),
+    }),
+    async execute(args, context) {
+      const { command } = args as { command: string }
+      const result = await sandbox.run(command, {
+        projectPath: resolveProjectPath(context.projectPath, '.'),
+        signal: context.signal,
+      })
+      const content = formatSandboxResult(result)
+
+      if (context.contextManager && context.agent) {
+        context.contextManager.addArtifact({
+          type: /\btest\b/.test(command) ? 'test' : 'report',
+          name: command,
+          content,
+        })
+        context.contextManager.addHistoryEntry(
+          context.agent,
+          `Ran \`${command}\``,
+          result.ok ? 'completed' : 'failed',
+          `${content.split('\n')[0]} in ${result.duration}ms`
+        )
+      }
+
+      return content
+    },
+  }
+}
+
+/**
+ * Registry of tools agents can call
+ */
+export class AgentToolRegistry {
+  private tools = new Map<string, AgentTool>()
+
+  /**
+   * Register a tool (replaces a tool with the same name)
+   */
+  register(tool: AgentTool): void {
+    this.tools.set(tool.name, tool)
+  }
+
+  /**
+   * Get a tool by name
+   */
+  get(name: string): AgentTool | undefined {
+    return this.tools.get(name)
+  }
+
+  /**
+   * Check if a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name)
+  }
+
+  /**
+   * Registered tool names
+   */
+  names(): string[] {
+    return [...this.tools.keys()]
+  }
+
+  /**
+   * Provider-neutral definitions for the named tools
+   *
+   * Throws if a name is not registered.
+   */
+  definitions(names: ReadonlyArray<string>): LLMToolDefinition[] {
+    return names.map((name) => {
+      const tool = this.tools.get(name)
+      if (!tool) {
+        throw new Error(`Unknown tool "${name}". Available: ${this.names().join(', ')}`)
+      }
+
+      // Providers only need the plain object schema (Gemini rejects the extra keys)
+      const parameters: Record<string, unknown> = {
+        ...z.toJSONSchema(tool.parameters, { io: 'input' }),
+      }
+      delete parameters.$schema
+      delete parameters.additionalProperties
+
+      return { name: tool.name, description: tool.description, parameters }
+    })
+  }
+
+  /**
+   * Run a tool call; failures are returned as error results for the model
+   */
+  async execute(call: ToolCall, context: AgentToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(call.name)
+    if (!tool) {
+      return { toolCallId: call.id, name: call.name, content: `Unknown tool: ${call.name}`, isError: true }
+    }
+
+    const args = tool.parameters.safeParse(call.arguments)
+    if (!args.success) {
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: `Invalid arguments for ${call.name}: ${args.error.issues
+          .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+          .join('; ')}`,
+        isError: true,
+      }
+    }
+
+    try {
+      const output = await tool.execute(args.data, context)
+      return { toolCallId: call.id, name: call.name, content: truncateOutput(output) }
+    } catch (error) {
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: error instanceof Error ? error.message : String(error),
+        isError: true,
+      }
+    }
+  }
+}
+
+/**
+ * Create a registry with the built-in tools
+ *
+ * `secretEnv` names environment variables withheld from sandboxed commands, such
+ * as the configured providers' `apiKeyEnv`.
+ */
+export function createAgentToolRegistry(options?: {
+  sandbox?: SandboxConfig
+  secretEnv?: ReadonlyArray<string>
+}): AgentToolRegistry {
+  const registry = new AgentToolRegistry()
+  const sandboxConfig = options?.sandbox ?? DEFAULT_CONFIG.sandbox
+
+  for (const tool of [
+    readFileTool,
+    grepTool,
+    listDirectoryTool,
+    createRunCommandTool(new CommandSandbox(sandboxConfig, options?.secretEnv), sandboxConfig),
+  ]) {
+    registry.register(tool)
+  }
+
+  return registry
+}
@@ -0,0 +1,197 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, relative } from 'node:path'
+import type { Artifact } from './types'
+import { resolveProjectPath } from './agent-tools'
+import { applyPatch, createUnifiedDiff, parseUnifiedDiff } from './diff'
+import { isFilePath } from './artifact-extractor'
+
+/**
+ * Artifact Applier
+ *
+ * Turns agent artifacts that carry a path and content into a reviewable
+ * changeset: one change per file, with a unified diff against what is on
+ * disk. Patch artifacts apply on top of earlier artifacts for the same file.
+ * Nothing is written until `applyChangeset` is called.
+ */
+
+/**
+ * A pending change to one file
+ */
+export interface FileChange {
+  /** Path relative to the project root */
+  readonly path: string
+  readonly absolutePath: string
+  readonly type: 'create' | 'modify' | 'unchanged'
+  readonly content: string
+  /** Unified diff against the file on disk (empty when unchanged) */
+  readonly diff: string
+}
+
+/**
+ * An artifact that can't be applied
+ */
+export interface RejectedArtifact {
+  readonly path: string
+  readonly reason: string
+  readonly artifact: Artifact
+}
+
+/**
+ * Pending changes built from a workflow's artifacts
+ */
+export interface Changeset {
+  /** Real path of the project root */
+  readonly root: string
+  readonly changes: ReadonlyArray<FileChange>
+  readonly rejected: ReadonlyArray<RejectedArtifact>
+}
+
+/**
+ * Artifacts that describe file contents
+ *
+ * Code blocks only count when their title looks like a path, so a titled
+ * snippet ("```ts Example usage") is not written as a file.
+ */
+function isFileContent(artifact: Artifact): artifact is Artifact & { path: string; content: string } {
+  if (!artifact.path || artifact.content === undefined) {
+    return false
+  }
+
+  return (
+    artifact.type === 'file' ||
+    (artifact.type === 'code' && isFilePath(artifact.path) && !/\s/.test(artifact.path))
+  )
+}
+
+/**
+ * Contents of a file on disk, or undefined if it doesn't exist
+ */
+function readCurrent(absolutePath: string): string | undefined {
+  return existsSync(absolutePath) ? readFileSync(absolutePath, 'utf-8') : undefined
+}
+
+/**
+ * File contents after applying a patch artifact, throwing with the hunks that fail
+ */
+function patchContent(artifact: Artifact & { content: string }, current: string | undefined): string {
+  const [patch] = parseUnifiedDiff(artifact.content)
+  if (!patch) {
+    throw new Error('Patch has no hunks')
+  }
+
+  const result = applyPatch(current, patch)
+  if (result.failures.length > 0) {
+    throw new Error(
+      `Patch does not apply: ${result.failures
+        .map((f) => (f.header ? `hunk ${f.hunk} (${f.header}) ${f.reason}` : f.reason))
+        .join('; ')}`
+    )
+  }
+
+  return result.content
+}
+
+/**
+ * Build a changeset from artifacts
+ *
+ * The last file artifact for a path wins; patches apply on top of it (or the
+ * file on disk). Paths outside the project and patches that don't apply are
+ * rejected.
+ */
+export function createChangeset(
+  artifacts: ReadonlyArray<Artifact>,
+  projectPath: string
+): Changeset {
+  const latest = new Map<string, string>()
+  const rejected: RejectedArtifact[] = []
+  const root = resolveProjectPath(projectPath, '.')
+
+  for (const artifact of artifacts) {
+    const isPatch = artifact.type === 'patch' && artifact.path && artifact.content !== undefined
+    if (!isPatch && !isFileContent(artifact)) {
+      continue
+    }
+
+    try {
+      const path = artifact.path ?? ''
+      const content = artifact.content ?? ''
+      const absolutePath = resolveProjectPath(projectPath, path)
+      const next = isPatch
+        ? patchContent({ ...artifact, content }, latest.get(absolutePath) ?? readCurrent(absolutePath))
+        : content.endsWith('\n')
+          ? content
+          : `${content}\n`
+
+      // Re-insert so the map keeps the order of the latest artifacts
+      latest.delete(absolutePath)
+      latest.set(absolutePath, next)
+    } catch (error) {
+      rejected.push({
+        path: artifact.path ?? '',
+        reason: error instanceof Error ? error.message : String(error),
+        artifact,
+      })
+    }
+  }
+
+  const changes = [...latest].map(([absolutePath, content]): FileChange => {
+    const path = relative(root, absolutePath)
+    const before = readCurrent(absolutePath)
+    const diff = createUnifiedDiff(path, before, content)
+
+    return {
+      path,
+      absolutePath,
+      type: before === undefined ? 'create' : diff ? 'modify' : 'unchanged',
+      content,
+      diff,
+    }
+  })
+
+  return { root, changes, rejected }
+}
+
+/**
+ * Check that new patch artifacts apply on top of earlier artifacts and the
+ * files on disk, returning a message for each that doesn't
+ */
+export function checkPatchArtifacts(
+  artifacts: ReadonlyArray<Artifact>,
+  previous: ReadonlyArray<Artifact>,
+  projectPath: string
+): string[] {
+  const patches = artifacts.filter((artifact) => artifact.type === 'patch')
+  if (patches.length === 0) {
+    return []
+  }
+
+  return createChangeset([...previous, ...artifacts], projectPath)
+    .rejected.filter((r) => patches.includes(r.artifact))
+    .map((r) => `${r.path}: ${r.reason}`)
+}
+
+/**
+ * Write a changeset's created and modified files, returning their paths
+ *
+ * Each path is checked again right before it is written, since links in the
+ * project may have changed since the changeset was built.
+ */
+export function applyChangeset(changeset: Changeset): string[] {
+  const written: string[] = []
+
+  for (const change of changeset.changes) {
+    if (change.type === 'unchanged') {
+      continue
+    }
+
+    if (resolveProjectPath(changeset.root, change.path) !== change.absolutePath) {
+      throw new Error(`Path "${change.path}" no longer resolves to ${change.absolutePath}`)
+    }
+
+    mkdirSync(dirname(change.absolutePath), { recursive: true })
+    writeFileSync(change.absolutePath, change.content, 'utf-8')
+    written.push(change.path)
+  }
+
+  return written
+}
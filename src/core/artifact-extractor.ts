@@ -1,4 +1,5 @@
 import type { Artifact } from './types'
+import { formatFilePatch, parseUnifiedDiff } from './diff'
 
 /**
  * Extract artifacts from agent response text
@@ -6,6 +7,7 @@ import type { Artifact } from './types'
  * - Code blocks: ```language\ncode```
  * - File references: file://path, @file:path, [file](path)
  * - Inline files: <file path="...">content</file>
+ * - Patches: <patch path="...">unified diff</patch>, ```diff blocks
  */
 export function extractArtifacts(response: string): Artifact[] {
   const artifacts: Artifact[] = []
@@ -19,10 +21,18 @@ export function extractArtifacts(response: string): Artifact[] {
   // Extract inline files
   artifacts.push(...extractInlineFiles(response))
 
+  // Extract patches
+  artifacts.push(...extractPatches(response))
+
   // Deduplicate artifacts
   return deduplicateArtifacts(artifacts)
 }
 
+/**
+ * Code block languages that hold unified diffs
+ */
+const DIFF_LANGUAGES = new Set(['diff', 'patch'])
+
 /**
  * Extract code blocks from markdown-style code fences
  * Supports: ```language\ncode```, ```language filename\ncode```
@@ -39,6 +49,11 @@ export function extractCodeBlocks(text: string): Artifact[] {
     const filename = match[2]?.trim()
     const content = match[3]
 
+    // Diffs are patches, not file contents
+    if (language && DIFF_LANGUAGES.has(language)) {
+      continue
+    }
+
     // Only include non-empty code blocks (but preserve whitespace)
     if (content && content.trim()) {
       artifacts.push({
@@ -150,6 +165,57 @@ export function extractInlineFiles(text: string): Artifact[] {
   return artifacts
 }
 
+/**
+ * Extract unified diffs as patch artifacts, one per file
+ * Formats:
+ * - <patch path="path/to/file.ext">unified diff</patch>
+ * - ```diff blocks with ---/+++ file headers (or a path after the language)
+ *
+ * Each artifact holds the file's diff with normalized headers and hunk counts.
+ */
+export function extractPatches(text: string): Artifact[] {
+  const artifacts: Artifact[] = []
+
+  const pushPatch = (path: string, patch: ReturnType<typeof parseUnifiedDiff>[number]) => {
+    artifacts.push({
+      type: 'patch',
+      name: extractFilename(path),
+      path,
+      content: formatFilePatch(patch, path),
+    })
+  }
+
+  const patchTagRegex = /<patch\s+path="([^"]+)"\s*>([\s\S]*?)<\/patch>/g
+  let match: RegExpExecArray | null
+  while ((match = patchTagRegex.exec(text)) !== null) {
+    const path = match[1]
+    const hunks = parseUnifiedDiff(match[2] ?? '').flatMap((patch) => patch.hunks)
+
+    if (path && hunks.length > 0) {
+      pushPatch(path, { hunks })
+    }
+  }
+
+  const diffBlockRegex = /```(diff|patch)(?: +([^\n]+?))?\r?\n([\s\S]*?)```/g
+  while ((match = diffBlockRegex.exec(text)) !== null) {
+    const titlePath = match[2]?.trim()
+
+    for (const patch of parseUnifiedDiff(match[3] ?? '')) {
+      // Deleting files is not supported
+      if (patch.oldPath && !patch.newPath) {
+        continue
+      }
+
+      const path = patch.newPath ?? patch.oldPath ?? titlePath
+      if (path) {
+        pushPatch(path, patch)
+      }
+    }
+  }
+
+  return artifacts
+}
+
 /**
  * Extract filename from a file path
  */
@@ -161,7 +227,7 @@ function extractFilename(path: string): string {
 /**
  * Check if a string looks like a file path
  */
-function isFilePath(str: string): boolean {
+export function isFilePath(str: string): boolean {
   // Check for file extensions
   if (/\.[a-z0-9]+$/i.test(str)) {
     return true
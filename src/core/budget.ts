@@ -0,0 +1,176 @@
+import type { BudgetConfig } from '../config'
+import type { LLMCallEstimate } from './llm-clients'
+import type { AgentError, AgentRole, TokenUsage } from './types'
+import { addTokenUsage } from './types'
+
+/**
+ * Budget Tracker
+ *
+ * Adds up what a workflow's calls spend, in total and per agent, and checks
+ * each call's pre-flight estimate against the workflow and agent budgets.
+ * Once a call is refused, every later call is refused too, so the workflow
+ * stops spending.
+ */
+
+/**
+ * A refused call and the budget it would have exceeded
+ */
+export interface BudgetBreach {
+  /** Agent whose call was refused */
+  readonly agent: AgentRole
+  /** Whether the workflow's budget or the agent's own budget ran out */
+  readonly scope: 'workflow' | 'agent'
+  readonly limit: keyof BudgetConfig
+  /** Value of the limit */
+  readonly budget: number
+  /** Spent before the call (USD or tokens, per `limit`) */
+  readonly spent: number
+  readonly estimate: LLMCallEstimate
+  readonly message: string
+}
+
+/**
+ * Budgets and spending of one workflow
+ */
+export class BudgetTracker {
+  private usage?: TokenUsage
+  private agentUsage: Partial<Record<AgentRole, TokenUsage>> = {}
+  private refused?: BudgetBreach
+
+  constructor(
+    private readonly workflowBudget: BudgetConfig = {},
+    private readonly agentBudgets: Partial<Record<AgentRole, BudgetConfig | undefined>> = {}
+  ) {}
+
+  /**
+   * Continue from the spending of an earlier run (resumed workflow)
+   */
+  restore(usage?: TokenUsage, agentUsage: Partial<Record<AgentRole, TokenUsage>> = {}): void {
+    this.usage = usage
+    this.agentUsage = { ...agentUsage }
+    this.refused = undefined
+  }
+
+  /**
+   * Refuse a call that would exceed a budget
+   *
+   * Throws with the reason; the breach stays available from `breach`.
+   */
+  check(agent: AgentRole, estimate: LLMCallEstimate): void {
+    if (this.refused) {
+      throw new Error(this.refused.message)
+    }
+
+    const breach =
+      this.exceeds('workflow', this.workflowBudget, this.usage, agent, estimate) ??
+      this.exceeds('agent', this.agentBudgets[agent], this.agentUsage[agent], agent, estimate)
+
+    if (breach) {
+      this.refused = breach
+      throw new Error(breach.message)
+    }
+  }
+
+  /**
+   * Add a call's usage (cache hits cost nothing and are not counted)
+   */
+  record(agent: AgentRole, usage?: TokenUsage): void {
+    if (!usage || usage.cached) {
+      return
+    }
+    this.usage = addTokenUsage(this.usage, usage)
+    this.agentUsage = { ...this.agentUsage, [agent]: addTokenUsage(this.agentUsage[agent], usage) }
+  }
+
+  /**
+   * The call that was refused, if any
+   */
+  get breach(): BudgetBreach | undefined {
+    return this.refused
+  }
+
+  /**
+   * Usage of all recorded calls
+   */
+  get total(): TokenUsage | undefined {
+    return this.usage
+  }
+
+  /**
+   * Usage of the recorded calls by agent
+   */
+  get byAgent(): Partial<Record<AgentRole, TokenUsage>> {
+    return { ...this.agentUsage }
+  }
+
+  /**
+   * Error describing the breach, for the workflow state and incident report
+   */
+  toAgentError(taskId?: string): AgentError | undefined {
+    const breach = this.refused
+    if (!breach) {
+      return undefined
+    }
+
+    return {
+      code: 'BUDGET_EXCEEDED',
+      message: breach.message,
+      recoverable: false,
+      context: {
+        agent: breach.agent,
+        taskId,
+        scope: breach.scope,
+        limit: breach.limit,
+        budget: breach.budget,
+        spent: breach.spent,
+        estimate: breach.estimate,
+      },
+    }
+  }
+
+  private exceeds(
+    scope: BudgetBreach['scope'],
+    budget: BudgetConfig | undefined,
+    usage: TokenUsage | undefined,
+    agent: AgentRole,
+    estimate: LLMCallEstimate
+  ): BudgetBreach | undefined {
+    const owner = scope === 'workflow' ? 'workflow' : `${agent.toUpperCase()} agent`
+
+    if (budget?.maxCostUSD !== undefined) {
+      const spent = usage?.estimatedCost ?? 0
+      if (spent + estimate.estimatedCost > budget.maxCostUSD) {
+        return {
+          agent,
+          scope,
+          limit: 'maxCostUSD',
+          budget: budget.maxCostUSD,
+          spent,
+          estimate,
+          message:
+            `Budget exceeded: ${agent.toUpperCase()} call to ${estimate.model} (up to $${estimate.estimatedCost.toFixed(4)}) ` +
+            `would take the ${owner} past its $${budget.maxCostUSD.toFixed(2)} budget ($${spent.toFixed(4)} spent)`,
+        }
+      }
+    }
+
+    if (budget?.maxTokens !== undefined) {
+      const spent = usage?.totalTokens ?? 0
+      if (spent + estimate.totalTokens > budget.maxTokens) {
+        return {
+          agent,
+          scope,
+          limit: 'maxTokens',
+          budget: budget.maxTokens,
+          spent,
+          estimate,
+          message:
+            `Budget exceeded: ${agent.toUpperCase()} call to ${estimate.model} (up to ${estimate.totalTokens} tokens) ` +
+            `would take the ${owner} past its ${budget.maxTokens}-token budget (${spent} spent)`,
+        }
+      }
+    }
+
+    return undefined
+  }
+}
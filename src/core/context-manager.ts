@@ -4,6 +4,7 @@ import type {
   AgentRole,
   TaskStatus,
   Artifact,
+  ConversationMessage,
 } from './types'
 import { generateWorkflowId } from './types'
 
@@ -27,10 +28,11 @@ export class ContextManager {
   constructor(
     sopName: string,
     userRequest: string,
-    projectPath: string = process.cwd()
+    projectPath: string = process.cwd(),
+    workflowId: string = generateWorkflowId()
   ) {
     this.context = {
-      workflowId: generateWorkflowId(),
+      workflowId,
       sopName,
       userRequest,
       projectPath,
@@ -129,6 +131,26 @@ export class ContextManager {
     return this.context.artifacts.filter((a) => a.type === type)
   }
 
+  /**
+   * Keep the latest agent conversation for a task
+   */
+  setTranscript(taskId: string, messages: ReadonlyArray<ConversationMessage>): void {
+    this.context = {
+      ...this.context,
+      transcripts: {
+        ...this.context.transcripts,
+        [taskId]: [...messages],
+      },
+    }
+  }
+
+  /**
+   * Get the latest agent conversation for a task
+   */
+  getTranscript(taskId: string): ReadonlyArray<ConversationMessage> | undefined {
+    return this.context.transcripts?.[taskId]
+  }
+
   /**
    * Add a history entry
    */
@@ -209,7 +231,8 @@ export class ContextManager {
    * Check if context is too large and summarize if needed
    */
   private checkAndSummarize(): void {
-    const contextSize = JSON.stringify(this.context).length
+    // Transcripts are never sent to agents, so they don't count
+    const contextSize = JSON.stringify({ ...this.context, transcripts: undefined }).length
 
     if (contextSize > MAX_CONTEXT_SIZE) {
       this.summarizeContext()
@@ -295,7 +318,8 @@ export class ContextManager {
     const manager = new ContextManager(
       context.sopName,
       context.userRequest,
-      context.projectPath
+      context.projectPath,
+      context.workflowId
     )
     manager.context = { ...context }
     return manager
@@ -0,0 +1,110 @@
+import type { ContextManager } from './context-manager'
+
+/**
+ * Context Requests
+ *
+ * Between turns an agent can ask for workflow context that was not in its
+ * prompt by replying with a `<context_request>` block, one name per line.
+ * Names resolve to outputs, data values or artifact paths.
+ */
+
+/**
+ * Pattern for a context request block
+ */
+const CONTEXT_REQUEST_PATTERN = /<context_request>([\s\S]*?)<\/context_request>/g
+
+/**
+ * Maximum characters returned for a single requested item
+ */
+const MAX_ITEM_LENGTH = 10000
+
+/**
+ * Names requested in a response, in order and without duplicates
+ */
+export function parseContextRequests(response: string): string[] {
+  const names = new Set<string>()
+
+  for (const match of response.matchAll(CONTEXT_REQUEST_PATTERN)) {
+    for (const line of (match[1] ?? '').split('\n')) {
+      const name = line.replace(/^\s*[-*]\s*/, '').trim()
+      if (name) {
+        names.add(name)
+      }
+    }
+  }
+
+  return [...names]
+}
+
+/**
+ * Instruction added to the prompt of agents with more than one turn
+ */
+export function formatContextRequestInstruction(maxTurns: number): string {
+  return [
+    `## Requesting Context`,
+    `You have up to ${maxTurns} turns. If you need workflow outputs, data or files that are not shown above, reply with only:`,
+    ``,
+    `<context_request>`,
+    `name_or_path`,
+    `</context_request>`,
+    ``,
+    `List one output name, data key or artifact path per line. Otherwise give your final answer.`,
+  ].join('\n')
+}
+
+/**
+ * Look up requested names and format them as the next user message
+ */
+export function resolveContextRequests(
+  names: ReadonlyArray<string>,
+  contextManager: ContextManager,
+  turnsLeft: number
+): string {
+  const lines: string[] = [`## Requested Context`]
+
+  for (const name of names) {
+    lines.push(``, `### ${name}`, lookupContext(name, contextManager))
+  }
+
+  lines.push(``)
+  lines.push(formatTurnsLeft(turnsLeft))
+
+  return lines.join('\n')
+}
+
+/**
+ * Reminder of the remaining turn budget, sent with each follow-up turn
+ */
+export function formatTurnsLeft(turnsLeft: number): string {
+  return turnsLeft > 1
+    ? `You have ${turnsLeft} turns left. Request more context or give your final answer.`
+    : `This is your last turn. Give your final answer now.`
+}
+
+/**
+ * Resolve a single name against outputs, data and artifacts
+ */
+function lookupContext(name: string, contextManager: ContextManager): string {
+  const value = contextManager.getOutput(name) ?? contextManager.getData(name)
+
+  if (value !== undefined) {
+    return truncate(typeof value === 'string' ? value : JSON.stringify(value, null, 2))
+  }
+
+  const artifact = contextManager.getArtifacts().find((a) => a.path === name || a.name === name)
+  if (artifact?.content !== undefined) {
+    return truncate(artifact.content)
+  }
+
+  return '(not available)'
+}
+
+/**
+ * Cap a value so one request can't flood the conversation
+ */
+function truncate(text: string): string {
+  if (text.length <= MAX_ITEM_LENGTH) {
+    return text
+  }
+  return `${text.substring(0, MAX_ITEM_LENGTH)}\n... (truncated, ${text.length} characters total)`
+}
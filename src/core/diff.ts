@@ -0,0 +1,480 @@
+/**
+ * Line Diffs
+ *
+ * Minimal line-based diffing (Myers' algorithm) and unified diff output, used
+ * to review agent-produced file changes before they are written.
+ */
+
+/**
+ * Lines of unchanged context around each hunk
+ */
+const CONTEXT_LINES = 3
+
+/**
+ * Marker git uses for a last line without a newline
+ */
+const NO_NEWLINE_MARKER = '\\ No newline at end of file'
+
+/**
+ * A line of text and whether it ends with a newline
+ */
+interface Line {
+  readonly text: string
+  readonly eol: boolean
+}
+
+/**
+ * One step of an edit script
+ */
+export interface DiffOp {
+  readonly type: 'equal' | 'delete' | 'insert'
+  readonly text: string
+  /** False for a last line without a trailing newline */
+  readonly eol: boolean
+}
+
+/**
+ * Split text into lines, remembering whether the last one ends with a newline
+ */
+function toLines(text: string): Line[] {
+  if (text === '') {
+    return []
+  }
+
+  const parts = text.split('\n')
+  const endsWithNewline = parts[parts.length - 1] === ''
+  if (endsWithNewline) {
+    parts.pop()
+  }
+
+  return parts.map((part, i) => ({
+    text: part,
+    eol: endsWithNewline || i < parts.length - 1,
+  }))
+}
+
+function sameLine(a: Line | undefined, b: Line | undefined): boolean {
+  return !!a && !!b && a.text === b.text && a.eol === b.eol
+}
+
+/**
+ * Shortest edit script turning `before` into `after`, line by line
+ */
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = toLines(before)
+  const b = toLines(after)
+
+  // Common prefix and suffix don't need the full search
+  let start = 0
+  while (start < a.length && start < b.length && sameLine(a[start], b[start])) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && sameLine(a[endA - 1], b[endB - 1])) {
+    endA--
+    endB--
+  }
+
+  const middle = myers(a.slice(start, endA), b.slice(start, endB))
+  const equal = (line: Line): DiffOp => ({ type: 'equal', ...line })
+
+  return [...a.slice(0, start).map(equal), ...middle, ...a.slice(endA).map(equal)]
+}
+
+/**
+ * Myers' O((N+M)D) diff
+ */
+function myers(a: Line[], b: Line[]): DiffOp[] {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 3).fill(0)
+  const trace: number[][] = []
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push([...v])
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0))
+      let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1
+      let y = x - k
+
+      while (x < n && y < m && sameLine(a[x], b[y])) {
+        x++
+        y++
+      }
+
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        break search
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d] ?? []
+    const k = x - y
+    const down = k === -d || (k !== d && (vd[offset + k - 1] ?? 0) < (vd[offset + k + 1] ?? 0))
+    const prevK = down ? k + 1 : k - 1
+    const prevX = vd[offset + prevK] ?? 0
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      const line = a[--x] as Line
+      y--
+      ops.push({ type: 'equal', ...line })
+    }
+
+    if (d > 0) {
+      if (down) {
+        const line = b[--y] as Line
+        ops.push({ type: 'insert', ...line })
+      } else {
+        const line = a[--x] as Line
+        ops.push({ type: 'delete', ...line })
+      }
+    }
+  }
+
+  return ops.reverse()
+}
+
+/**
+ * Unified diff between two versions of a file (empty if they are equal)
+ *
+ * `before` is undefined for a new file.
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | undefined,
+  after: string
+): string {
+  const ops = diffLines(before ?? '', after)
+  if (ops.every((op) => op.type === 'equal')) {
+    return ''
+  }
+
+  const lines = [
+    `--- ${before === undefined ? '/dev/null' : `a/${path}`}`,
+    `+++ b/${path}`,
+  ]
+
+  // Line numbers (1-based) of each op in the old and new file
+  const positions: Array<{ oldLine: number; newLine: number }> = []
+  let oldLine = 1
+  let newLine = 1
+  for (const op of ops) {
+    positions.push({ oldLine, newLine })
+    if (op.type !== 'insert') oldLine++
+    if (op.type !== 'delete') newLine++
+  }
+
+  let i = 0
+  while (i < ops.length) {
+    if (ops[i]?.type === 'equal') {
+      i++
+      continue
+    }
+
+    // Grow the hunk until changes are more than 2 * context lines apart
+    const hunkStart = Math.max(0, i - CONTEXT_LINES)
+    let hunkEnd = i
+    let lastChange = i
+    while (hunkEnd < ops.length && hunkEnd - lastChange <= 2 * CONTEXT_LINES) {
+      if (ops[hunkEnd]?.type !== 'equal') {
+        lastChange = hunkEnd
+      }
+      hunkEnd++
+    }
+    hunkEnd = Math.min(ops.length, lastChange + CONTEXT_LINES + 1)
+
+    const hunk = ops.slice(hunkStart, hunkEnd)
+    const start = positions[hunkStart] ?? { oldLine: 1, newLine: 1 }
+    const oldCount = hunk.filter((op) => op.type !== 'insert').length
+    const newCount = hunk.filter((op) => op.type !== 'delete').length
+
+    lines.push(
+      `@@ -${oldCount === 0 ? start.oldLine - 1 : start.oldLine},${oldCount} +${newCount === 0 ? start.newLine - 1 : start.newLine},${newCount} @@`
+    )
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'
+      lines.push(`${prefix}${op.text}`)
+      if (!op.eol) {
+        lines.push(NO_NEWLINE_MARKER)
+      }
+    }
+
+    i = hunkEnd
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * One hunk of a unified diff
+ */
+export interface DiffHunk {
+  /** Line the hunk starts at in the old file (1-based, 0 for an empty file) */
+  readonly oldStart: number
+  /** Hunk lines with their ' ', '-', '+' or '\' prefix */
+  readonly lines: ReadonlyArray<string>
+}
+
+/**
+ * The changes a unified diff makes to one file
+ */
+export interface FilePatch {
+  /** Undefined when the diff has no headers or the file is new (/dev/null) */
+  readonly oldPath?: string
+  /** Undefined when the diff has no headers or the file is deleted (/dev/null) */
+  readonly newPath?: string
+  readonly hunks: ReadonlyArray<DiffHunk>
+}
+
+/**
+ * A hunk that could not be applied
+ */
+export interface HunkFailure {
+  /** 1-based hunk number */
+  readonly hunk: number
+  readonly header: string
+  readonly reason: string
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+/**
+ * Path from a ---/+++ header line (a/ and b/ prefixes and timestamps removed)
+ */
+function parseHeaderPath(line: string): string | undefined {
+  const path = line.substring(4).split('\t')[0]?.trim() ?? ''
+  if (path === '/dev/null' || path === '') {
+    return undefined
+  }
+  return path.replace(/^[ab]\//, '')
+}
+
+/**
+ * Old and new line counts of a hunk, computed from its lines
+ */
+function countHunkLines(hunk: DiffHunk): { oldLines: number; newLines: number } {
+  let oldLines = 0
+  let newLines = 0
+  for (const line of hunk.lines) {
+    if (line.startsWith(' ') || line.startsWith('-')) oldLines++
+    if (line.startsWith(' ') || line.startsWith('+')) newLines++
+  }
+  return { oldLines, newLines }
+}
+
+/**
+ * Hunk header with counts taken from the hunk's lines
+ */
+function formatHunkHeader(hunk: DiffHunk, newStart: number): string {
+  const { oldLines, newLines } = countHunkLines(hunk)
+  return `@@ -${hunk.oldStart},${oldLines} +${newStart},${newLines} @@`
+}
+
+/**
+ * Parse a unified diff into per-file patches
+ *
+ * Lenient about what models produce: hunk line counts are recomputed, blank
+ * lines inside a hunk count as blank context, and hunks without file headers
+ * become a single patch without paths.
+ */
+export function parseUnifiedDiff(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const patches: Array<{ oldPath?: string; newPath?: string; hunks: DiffHunk[] }> = []
+  let current: { oldPath?: string; newPath?: string; hunks: DiffHunk[] } | undefined
+  let hunk: { oldStart: number; lines: string[] } | undefined
+
+  const closeHunk = () => {
+    if (hunk && current) {
+      // Trailing blank lines are separators, not context
+      while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === ' ') {
+        hunk.lines.pop()
+      }
+      current.hunks.push(hunk)
+    }
+    hunk = undefined
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? ''
+    const next = lines[i + 1] ?? ''
+
+    if (line.startsWith('--- ') && next.startsWith('+++ ')) {
+      closeHunk()
+      current = { oldPath: parseHeaderPath(line), newPath: parseHeaderPath(next), hunks: [] }
+      patches.push(current)
+      i++
+      continue
+    }
+
+    const header = HUNK_HEADER_PATTERN.exec(line)
+    if (header) {
+      closeHunk()
+      if (!current) {
+        current = { hunks: [] }
+        patches.push(current)
+      }
+      hunk = { oldStart: Number(header[1]), lines: [] }
+      continue
+    }
+
+    if (!hunk) {
+      continue
+    }
+
+    if (line === '') {
+      hunk.lines.push(' ')
+    } else if (/^[ +\-\\]/.test(line)) {
+      hunk.lines.push(line)
+    } else {
+      closeHunk()
+    }
+  }
+  closeHunk()
+
+  return patches.filter((patch) => patch.hunks.length > 0)
+}
+
+/**
+ * Format a file patch as a unified diff for `path`
+ */
+export function formatFilePatch(patch: FilePatch, path: string): string {
+  const lines = [
+    `--- ${isNewFilePatch(patch) ? '/dev/null' : `a/${path}`}`,
+    `+++ b/${path}`,
+  ]
+
+  let delta = 0
+  for (const hunk of patch.hunks) {
+    const { oldLines, newLines } = countHunkLines(hunk)
+    lines.push(formatHunkHeader(hunk, Math.max(hunk.oldStart + delta, newLines > 0 ? 1 : 0)))
+    lines.push(...hunk.lines)
+    delta += newLines - oldLines
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Check if a patch creates a file (only additions against an empty file)
+ */
+export function isNewFilePatch(patch: FilePatch): boolean {
+  return patch.hunks.every((hunk) => hunk.oldStart === 0 && countHunkLines(hunk).oldLines === 0)
+}
+
+/**
+ * Index of `needle` in `haystack` closest to `expected`, or -1
+ */
+function findLines(
+  haystack: ReadonlyArray<string>,
+  needle: ReadonlyArray<string>,
+  expected: number,
+  equals: (a: string, b: string) => boolean
+): number {
+  const last = haystack.length - needle.length
+  const matchesAt = (start: number) => needle.every((line, j) => equals(haystack[start + j] ?? '', line))
+
+  for (let distance = 0; distance <= Math.max(expected, last - expected); distance++) {
+    for (const start of [expected - distance, expected + distance]) {
+      if (start >= 0 && start <= last && matchesAt(start)) {
+        return start
+      }
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Apply a patch to file contents (undefined for a file that doesn't exist)
+ *
+ * Hunks are located by their context, nearest to the line in their header;
+ * trailing whitespace differences are tolerated. Hunks that can't be located
+ * are reported and skipped.
+ */
+export function applyPatch(
+  content: string | undefined,
+  patch: FilePatch
+): { content: string; failures: HunkFailure[] } {
+  const failures: HunkFailure[] = []
+
+  if (content === undefined && !isNewFilePatch(patch)) {
+    return {
+      content: '',
+      failures: [{ hunk: 1, header: '', reason: 'file does not exist' }],
+    }
+  }
+
+  if (content && patch.newPath && !patch.oldPath) {
+    return {
+      content,
+      failures: [{ hunk: 1, header: '', reason: 'file already exists' }],
+    }
+  }
+
+  const source = content ?? ''
+  const lines = source === '' ? [] : source.split('\n')
+  let eol = source === '' || source.endsWith('\n')
+  if (source.endsWith('\n')) {
+    lines.pop()
+  }
+
+  let delta = 0
+  patch.hunks.forEach((hunk, index) => {
+    const oldLines: string[] = []
+    const newLines: string[] = []
+    let previous = ''
+
+    for (const line of hunk.lines) {
+      const prefix = line[0]
+      const text = line.substring(1)
+
+      if (prefix === '\\') {
+        // "\ No newline at end of file" applies to the line before it
+        if (previous === '+' || previous === ' ') eol = false
+        else if (previous === '-') eol = true
+        continue
+      }
+      if (prefix === ' ' || prefix === '-') oldLines.push(text)
+      if (prefix === ' ' || prefix === '+') newLines.push(text)
+      previous = prefix ?? ''
+    }
+
+    const expected = Math.max(0, hunk.oldStart - 1 + delta)
+    let start =
+      oldLines.length === 0
+        ? Math.min(hunk.oldStart === 0 ? 0 : expected + 1, lines.length)
+        : findLines(lines, oldLines, expected, (a, b) => a === b)
+
+    if (start < 0) {
+      start = findLines(lines, oldLines, expected, (a, b) => a.trimEnd() === b.trimEnd())
+    }
+
+    if (start < 0) {
+      failures.push({
+        hunk: index + 1,
+        header: formatHunkHeader(hunk, hunk.oldStart),
+        reason: 'context does not match the file',
+      })
+      return
+    }
+
+    lines.splice(start, oldLines.length, ...newLines)
+    delta += newLines.length - oldLines.length
+  })
+
+  return {
+    content: lines.length === 0 ? '' : `${lines.join('\n')}${eol ? '\n' : ''}`,
+    failures,
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Condition Expressions
+ *
+ * A tiny, side-effect free expression language for SOP conditions, e.g.
+ *   qa.quality_assessment.pass == false
+ *   coverage_report.percent < 80 && !skip_tests
+ *
+ * Supported:
+ * - Literals: numbers, 'strings', "strings", true, false, null
+ * - Paths: dotted identifiers resolved against a scope object (own properties only)
+ * - Operators: == != < <= > >= && || ! and parentheses
+ *
+ * There are no function calls or assignments, so expressions from SOP files
+ * cannot execute code.
+ */
+
+/**
+ * Variables available to an expression
+ */
+export type ExpressionScope = Record<string, unknown>
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: string }
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; segments: string[] }
+  | { type: 'not'; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '.']
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>=']
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null }
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < source.length) {
+    const char = source[index] as string
+
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(index))
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]) })
+      index += number[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1)
+      if (end === -1) {
+        throw new Error(`Unterminated string at position ${index}`)
+      }
+      tokens.push({ kind: 'string', value: source.slice(index + 1, end) })
+      index = end + 1
+      continue
+    }
+
+    const identifier = /^[A-Za-z_][\w-]*/.exec(source.slice(index))
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0] })
+      index += identifier[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index))
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator })
+      index += operator.length
+      continue
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${index}`)
+  }
+
+  return tokens
+}
+
+/**
+ * Recursive-descent parser producing an expression tree
+ */
+class Parser {
+  private position = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    if (this.tokens.length === 0) {
+      throw new Error('Empty expression')
+    }
+
+    const node = this.parseOr()
+
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected token "${this.describe(this.tokens[this.position])}"`)
+    }
+
+    return node
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd()
+    while (this.acceptOperator('||')) {
+      left = { type: 'binary', operator: '||', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot()
+    while (this.acceptOperator('&&')) {
+      left = { type: 'binary', operator: '&&', left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): Node {
+    if (this.acceptOperator('!')) {
+      return { type: 'not', operand: this.parseNot() }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): Node {
+    const left = this.parsePrimary()
+    const token = this.tokens[this.position]
+
+    if (token?.kind === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.position++
+      return { type: 'binary', operator: token.value, left, right: this.parsePrimary() }
+    }
+
+    return left
+  }
+
+  private parsePrimary(): Node {
+    const token = this.tokens[this.position++]
+
+    if (!token) {
+      throw new Error('Unexpected end of expression')
+    }
+
+    if (token.kind === 'number' || token.kind === 'string') {
+      return { type: 'literal', value: token.value }
+    }
+
+    if (token.kind === 'operator' && token.value === '(') {
+      const node = this.parseOr()
+      if (!this.acceptOperator(')')) {
+        throw new Error('Missing closing parenthesis')
+      }
+      return node
+    }
+
+    if (token.kind === 'identifier') {
+      if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+        return { type: 'literal', value: KEYWORDS[token.value] }
+      }
+
+      const segments = [token.value]
+      while (this.acceptOperator('.')) {
+        const next = this.tokens[this.position++]
+        if (next?.kind !== 'identifier' && next?.kind !== 'number') {
+          throw new Error(`Expected property name after "${segments.join('.')}."`)
+        }
+        segments.push(String(next.value))
+      }
+      return { type: 'path', segments }
+    }
+
+    throw new Error(`Unexpected token "${this.describe(token)}"`)
+  }
+
+  private acceptOperator(operator: string): boolean {
+    const token = this.tokens[this.position]
+    if (token?.kind === 'operator' && token.value === operator) {
+      this.position++
+      return true
+    }
+    return false
+  }
+
+  private describe(token: Token | undefined): string {
+    return token ? String(token.value) : 'end of expression'
+  }
+}
+
+/**
+ * Resolve a dotted path against the scope (missing segments yield undefined)
+ */
+function resolvePath(scope: ExpressionScope, segments: string[]): unknown {
+  let current: unknown = scope
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+
+  return current
+}
+
+/**
+ * Evaluate an expression tree
+ */
+function evaluateNode(node: Node, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value
+    case 'path':
+      return resolvePath(scope, node.segments)
+    case 'not':
+      return !evaluateNode(node.operand, scope)
+    case 'binary': {
+      if (node.operator === '&&') {
+        return Boolean(evaluateNode(node.left, scope)) && Boolean(evaluateNode(node.right, scope))
+      }
+      if (node.operator === '||') {
+        return Boolean(evaluateNode(node.left, scope)) || Boolean(evaluateNode(node.right, scope))
+      }
+
+      const left = evaluateNode(node.left, scope)
+      const right = evaluateNode(node.right, scope)
+
+      switch (node.operator) {
+        case '==':
+          return left === right
+        case '!=':
+          return left !== right
+        case '<':
+          return typeof left === typeof right && (left as number) < (right as number)
+        case '<=':
+          return typeof left === typeof right && (left as number) <= (right as number)
+        case '>':
+          return typeof left === typeof right && (left as number) > (right as number)
+        case '>=':
+          return typeof left === typeof right && (left as number) >= (right as number)
+      }
+    }
+  }
+
+  throw new Error('Invalid expression')
+}
+
+/**
+ * Check an expression for syntax errors (returns the error message, or null)
+ */
+export function validateExpression(source: string): string | null {
+  try {
+    new Parser(tokenize(source)).parse()
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Collect the paths an expression tree reads
+ */
+function collectPaths(node: Node, paths: string[][]): string[][] {
+  switch (node.type) {
+    case 'path':
+      paths.push(node.segments)
+      break
+    case 'not':
+      collectPaths(node.operand, paths)
+      break
+    case 'binary':
+      collectPaths(node.left, paths)
+      collectPaths(node.right, paths)
+      break
+  }
+  return paths
+}
+
+/**
+ * Dotted paths an expression reads, as segments (empty if it doesn't parse)
+ */
+export function getExpressionPaths(source: string): string[][] {
+  try {
+    return collectPaths(new Parser(tokenize(source)).parse(), [])
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Evaluate an expression against a scope
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+  return evaluateNode(new Parser(tokenize(source)).parse(), scope)
+}
+
+/**
+ * Evaluate an expression as a boolean condition
+ */
+export function evaluateCondition(source: string, scope: ExpressionScope): boolean {
+  return Boolean(evaluateExpression(source, scope))
+}
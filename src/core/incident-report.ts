@@ -102,7 +102,16 @@ export class IncidentReportManager {
     // Determine likely cause
     lines.push(`**Likely Cause**:`)
 
-    if (error.code.includes('TIMEOUT')) {
+    if (error.code.includes('BUDGET')) {
+      const context = error.context ?? {}
+      const agent = String(context.agent ?? task.agent).toUpperCase()
+      const owner = context.scope === 'agent' ? `the ${agent} agent's budget` : `the workflow budget`
+      lines.push(`A call by the ${agent} agent was refused because it would exceed ${owner}:`)
+      lines.push(`- Limit: ${context.limit} = ${context.budget}`)
+      lines.push(`- Spent before the call: ${context.spent}`)
+      lines.push(`- Pre-flight estimate of the call (prompt plus maximum output) pushed it over the limit`)
+      lines.push(`- No further LLM calls were made for this workflow`)
+    } else if (error.code.includes('TIMEOUT')) {
       lines.push(`The agent exceeded the maximum execution time. This could be due to:`)
       lines.push(`- Task complexity is too high for the allocated time`)
       lines.push(`- Agent is stuck in an infinite loop or waiting for external resources`)
@@ -201,7 +210,12 @@ export class IncidentReportManager {
     lines.push(`**Immediate Actions**:`)
 
     // Specific suggestions based on error type
-    if (error.code.includes('TIMEOUT')) {
+    if (error.code.includes('BUDGET')) {
+      lines.push(`1. Raise \`budget\` (workflow) or \`crew.<agent>.budget\` if the spend is expected`)
+      lines.push(`2. Route ${task.agent} to a cheaper model or lower its \`maxTokens\``)
+      lines.push(`3. Enable the response cache so re-runs don't pay again for finished agents`)
+      lines.push(`4. Resume the workflow once the budget allows it`)
+    } else if (error.code.includes('TIMEOUT')) {
       lines.push(`1. Increase timeout value for ${task.agent} agent`)
       lines.push(`2. Break down the task into smaller, more manageable subtasks`)
       lines.push(`3. Optimize the task action to reduce execution time`)
@@ -1,13 +1,56 @@
 // Core orchestration components
 export { Orchestrator } from './orchestrator'
 export { AgentRunner } from './agent-runner'
-export { TaskQueue } from './task-queue'
+export { TaskQueue, findDependencyCycle } from './task-queue'
 export { ContextManager } from './context-manager'
 export { IncidentReportManager } from './incident-report'
 
 // LLM integration
-export { callLLM, validateAPIKeys, getProviderFromModel } from './llm-clients'
-export type { LLMProvider, LLMRequest, LLMResponse } from './llm-clients'
+export {
+  callLLM,
+  validateAPIKeys,
+  getProviderFromModel,
+  getRequestMessages,
+  estimateTokens,
+  getLLMMode,
+  getCassetteKey,
+  getRetryAfter,
+  parseStructuredContent,
+  DEFAULT_MAX_TOKENS,
+} from './llm-clients'
+export type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMToolDefinition,
+  LLMTokenDelta,
+  LLMMode,
+  LLMCallEstimate,
+} from './llm-clients'
+export { ProviderRegistry, createProviderRegistry, BUILTIN_PROVIDERS } from './providers'
+export type { ResolvedModel } from './providers'
+export { calculateCost, selectPricing } from './pricing'
+export type { CacheTokens } from './pricing'
+export { MockProvider, loadMockProvider, formatMockOutputs } from './mock-provider'
+export type { MockRule, MockReply, MockCall, MockHandler } from './mock-provider'
+export { ResponseCache, getCacheKey } from './response-cache'
+export { RateLimiter } from './rate-limiter'
+export type { RateLimitSlot } from './rate-limiter'
+export type { CacheStats } from './response-cache'
+export { BudgetTracker } from './budget'
+export type { BudgetBreach } from './budget'
+
+// Agent tools
+export {
+  AgentToolRegistry,
+  createAgentToolRegistry,
+  resolveProjectPath,
+  BUILTIN_AGENT_TOOLS,
+  DEFAULT_AGENT_TOOLS,
+} from './agent-tools'
+export type { AgentTool, AgentToolContext } from './agent-tools'
+export { CommandSandbox, createSandboxEnv, formatSandboxResult } from './sandbox'
+export type { SandboxResult } from './sandbox'
 
 // Output parsing
 export {
@@ -15,9 +58,47 @@ export {
   validateOutputs,
   formatOutputs,
   formatOutputInstruction,
+  formatStructuredOutputInstruction,
+  createOutputSchema,
 } from './output-parser'
 export type { ParsedOutput } from './output-parser'
 
+// Multi-turn context requests
+export {
+  parseContextRequests,
+  resolveContextRequests,
+  formatContextRequestInstruction,
+} from './context-requests'
+
+// Applying file artifacts
+export { createChangeset, applyChangeset, checkPatchArtifacts } from './artifact-applier'
+export type { Changeset, FileChange, RejectedArtifact } from './artifact-applier'
+export { createUnifiedDiff, diffLines, parseUnifiedDiff, formatFilePatch, applyPatch } from './diff'
+export type { DiffOp, DiffHunk, FilePatch, HunkFailure } from './diff'
+
+// Condition expressions
+export {
+  evaluateExpression,
+  evaluateCondition,
+  getExpressionPaths,
+  validateExpression,
+} from './expression'
+export type { ExpressionScope } from './expression'
+
+// Dynamic plans
+export {
+  createPlannedTasks,
+  createPlanValidation,
+  createDynamicPlanSchema,
+  formatPlanInstruction,
+  PlannedTaskSchema,
+} from './planner'
+export type { DynamicPlan, PlannedTask } from './planner'
+
+// Step validation gates
+export { checkValidationGates, lintValidationGates } from './validation-gates'
+export type { ValidationGateResult } from './validation-gates'
+
 // Type exports
 export type {
   // Agent types
@@ -27,18 +108,26 @@ export type {
   AgentError,
   AgentExecutionOptions,
   AgentProgress,
+  ConversationMessage,
+  ToolCall,
+  ToolResult,
   // Task types
   Task,
   TaskStatus,
+  TaskLoop,
+  SOPStepValidation,
   Priority,
   // Execution types
   ExecutionContext,
   ExecutionHistoryEntry,
   ExecutionPlan,
   WorkflowState,
+  WorkflowStopRequest,
+  WorkflowApproval,
   // Artifact types
   Artifact,
   TokenUsage,
+  TokenCounts,
   // Incident report types
   IncidentReport,
   // Event types
@@ -47,4 +136,4 @@ export type {
 } from './types'
 
 // Utility functions
-export { createTaskFromStep, generateWorkflowId } from './types'
+export { createTaskFromStep, generateWorkflowId, getStepId, addTokenUsage } from './types'
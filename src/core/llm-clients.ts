@@ -3,30 +3,142 @@
  *
  * Provides unified interface for multiple LLM providers:
  * - Anthropic (Claude models)
- * - OpenAI (GPT models)
+ * - OpenAI (GPT models) and OpenAI-compatible endpoints (Ollama, vLLM, ...)
  * - Google (Gemini models)
+ * - Mock (scripted responses for testing)
+ *
+ * Models resolve to providers through the provider registry, which also
+ * rate-limits calls per provider. Calls can be recorded to and replayed from
+ * cassette files.
  */
 
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
 import Anthropic from '@anthropic-ai/sdk'
 import OpenAI from 'openai'
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import type { TokenUsage } from './types'
+import {
+  FunctionCallingMode,
+  GoogleGenerativeAI,
+  type Content,
+  type EnhancedGenerateContentResponse,
+  type FunctionDeclarationSchema,
+  type GenerativeModel,
+  type ResponseSchema,
+} from '@google/generative-ai'
+import type { AgentRole, TokenUsage, ConversationMessage, ToolCall } from './types'
+import type { FallbackErrorClass, ReplayConfig } from '../config'
+import { createProviderRegistry, type ProviderRegistry, type ResolvedModel } from './providers'
+import { calculateCost, type CacheTokens } from './pricing'
+import { loadMockProvider, type MockProvider } from './mock-provider'
 
 /**
- * LLM Provider types
+ * Built-in LLM providers
  */
 export type LLMProvider = 'anthropic' | 'openai' | 'google'
 
+/**
+ * How LLM calls are served: by providers ('live'), by providers while saving
+ * each response ('record'), or from saved responses ('replay')
+ */
+export type LLMMode = ReplayConfig['mode']
+
+const LLM_MODES: ReadonlyArray<LLMMode> = ['live', 'record', 'replay']
+
+/**
+ * Cassette directory when the registry has no replay settings
+ */
+const DEFAULT_CASSETTE_DIR = '.opencode/crew-opencode/cassettes'
+
+/**
+ * A recorded request and response
+ */
+interface Cassette {
+  key: string
+  model: string
+  systemPrompt?: string
+  messages: ReadonlyArray<ConversationMessage>
+  response: LLMResponse
+}
+
+/**
+ * Output token cap of calls that don't set `maxTokens`
+ */
+export const DEFAULT_MAX_TOKENS = 4096
+
 /**
  * LLM Request parameters
  */
 export interface LLMRequest {
   model: string
-  prompt: string
+  /** Single user message; ignored when `messages` is set */
+  prompt?: string
+  /** Conversation so far, oldest first, ending with a user message */
+  messages?: ReadonlyArray<ConversationMessage>
+  /** Tools the model may call */
+  tools?: ReadonlyArray<LLMToolDefinition>
+  /**
+   * 'none' asks for an answer without tool calls; `tools` stay defined for
+   * the calls already in the conversation (default 'auto')
+   */
+  toolChoice?: 'auto' | 'none'
   systemPrompt?: string
   temperature?: number
   maxTokens?: number
   timeout?: number
+  signal?: AbortSignal
+  /** Stream the response, calling this as text arrives */
+  onToken?: (delta: LLMTokenDelta) => void
+  /** Called with the time spent in the provider's rate limit queue, when it waited */
+  onQueueWait?: (waited: number) => void
+  /**
+   * Pre-flight check before the call goes to the provider (cache and replay
+   * hits skip it); throw to refuse the call
+   */
+  onBeforeCall?: (estimate: LLMCallEstimate) => void
+  /** Agent and task action making the call (matched by mock provider rules) */
+  agent?: AgentRole
+  action?: string
+  /**
+   * JSON Schema (an object schema) the final answer must follow; the
+   * provider's native structured output mode enforces it
+   */
+  responseSchema?: Record<string, unknown>
+}
+
+/**
+ * Largest possible usage of a call: its prompt plus `maxTokens` of output
+ */
+export interface LLMCallEstimate {
+  /** Model id as requested */
+  model: string
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  estimatedCost: number
+}
+
+/**
+ * Text streamed from the model
+ */
+export interface LLMTokenDelta {
+  /** Text generated since the previous delta (empty for a final usage update) */
+  text: string
+  /**
+   * Output tokens generated so far in this call: the provider's count when it
+   * reports one, otherwise estimated from the streamed text
+   */
+  outputTokens: number
+}
+
+/**
+ * A tool offered to the model
+ */
+export interface LLMToolDefinition {
+  name: string
+  description: string
+  /** JSON Schema for the tool's arguments (an object schema) */
+  parameters: Record<string, unknown>
 }
 
 /**
@@ -34,37 +146,118 @@ export interface LLMRequest {
  */
 export interface LLMResponse {
   content: string
+  /** Tools the model wants to run before it answers */
+  toolCalls?: ReadonlyArray<ToolCall>
   tokenUsage?: TokenUsage
+  /** The answer as an object, when `responseSchema` was requested and the reply parsed */
+  structured?: Record<string, unknown>
 }
 
 /**
- * Get provider from model name
+ * Get the name of the provider serving a model id
  */
-export function getProviderFromModel(model: string): LLMProvider {
-  if (model.startsWith('claude-')) {
-    return 'anthropic'
+export function getProviderFromModel(
+  model: string,
+  providers: ProviderRegistry = createProviderRegistry()
+): string {
+  return providers.resolve(model).provider
+}
+
+/**
+ * Conversation to send for a request (`messages`, or `prompt` as one user message)
+ */
+export function getRequestMessages(request: LLMRequest): ReadonlyArray<ConversationMessage> {
+  if (request.messages && request.messages.length > 0) {
+    return request.messages
   }
-  if (model.startsWith('gpt-')) {
-    return 'openai'
+  if (request.prompt !== undefined) {
+    return [{ role: 'user', content: request.prompt }]
   }
-  if (model.startsWith('gemini-')) {
-    return 'google'
+
+  throw new Error('LLM request needs a prompt or messages')
+}
+
+/**
+ * Rough token count of streamed text (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Message patterns of each error class, for errors without a usable status
+ */
+const ERROR_CLASS_PATTERNS: ReadonlyArray<[FallbackErrorClass, RegExp]> = [
+  ['context_length', /context (length|window)|maximum context|too many tokens|prompt is too long|token limit/i],
+  ['rate_limit', /rate.?limit|too many requests|quota|resource.?exhausted/i],
+  ['timeout', /timed? ?out|timeout|ETIMEDOUT/i],
+  ['server_error', /overloaded|internal server error|service unavailable|bad gateway/i],
+]
+
+/**
+ * Classify a failed LLM call (undefined for errors a fallback won't fix)
+ *
+ * Looks at the HTTP status and message of the error and its causes.
+ */
+export function classifyLLMError(error: unknown): FallbackErrorClass | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const status = (current as { status?: unknown }).status
+    const message = `${current.name}: ${current.message}`
+    const byMessage = ERROR_CLASS_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0]
+
+    if (byMessage === 'context_length') return 'context_length'
+    if (status === 429) return 'rate_limit'
+    if (status === 408) return 'timeout'
+    if (typeof status === 'number' && status >= 500) return 'server_error'
+    if (byMessage) return byMessage
+  }
+
+  return undefined
+}
+
+/**
+ * Milliseconds the provider asked to wait before retrying, from the
+ * `retry-after-ms` or `retry-after` (seconds or HTTP date) header of the
+ * error or its causes
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const headers = (current as { headers?: unknown }).headers
+    if (!headers || typeof headers !== 'object') continue
+
+    const header = (name: string): string | undefined => {
+      const value =
+        headers instanceof Headers ? headers.get(name) : (headers as Record<string, unknown>)[name]
+      return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+    }
+
+    const ms = Number(header('retry-after-ms'))
+    if (ms > 0) return ms
+
+    const retryAfter = header('retry-after')
+    if (retryAfter) {
+      const seconds = Number(retryAfter)
+      if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+      const date = Date.parse(retryAfter)
+      if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+    }
   }
 
-  throw new Error(`Unknown model provider for: ${model}`)
+  return undefined
 }
 
 /**
- * Get API key for provider
+ * Get the API key for a provider from its `apiKeyEnv`
+ *
+ * Providers without `apiKeyEnv` (local endpoints) get a placeholder key.
  */
-function getAPIKey(provider: LLMProvider): string {
-  const envVars = {
-    anthropic: 'ANTHROPIC_API_KEY',
-    openai: 'OPENAI_API_KEY',
-    google: 'GOOGLE_API_KEY',
+function getAPIKey(target: ResolvedModel): string {
+  const envVar = target.config.apiKeyEnv
+  if (!envVar) {
+    return 'not-needed'
   }
 
-  const envVar = envVars[provider]
   const apiKey = process.env[envVar]
 
   if (!apiKey) {
@@ -78,195 +271,825 @@ function getAPIKey(provider: LLMProvider): string {
 }
 
 /**
- * Call Anthropic API (Claude models)
+ * Token usage with the cost of the resolved model
+ *
+ * `inputTokens` includes the prompt-cache tokens in `cache`.
+ */
+function toTokenUsage(
+  target: ResolvedModel,
+  inputTokens: number,
+  outputTokens: number,
+  cache: CacheTokens = {}
+): TokenUsage {
+  return {
+    model: target.id,
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    estimatedCost: calculateCost(target.pricing, inputTokens, outputTokens, cache),
+    ...(cache.cachedInputTokens ? { cachedInputTokens: cache.cachedInputTokens } : {}),
+    ...(cache.cacheWriteTokens ? { cacheWriteTokens: cache.cacheWriteTokens } : {}),
+    ...(target.unpriced ? { unpricedModels: [target.id] } : {}),
+  }
+}
+
+/**
+ * Map a conversation to Anthropic messages (tool_use / tool_result blocks)
  */
-async function callAnthropic(request: LLMRequest): Promise<LLMResponse> {
-  const apiKey = getAPIKey('anthropic')
-  const client = new Anthropic({ apiKey })
+export function toAnthropicMessages(
+  messages: ReadonlyArray<ConversationMessage>
+): Anthropic.MessageParam[] {
+  return messages.map((message): Anthropic.MessageParam => {
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          })),
+        ],
+      }
+    }
 
-  const response = await client.messages.create({
-    model: request.model,
-    max_tokens: request.maxTokens || 4096,
-    temperature: request.temperature ?? 0.7,
-    system: request.systemPrompt,
-    messages: [
-      {
+    if (message.role === 'user' && message.toolResults?.length) {
+      // Tool results must come before any text in the same message
+      return {
         role: 'user',
-        content: request.prompt,
-      },
-    ],
+        content: [
+          ...message.toolResults.map((result) => ({
+            type: 'tool_result' as const,
+            tool_use_id: result.toolCallId,
+            content: result.content,
+            is_error: result.isError,
+          })),
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+        ],
+      }
+    }
+
+    return { role: message.role, content: message.content }
   })
+}
 
-  const content = response.content[0]
-  const text = content && content.type === 'text' ? content.text : ''
+/**
+ * Tool Anthropic models are made to call with their structured answer
+ */
+const STRUCTURED_OUTPUT_TOOL = 'submit_outputs'
+
+/**
+ * Parse a structured answer (a JSON object, possibly in a ```json fence)
+ */
+export function parseStructuredContent(content: string): Record<string, unknown> | undefined {
+  const json = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1')
+  try {
+    const parsed: unknown = JSON.parse(json)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Add the parsed answer to a response to a structured output request
+ *
+ * Replies with tool calls aren't the final answer and stay as they are.
+ */
+function withStructuredContent(request: LLMRequest, response: LLMResponse): LLMResponse {
+  if (!request.responseSchema || response.structured || response.toolCalls?.length) {
+    return response
+  }
+  const structured = parseStructuredContent(response.content)
+  return structured ? { ...response, structured } : response
+}
+
+/**
+ * Anthropic request body
+ *
+ * Structured output is a forced call of a tool taking the response schema;
+ * with other tools offered the model must call one of them or that tool,
+ * except with `toolChoice` 'none', which forces that tool.
+ */
+function toAnthropicParams(
+  request: LLMRequest,
+  target: ResolvedModel
+): Anthropic.MessageCreateParamsNonStreaming {
+  const tools: Anthropic.Tool[] = (request.tools ?? []).map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+  }))
+
+  if (request.responseSchema) {
+    tools.push({
+      name: STRUCTURED_OUTPUT_TOOL,
+      description: 'Submit the outputs of the task as your final answer',
+      input_schema: request.responseSchema as Anthropic.Tool.InputSchema,
+    })
+  }
+
+  return {
+    model: target.model,
+    max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+    temperature: request.temperature ?? 0.7,
+    system: request.systemPrompt,
+    messages: toAnthropicMessages(getRequestMessages(request)),
+    tools: tools.length > 0 ? tools : undefined,
+    tool_choice: request.responseSchema
+      ? request.tools?.length && request.toolChoice !== 'none'
+        ? { type: 'any' }
+        : { type: 'tool', name: STRUCTURED_OUTPUT_TOOL }
+      : request.toolChoice === 'none' && tools.length > 0
+        ? { type: 'none' }
+        : undefined,
+  }
+}
+
+/**
+ * Map Anthropic usage to token usage
+ */
+function fromAnthropicUsage(target: ResolvedModel, usage: Anthropic.Usage): TokenUsage {
+  // Anthropic reports prompt-cache reads and writes apart from input_tokens
+  const cachedInputTokens = usage.cache_read_input_tokens ?? 0
+  const cacheWriteTokens = usage.cache_creation_input_tokens ?? 0
+
+  return toTokenUsage(
+    target,
+    usage.input_tokens + cachedInputTokens + cacheWriteTokens,
+    usage.output_tokens,
+    { cachedInputTokens, cacheWriteTokens }
+  )
+}
+
+/**
+ * Map an Anthropic message to a response
+ */
+function fromAnthropicMessage(target: ResolvedModel, response: Anthropic.Message): LLMResponse {
+  // A call of the structured output tool is the final answer
+  const submitted = response.content.find(
+    (block) => block.type === 'tool_use' && block.name === STRUCTURED_OUTPUT_TOOL
+  )
+  if (submitted?.type === 'tool_use') {
+    const structured = submitted.input as Record<string, unknown>
+    return {
+      content: JSON.stringify(structured),
+      structured,
+      tokenUsage: fromAnthropicUsage(target, response.usage),
+    }
+  }
+
+  const text = response.content
+    .flatMap((block) => (block.type === 'text' ? [block.text] : []))
+    .join('')
+  const toolCalls = response.content.flatMap((block) =>
+    block.type === 'tool_use'
+      ? [{ id: block.id, name: block.name, arguments: block.input as Record<string, unknown> }]
+      : []
+  )
 
   return {
     content: text,
-    tokenUsage: {
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
-      totalTokens: response.usage.input_tokens + response.usage.output_tokens,
-      estimatedCost: calculateAnthropicCost(
-        request.model,
-        response.usage.input_tokens,
-        response.usage.output_tokens
-      ),
-    },
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    tokenUsage: fromAnthropicUsage(target, response.usage),
   }
 }
 
 /**
- * Call OpenAI API (GPT models)
+ * Call Anthropic API (Claude models)
+ */
+async function callAnthropic(request: LLMRequest, target: ResolvedModel): Promise<LLMResponse> {
+  const client = new Anthropic({ apiKey: getAPIKey(target), baseURL: target.config.baseURL })
+
+  const response = await client.messages.create(toAnthropicParams(request, target), {
+    signal: request.signal,
+  })
+
+  return fromAnthropicMessage(target, response)
+}
+
+/**
+ * Stream from Anthropic API (Claude models)
  */
-async function callOpenAI(request: LLMRequest): Promise<LLMResponse> {
-  const apiKey = getAPIKey('openai')
-  const client = new OpenAI({ apiKey })
+async function streamAnthropic(
+  request: LLMRequest,
+  target: ResolvedModel,
+  onToken: (delta: LLMTokenDelta) => void
+): Promise<LLMResponse> {
+  const client = new Anthropic({ apiKey: getAPIKey(target), baseURL: target.config.baseURL })
+
+  let text = ''
+  const stream = client.messages
+    .stream(toAnthropicParams(request, target), { signal: request.signal })
+    .on('text', (delta) => {
+      text += delta
+      onToken({ text: delta, outputTokens: estimateTokens(text) })
+    })
+
+  const response = fromAnthropicMessage(target, await stream.finalMessage())
+  onToken({ text: '', outputTokens: response.tokenUsage?.outputTokens ?? estimateTokens(text) })
 
-  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = []
+  return response
+}
+
+/**
+ * Map a conversation to OpenAI chat messages (tool_calls / tool role messages)
+ */
+export function toOpenAIMessages(
+  messages: ReadonlyArray<ConversationMessage>,
+  systemPrompt?: string
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const result: OpenAI.Chat.ChatCompletionMessageParam[] = []
 
-  if (request.systemPrompt) {
-    messages.push({
+  if (systemPrompt) {
+    result.push({
       role: 'system',
-      content: request.systemPrompt,
+      content: systemPrompt,
     })
   }
 
-  messages.push({
-    role: 'user',
-    content: request.prompt,
-  })
+  for (const message of messages) {
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      })
+      continue
+    }
 
-  const response = await client.chat.completions.create({
-    model: request.model,
-    messages,
+    for (const toolResult of message.toolResults ?? []) {
+      result.push({
+        role: 'tool',
+        tool_call_id: toolResult.toolCallId,
+        content: toolResult.content,
+      })
+    }
+
+    if (message.content || !message.toolResults?.length) {
+      result.push({
+        role: message.role,
+        content: message.content,
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Parse function call arguments, which OpenAI returns as a JSON string
+ */
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(raw || '{}')
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * OpenAI request body
+ */
+function toOpenAIParams(
+  request: LLMRequest,
+  target: ResolvedModel
+): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+  return {
+    model: target.model,
+    messages: toOpenAIMessages(getRequestMessages(request), request.systemPrompt),
     temperature: request.temperature ?? 0.7,
-    max_tokens: request.maxTokens || 4096,
-  })
+    max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+    response_format: request.responseSchema
+      ? {
+          type: 'json_schema',
+          // Not strict: strict mode needs every property typed and required
+          json_schema: { name: 'outputs', schema: request.responseSchema, strict: false },
+        }
+      : undefined,
+    tools: request.tools?.map((tool) => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    })),
+    tool_choice: request.toolChoice === 'none' && request.tools?.length ? 'none' : undefined,
+  }
+}
 
-  const content = response.choices[0]?.message?.content || ''
+/**
+ * Map an OpenAI chat completion to a response
+ */
+function fromOpenAICompletion(target: ResolvedModel, response: OpenAI.Chat.ChatCompletion): LLMResponse {
+  const message = response.choices[0]?.message
+  const content = message?.content || ''
+  const toolCalls = (message?.tool_calls ?? []).flatMap((call) =>
+    call.type === 'function'
+      ? [{ id: call.id, name: call.function.name, arguments: parseToolArguments(call.function.arguments) }]
+      : []
+  )
 
   return {
     content,
-    tokenUsage: {
-      inputTokens: response.usage?.prompt_tokens || 0,
-      outputTokens: response.usage?.completion_tokens || 0,
-      totalTokens: response.usage?.total_tokens || 0,
-      estimatedCost: calculateOpenAICost(
-        request.model,
-        response.usage?.prompt_tokens || 0,
-        response.usage?.completion_tokens || 0
-      ),
-    },
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    tokenUsage: toTokenUsage(
+      target,
+      response.usage?.prompt_tokens || 0,
+      response.usage?.completion_tokens || 0,
+      { cachedInputTokens: response.usage?.prompt_tokens_details?.cached_tokens }
+    ),
   }
 }
 
 /**
- * Call Google API (Gemini models)
+ * Call OpenAI API (GPT models)
  */
-async function callGoogle(request: LLMRequest): Promise<LLMResponse> {
-  const apiKey = getAPIKey('google')
-  const genAI = new GoogleGenerativeAI(apiKey)
+async function callOpenAI(request: LLMRequest, target: ResolvedModel): Promise<LLMResponse> {
+  const client = new OpenAI({ apiKey: getAPIKey(target), baseURL: target.config.baseURL })
 
-  const model = genAI.getGenerativeModel({
-    model: request.model,
-    generationConfig: {
-      temperature: request.temperature ?? 0.7,
-      maxOutputTokens: request.maxTokens || 4096,
-    },
-    systemInstruction: request.systemPrompt,
+  const response = await client.chat.completions.create(toOpenAIParams(request, target), {
+    signal: request.signal,
   })
 
-  const result = await model.generateContent(request.prompt)
-  const response = result.response
+  return fromOpenAICompletion(target, response)
+}
+
+/**
+ * Stream from OpenAI API (GPT models)
+ */
+async function streamOpenAI(
+  request: LLMRequest,
+  target: ResolvedModel,
+  onToken: (delta: LLMTokenDelta) => void
+): Promise<LLMResponse> {
+  const client = new OpenAI({ apiKey: getAPIKey(target), baseURL: target.config.baseURL })
+
+  let text = ''
+  const stream = client.chat.completions
+    .stream(
+      // Usage only arrives with the last chunk when asked for
+      { ...toOpenAIParams(request, target), stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    )
+    .on('content', (delta) => {
+      text += delta
+      onToken({ text: delta, outputTokens: estimateTokens(text) })
+    })
+
+  const response = fromOpenAICompletion(target, await stream.finalChatCompletion())
+  onToken({ text: '', outputTokens: response.tokenUsage?.outputTokens || estimateTokens(text) })
+
+  return response
+}
+
+/**
+ * Map a conversation to Gemini contents (functionCall / functionResponse parts)
+ */
+export function toGeminiContents(messages: ReadonlyArray<ConversationMessage>): Content[] {
+  const contents: Content[] = []
+
+  for (const message of messages) {
+    if (message.toolResults?.length) {
+      contents.push({
+        role: 'function',
+        parts: message.toolResults.map((result) => ({
+          functionResponse: {
+            name: result.name,
+            response: result.isError ? { error: result.content } : { content: result.content },
+          },
+        })),
+      })
+
+      if (!message.content) {
+        continue
+      }
+    }
+
+    // Gemini calls the assistant side of the conversation "model"
+    contents.push({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [
+        ...(message.content ? [{ text: message.content }] : []),
+        ...(message.toolCalls ?? []).map((call) => ({
+          functionCall: { name: call.name, args: call.arguments },
+        })),
+      ],
+    })
+  }
+
+  return contents
+}
+
+/**
+ * JSON Schema in the OpenAPI subset Gemini accepts: no additionalProperties
+ * or $schema, and every property typed (untyped ones become strings)
+ */
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema)
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema
+  }
+
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => key !== 'additionalProperties' && key !== '$schema')
+      .map(([key, value]) => [
+        key,
+        key === 'properties' && value && typeof value === 'object'
+          ? Object.fromEntries(
+              Object.entries(value).map(([name, property]) => [
+                name,
+                toGeminiSchema(
+                  property && typeof property === 'object' && !('type' in property)
+                    ? { type: 'string', ...property }
+                    : property
+                ),
+              ])
+            )
+          : toGeminiSchema(value),
+      ])
+  )
+}
+
+/**
+ * Gemini model configured for a request
+ */
+function getGeminiModel(request: LLMRequest, target: ResolvedModel): GenerativeModel {
+  const genAI = new GoogleGenerativeAI(getAPIKey(target))
+
+  return genAI.getGenerativeModel(
+    {
+      model: target.model,
+      generationConfig: {
+        temperature: request.temperature ?? 0.7,
+        maxOutputTokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        // Gemini can't combine a response schema with function calling
+        ...(request.responseSchema && !request.tools?.length
+          ? {
+              responseMimeType: 'application/json',
+              responseSchema: toGeminiSchema(request.responseSchema) as unknown as ResponseSchema,
+            }
+          : {}),
+      },
+      systemInstruction: request.systemPrompt,
+      tools: request.tools?.length
+        ? [
+            {
+              functionDeclarations: request.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters as unknown as FunctionDeclarationSchema,
+              })),
+            },
+          ]
+        : undefined,
+      toolConfig:
+        request.toolChoice === 'none' && request.tools?.length
+          ? { functionCallingConfig: { mode: FunctionCallingMode.NONE } }
+          : undefined,
+    },
+    { baseUrl: target.config.baseURL }
+  )
+}
+
+/**
+ * Map a Gemini response to a response
+ */
+function fromGeminiResponse(
+  target: ResolvedModel,
+  response: EnhancedGenerateContentResponse
+): LLMResponse {
   const content = response.text()
+  // Gemini has no call ids; number the calls within the response
+  const toolCalls = (response.functionCalls() ?? []).map((call, index) => ({
+    id: `${call.name}-${index}`,
+    name: call.name,
+    arguments: call.args as Record<string, unknown>,
+  }))
 
   // Note: Gemini doesn't provide detailed token usage in all cases
   const inputTokens = response.usageMetadata?.promptTokenCount || 0
   const outputTokens = response.usageMetadata?.candidatesTokenCount || 0
+  const cachedInputTokens = response.usageMetadata?.cachedContentTokenCount
 
   return {
     content,
-    tokenUsage: {
-      inputTokens,
-      outputTokens,
-      totalTokens: inputTokens + outputTokens,
-      estimatedCost: calculateGoogleCost(request.model, inputTokens, outputTokens),
-    },
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    tokenUsage: toTokenUsage(target, inputTokens, outputTokens, { cachedInputTokens }),
   }
 }
 
 /**
- * Calculate Anthropic cost
- * Pricing as of 2026 (approximate)
+ * Call Google API (Gemini models)
  */
-function calculateAnthropicCost(model: string, inputTokens: number, outputTokens: number): number {
-  const defaultRates = { input: 3 / 1_000_000, output: 15 / 1_000_000 }
-  const pricing: Record<string, { input: number; output: number }> = {
-    'claude-opus-4.5': { input: 15 / 1_000_000, output: 75 / 1_000_000 },
-    'claude-sonnet-4.5': defaultRates,
-    'claude-haiku-4.5': { input: 0.25 / 1_000_000, output: 1.25 / 1_000_000 },
-  }
+async function callGoogle(request: LLMRequest, target: ResolvedModel): Promise<LLMResponse> {
+  const contents = toGeminiContents(getRequestMessages(request))
 
-  const rates = pricing[model] ?? defaultRates
-  return inputTokens * rates.input + outputTokens * rates.output
+  const result = await getGeminiModel(request, target).generateContent(
+    { contents },
+    { signal: request.signal }
+  )
+
+  return fromGeminiResponse(target, result.response)
 }
 
 /**
- * Calculate OpenAI cost
- * Pricing as of 2026 (approximate)
+ * Stream from Google API (Gemini models)
  */
-function calculateOpenAICost(model: string, inputTokens: number, outputTokens: number): number {
-  const defaultRates = { input: 5 / 1_000_000, output: 15 / 1_000_000 }
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gpt-5.2-medium': defaultRates,
-    'gpt-5.2-mini': { input: 1 / 1_000_000, output: 3 / 1_000_000 },
+async function streamGoogle(
+  request: LLMRequest,
+  target: ResolvedModel,
+  onToken: (delta: LLMTokenDelta) => void
+): Promise<LLMResponse> {
+  const contents = toGeminiContents(getRequestMessages(request))
+
+  const result = await getGeminiModel(request, target).generateContentStream(
+    { contents },
+    { signal: request.signal }
+  )
+
+  let text = ''
+  for await (const chunk of result.stream) {
+    // Chunks with only function calls have no text
+    const delta = chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('') ?? ''
+    text += delta
+    if (delta) {
+      onToken({
+        text: delta,
+        outputTokens: chunk.usageMetadata?.candidatesTokenCount || estimateTokens(text),
+      })
+    }
   }
 
-  const rates = pricing[model] ?? defaultRates
-  return inputTokens * rates.input + outputTokens * rates.output
+  const response = fromGeminiResponse(target, await result.response)
+  onToken({ text: '', outputTokens: response.tokenUsage?.outputTokens || estimateTokens(text) })
+
+  return response
 }
 
 /**
- * Calculate Google cost
- * Pricing as of 2026 (approximate)
+ * Mock providers by provider config, so rule counts last across calls
  */
-function calculateGoogleCost(model: string, inputTokens: number, outputTokens: number): number {
-  const defaultRates = { input: 2.5 / 1_000_000, output: 10 / 1_000_000 }
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gemini-3-pro': defaultRates,
-    'gemini-3-flash': { input: 0.15 / 1_000_000, output: 0.6 / 1_000_000 },
+const mockProviders = new WeakMap<ResolvedModel['config'], Promise<MockProvider>>()
+
+/**
+ * Call the mock provider (scripted responses)
+ */
+async function callMock(request: LLMRequest, target: ResolvedModel): Promise<LLMResponse> {
+  let mock = mockProviders.get(target.config)
+  if (!mock) {
+    mock = loadMockProvider(target.config.mockFile ?? '')
+    mockProviders.set(target.config, mock)
   }
 
-  const rates = pricing[model] ?? defaultRates
-  return inputTokens * rates.input + outputTokens * rates.output
+  const messages = getRequestMessages(request)
+  const prompt = [...messages].reverse().find((message) => message.role === 'user')?.content ?? ''
+  const content = await (await mock).respond(
+    {
+      agent: request.agent,
+      action: request.action,
+      model: target.model,
+      systemPrompt: request.systemPrompt,
+      prompt,
+      structured: request.responseSchema !== undefined,
+    },
+    request.signal
+  )
+
+  const inputTokens = estimateTokens(
+    (request.systemPrompt ?? '') + messages.map((message) => message.content).join('')
+  )
+  const tokenUsage = toTokenUsage(target, inputTokens, estimateTokens(content))
+  request.onToken?.({ text: content, outputTokens: tokenUsage.outputTokens })
+
+  return { content, tokenUsage }
 }
 
 /**
- * Call LLM with automatic provider routing
+ * Send a request to the provider serving its model
  */
-export async function callLLM(request: LLMRequest): Promise<LLMResponse> {
-  const provider = getProviderFromModel(request.model)
+async function callProvider(request: LLMRequest, target: ResolvedModel): Promise<LLMResponse> {
+  const { provider } = target
+  const { onToken } = request
+
+  if (request.signal?.aborted) {
+    throw new Error(`LLM API call aborted (${provider})`)
+  }
 
   try {
-    switch (provider) {
+    switch (target.config.kind) {
       case 'anthropic':
-        return await callAnthropic(request)
+        return await (onToken
+          ? streamAnthropic(request, target, onToken)
+          : callAnthropic(request, target))
       case 'openai':
-        return await callOpenAI(request)
+      case 'openai-compatible':
+        return await (onToken ? streamOpenAI(request, target, onToken) : callOpenAI(request, target))
       case 'google':
-        return await callGoogle(request)
+        return await (onToken ? streamGoogle(request, target, onToken) : callGoogle(request, target))
+      case 'mock':
+        return await callMock(request, target)
       default:
-        throw new Error(`Unsupported provider: ${provider}`)
+        throw new Error(`Unsupported provider kind: ${String(target.config.kind)}`)
     }
   } catch (error) {
     if (error instanceof Error) {
       // Re-throw with more context
-      throw new Error(`LLM API call failed (${provider}): ${error.message}`)
+      throw new Error(`LLM API call failed (${provider}): ${error.message}`, { cause: error })
+    }
+    throw error
+  }
+}
+
+/**
+ * Send a request through the provider's rate limiter
+ *
+ * A retry-after on a failed call holds the provider's later calls.
+ */
+async function callLimited(
+  request: LLMRequest,
+  target: ResolvedModel,
+  providers: ProviderRegistry
+): Promise<LLMResponse> {
+  const limiter = providers.limiter(target.provider)
+  const inputTokens = estimateTokens(
+    (request.systemPrompt ?? '') +
+      getRequestMessages(request)
+        .map((message) => message.content)
+        .join('')
+  )
+
+  if (request.onBeforeCall) {
+    const outputTokens = request.maxTokens || DEFAULT_MAX_TOKENS
+    request.onBeforeCall({
+      model: request.model,
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      estimatedCost: calculateCost(target.pricing, inputTokens, outputTokens),
+    })
+  }
+
+  const slot = await limiter.acquire(inputTokens, request.signal)
+  if (slot.waited > 0) {
+    request.onQueueWait?.(slot.waited)
+  }
+
+  try {
+    const response = withStructuredContent(request, await callProvider(request, target))
+    slot.release(response.tokenUsage?.totalTokens)
+    return response
+  } catch (error) {
+    slot.release()
+    const retryAfter = getRetryAfter(error)
+    if (retryAfter !== undefined) {
+      limiter.pause(retryAfter)
     }
     throw error
   }
 }
 
+/**
+ * Record/replay mode, with CREW_LLM_MODE overriding the configured mode
+ */
+export function getLLMMode(replay?: ReplayConfig): LLMMode {
+  const mode = process.env.CREW_LLM_MODE
+  if (!mode) {
+    return replay?.mode ?? 'live'
+  }
+  if (!LLM_MODES.includes(mode as LLMMode)) {
+    throw new Error(`Invalid CREW_LLM_MODE "${mode}" (expected ${LLM_MODES.join(', ')})`)
+  }
+  return mode as LLMMode
+}
+
+/**
+ * Hash of a request's model, system prompt and messages (plus `extra` fields)
+ *
+ * Durations such as "in 1234ms" are masked so timings recorded in the
+ * workflow history don't change the hash between runs.
+ */
+export function hashRequest(request: LLMRequest, extra: Record<string, unknown> = {}): string {
+  const mask = (text: string): string => text.replace(/\b\d+(\.\d+)?ms\b/g, '<ms>')
+  const messages = getRequestMessages(request).map((message) => ({
+    ...message,
+    content: mask(message.content),
+  }))
+
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        model: request.model,
+        systemPrompt: request.systemPrompt ? mask(request.systemPrompt) : null,
+        messages,
+        // Only structured requests carry a schema, so older keys stay valid
+        ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+        ...extra,
+      })
+    )
+    .digest('hex')
+}
+
+/**
+ * Cassette key of a request: a hash of the model, system prompt, messages and response schema
+ */
+export function getCassetteKey(request: LLMRequest): string {
+  return hashRequest(request)
+}
+
+/**
+ * Read a recorded response, or undefined if there is none
+ */
+function readCassette(path: string): LLMResponse | undefined {
+  if (!existsSync(path)) {
+    return undefined
+  }
+  return (JSON.parse(readFileSync(path, 'utf-8')) as Cassette).response
+}
+
+/**
+ * Record a request and its response
+ */
+function writeCassette(path: string, key: string, request: LLMRequest, response: LLMResponse): void {
+  const cassette: Cassette = {
+    key,
+    model: request.model,
+    systemPrompt: request.systemPrompt,
+    messages: getRequestMessages(request),
+    response,
+  }
+
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`, 'utf-8')
+}
+
+/**
+ * Serve a recorded response, streaming its content in one delta
+ */
+function replayResponse(request: LLMRequest, response: LLMResponse): LLMResponse {
+  if (request.onToken) {
+    request.onToken({
+      text: response.content,
+      outputTokens: response.tokenUsage?.outputTokens ?? estimateTokens(response.content),
+    })
+  }
+  return response
+}
+
+/**
+ * Call LLM with automatic provider routing
+ *
+ * The model id is resolved through `providers` (built-in providers by
+ * default). Streams the response when `request.onToken` is set.
+ *
+ * With the registry's replay settings (or CREW_LLM_MODE), calls are recorded
+ * to cassette files ('record') or served from them ('replay').
+ */
+export async function callLLM(
+  request: LLMRequest,
+  providers: ProviderRegistry = createProviderRegistry()
+): Promise<LLMResponse> {
+  const target = providers.resolve(request.model)
+  const mode = getLLMMode(providers.replay)
+
+  if (mode === 'live') {
+    return callLimited(request, target, providers)
+  }
+
+  const dir = providers.replay?.dir ?? DEFAULT_CASSETTE_DIR
+  const key = getCassetteKey(request)
+  const path = join(dir, `${key}.json`)
+
+  if (mode === 'replay') {
+    const recorded = readCassette(path)
+    if (recorded) {
+      return replayResponse(request, recorded)
+    }
+    if (providers.replay?.strict ?? true) {
+      throw new Error(`No recorded LLM response for ${request.model} (cassette ${key} in ${dir})`)
+    }
+  }
+
+  const response = await callLimited(request, target, providers)
+  writeCassette(path, key, request, response)
+  return response
+}
+
 /**
  * Validate API keys are configured
  */
@@ -0,0 +1,247 @@
+import { readFileSync } from 'node:fs'
+import { extname, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { z } from 'zod'
+import type { AgentRole } from './types'
+
+/**
+ * Mock LLM Provider
+ *
+ * Serves scripted responses so workflows can be exercised end to end without
+ * API calls. Rules come from a JSON file or a script module and are matched
+ * in order against each call's agent, task action and prompt; a rule can
+ * return canned `<output>` blocks, fail with an error or wait first.
+ */
+
+/**
+ * A regular expression source, checked when the rules are loaded
+ */
+const RegExpSourceSchema = z.string().superRefine((source, ctx) => {
+  try {
+    new RegExp(source, 'i')
+  } catch (error) {
+    ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+/**
+ * Reply of a rule: what the mock returns (or throws) for a call
+ */
+export const MockReplySchema = z.object({
+  // Raw response text, sent before the output blocks
+  content: z.string().optional(),
+  // Outputs sent as <output name="..."> blocks (objects as type="json")
+  outputs: z.record(z.string(), z.unknown()).optional(),
+  // Fail the call; `status` is the HTTP status seen by fallback classification,
+  // `retryAfter` the seconds sent as a retry-after header
+  error: z
+    .union([
+      z.string().min(1),
+      z.object({
+        message: z.string().min(1),
+        status: z.number().int().optional(),
+        retryAfter: z.number().min(0).optional(),
+      }),
+    ])
+    .optional(),
+  // Milliseconds to wait before replying
+  delay: z.number().int().min(0).optional(),
+})
+
+export type MockReply = z.infer<typeof MockReplySchema>
+
+/**
+ * A rule: which calls it matches and its reply
+ */
+export const MockRuleSchema = MockReplySchema.extend({
+  // Only calls from this agent
+  agent: z.enum(['pm', 'ta', 'fe', 'design', 'qa']).optional(),
+  // Regular expression (case-insensitive) the task action must match
+  action: RegExpSourceSchema.optional(),
+  // Regular expression (case-insensitive) the latest user message must match
+  prompt: RegExpSourceSchema.optional(),
+  // Only the first N matching calls; later calls fall through to the next rules
+  times: z.number().int().min(1).optional(),
+})
+
+export type MockRule = z.infer<typeof MockRuleSchema>
+
+/**
+ * Rules file: `{ "rules": [...] }` (a bare array of rules also works)
+ */
+const MockRulesFileSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { rules: value } : value),
+  z.object({ rules: z.array(MockRuleSchema) })
+)
+
+/**
+ * A call as seen by a mock script
+ */
+export interface MockCall {
+  agent?: AgentRole
+  action?: string
+  /** Model name after the provider prefix */
+  model: string
+  systemPrompt?: string
+  /** Latest user message */
+  prompt: string
+  /** The call asked for structured output: `outputs` replies are sent as a JSON object */
+  structured?: boolean
+  /** Number of this call to the mock, starting at 1 */
+  call: number
+}
+
+/**
+ * Script handler: the reply for a call, or undefined when it has none
+ */
+export type MockHandler = (call: MockCall) => MockReply | undefined | Promise<MockReply | undefined>
+
+/**
+ * Extensions loaded as script modules rather than JSON
+ */
+const SCRIPT_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.ts', '.mts'])
+
+/**
+ * Wait for a delay, rejecting if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Mock call aborted'))
+      return
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(new Error('Mock call aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Format outputs as the <output> blocks agents are asked to send
+ */
+export function formatMockOutputs(outputs: Record<string, unknown>): string {
+  return Object.entries(outputs)
+    .map(([name, value]) => {
+      if (value !== null && typeof value === 'object') {
+        return `<output name="${name}" type="json">${JSON.stringify(value)}</output>`
+      }
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        return `<output name="${name}" type="${typeof value}">${value}</output>`
+      }
+      return `<output name="${name}">${String(value)}</output>`
+    })
+    .join('\n')
+}
+
+/**
+ * Scripted provider that answers calls from rules or a handler
+ */
+export class MockProvider {
+  private calls = 0
+  /** Times each rule has matched, by rule index */
+  private matched = new Map<number, number>()
+
+  constructor(private readonly source: ReadonlyArray<MockRule> | MockHandler) {}
+
+  /**
+   * Reply to a call, throwing if no rule matches or the reply is an error
+   */
+  async respond(call: Omit<MockCall, 'call'>, signal?: AbortSignal): Promise<string> {
+    const numbered: MockCall = { ...call, call: ++this.calls }
+    const reply =
+      typeof this.source === 'function' ? await this.source(numbered) : this.match(numbered)
+
+    if (!reply) {
+      throw new Error(
+        `No mock rule matches call ${numbered.call}${call.agent ? ` from ${call.agent}` : ''}${
+          call.action ? `: ${call.action}` : ''
+        }`
+      )
+    }
+
+    if (reply.delay) {
+      await delay(reply.delay, signal)
+    }
+
+    if (reply.error) {
+      const { message, status, retryAfter } =
+        typeof reply.error === 'string' ? { message: reply.error } : reply.error
+      throw Object.assign(
+        new Error(message),
+        status === undefined ? {} : { status },
+        retryAfter === undefined ? {} : { headers: { 'retry-after': String(retryAfter) } }
+      )
+    }
+
+    if (call.structured && reply.outputs) {
+      return JSON.stringify(reply.outputs)
+    }
+
+    return [reply.content, reply.outputs ? formatMockOutputs(reply.outputs) : undefined]
+      .filter((part): part is string => part !== undefined && part !== '')
+      .join('\n\n')
+  }
+
+  /**
+   * First rule matching a call, counting it against the rule's `times`
+   */
+  private match(call: MockCall): MockRule | undefined {
+    const rules = this.source as ReadonlyArray<MockRule>
+
+    for (const [index, rule] of rules.entries()) {
+      const count = this.matched.get(index) ?? 0
+      if (rule.times !== undefined && count >= rule.times) continue
+      if (rule.agent && rule.agent !== call.agent) continue
+      if (rule.action && !new RegExp(rule.action, 'i').test(call.action ?? '')) continue
+      if (rule.prompt && !new RegExp(rule.prompt, 'i').test(call.prompt)) continue
+
+      this.matched.set(index, count + 1)
+      return rule
+    }
+
+    return undefined
+  }
+}
+
+/**
+ * Load a mock provider from a JSON rules file or a script module
+ *
+ * A script's default export (or `rules` export) is an array of rules or a
+ * handler function.
+ */
+export async function loadMockProvider(path: string): Promise<MockProvider> {
+  const absolutePath = resolve(path)
+
+  try {
+    if (SCRIPT_EXTENSIONS.has(extname(absolutePath))) {
+      const module = (await import(pathToFileURL(absolutePath).href)) as {
+        default?: unknown
+        rules?: unknown
+      }
+      const exported = module.default ?? module.rules
+
+      if (typeof exported === 'function') {
+        return new MockProvider(exported as MockHandler)
+      }
+      return new MockProvider(MockRulesFileSchema.parse(exported).rules)
+    }
+
+    const parsed: unknown = JSON.parse(readFileSync(absolutePath, 'utf-8'))
+    return new MockProvider(MockRulesFileSchema.parse(parsed).rules)
+  } catch (error) {
+    const message =
+      error instanceof z.ZodError
+        ? error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')
+        : error instanceof Error
+          ? error.message
+          : String(error)
+    throw new Error(`Invalid mock file ${path}: ${message}`)
+  }
+}
@@ -1,3 +1,4 @@
+import { resolve } from 'node:path'
 import type {
   CrewConfig,
   SOPDefinition,
@@ -6,18 +7,37 @@ import type {
   Task,
   ExecutionPlan,
   WorkflowState,
+  WorkflowApproval,
   OrchestratorEvent,
   OrchestratorEventHandler,
   AgentError,
   IncidentReport,
 } from './types'
-import { createTaskFromStep, generateWorkflowId } from './types'
+import { createTaskFromStep, generateWorkflowId, getStepId } from './types'
+import { evaluateCondition } from './expression'
+import { createPlannedTasks, createPlanValidation, formatPlanInstruction } from './planner'
+import {
+  createSOPRegistry,
+  resolveStepDependencies,
+  validateSOPDefinition,
+  WORKFLOW_INPUTS,
+  type SOPRegistry,
+} from '../sop'
 import { ContextManager } from './context-manager'
 import { TaskQueue } from './task-queue'
 import { AgentRunner } from './agent-runner'
+import { createProviderRegistry } from './providers'
+import { ResponseCache } from './response-cache'
+import { BudgetTracker } from './budget'
+import { createAgentToolRegistry } from './agent-tools'
 import { IncidentReportManager } from './incident-report'
 import { WorkflowStorage } from './workflow-storage'
 
+/**
+ * How often a running workflow checks for stop requests from other processes (ms)
+ */
+const STOP_REQUEST_POLL_INTERVAL = 1000
+
 /**
  * Orchestrator - PM coordinator for multi-agent workflows
  *
@@ -39,13 +59,37 @@ export class Orchestrator {
   private eventHandlers: OrchestratorEventHandler[] = []
   private workflowState?: WorkflowState
   private projectPath: string
+  private sopRegistry?: SOPRegistry
+  private abortController?: AbortController
+  private stopRequest?: { action: 'cancel' | 'pause'; reason: string }
+  private pendingApproval?: WorkflowApproval
+  private budget = new BudgetTracker()
+  /** Set once the budget breach has its incident report */
+  private budgetReported = false
 
   constructor(config: CrewConfig, projectPath: string = process.cwd()) {
     this.config = config
     this.projectPath = projectPath
     this.contextManager = new ContextManager('', '', projectPath)
     this.taskQueue = new TaskQueue()
-    this.agentRunner = new AgentRunner(this.contextManager)
+    // Cassettes and mock rules files live in the project, like the response cache
+    const replay = config.replay && {
+      ...config.replay,
+      dir: resolve(projectPath, config.replay.dir),
+    }
+    const providerConfigs = Object.entries(config.providers ?? {}).map(([name, provider]) => {
+      const mockFile = provider.mockFile && resolve(projectPath, provider.mockFile)
+      return [name, mockFile ? { ...provider, mockFile } : provider] as const
+    })
+    const providers = createProviderRegistry(Object.fromEntries(providerConfigs), { replay })
+    this.agentRunner = new AgentRunner(
+      this.contextManager,
+      createAgentToolRegistry({ sandbox: config.sandbox, secretEnv: providers.apiKeyEnvs() }),
+      providers,
+      config.cache?.enabled
+        ? new ResponseCache(resolve(projectPath, config.cache.dir), config.cache.ttl)
+        : undefined
+    )
     this.incidentReportManager = new IncidentReportManager(
       config.incidentReport,
       projectPath
@@ -58,22 +102,16 @@ export class Orchestrator {
    */
   async execute(
     userRequest: string,
-    sopName: 'feature' | 'bugfix' | 'refactor' = 'feature',
+    sopName: string = 'feature',
     projectPath: string = process.cwd()
   ): Promise<WorkflowState> {
     const workflowId = generateWorkflowId()
 
     // Update project path if different
-    if (projectPath !== this.projectPath) {
-      this.projectPath = projectPath
-      this.incidentReportManager = new IncidentReportManager(
-        this.config.incidentReport,
-        projectPath
-      )
-    }
+    this.setProjectPath(projectPath)
 
     // Initialize context
-    this.contextManager = new ContextManager(sopName, userRequest, projectPath)
+    this.bindContext(new ContextManager(sopName, userRequest, projectPath, workflowId))
 
     // Emit workflow start event
     this.emit({
@@ -82,9 +120,16 @@ export class Orchestrator {
       sopName,
     })
 
-    try {
-      // Step 1: Get SOP definition
+    return this.runWorkflow(workflowId, async () => {
+      // Step 1: Get SOP definition and lint its data flow
       const sop = this.getSOP(sopName)
+      const validation = validateSOPDefinition(sop)
+
+      if (!validation.valid) {
+        throw new Error(`Invalid SOP "${sop.name}":\n  ${validation.errors.join('\n  ')}`)
+      }
+
+      this.seedWorkflowInputs(userRequest, projectPath, sopName)
 
       // Step 2: Create execution plan
       const plan = this.createExecutionPlan(sop, workflowId)
@@ -106,11 +151,203 @@ export class Orchestrator {
 
       // Step 4: Add tasks to queue
       this.taskQueue.addTasks(plan.tasks)
+    })
+  }
+
+  /**
+   * Resume an interrupted workflow from its persisted state
+   *
+   * Completed and skipped tasks keep their outputs; pending, running and
+   * failed tasks are reset and executed again.
+   */
+  async resume(workflowId: string): Promise<WorkflowState> {
+    const savedState = await this.workflowStorage.load(workflowId)
+
+    if (!savedState) {
+      throw new Error(`Workflow not found: ${workflowId}`)
+    }
+
+    if (savedState.status === 'completed') {
+      throw new Error(`Workflow already completed: ${workflowId}`)
+    }
+
+    if (savedState.status === 'awaiting-approval') {
+      throw new Error(
+        `Workflow ${workflowId} is awaiting approval of ${savedState.approval?.taskId}; approve or reject it first`
+      )
+    }
+
+    // Restore context (outputs, artifacts, history) from persistence
+    if (savedState.context.projectPath) {
+      this.setProjectPath(savedState.context.projectPath)
+    }
+    this.bindContext(ContextManager.import(savedState.context))
+
+    // Rebuild the queue, re-queueing everything that did not finish
+    const tasks = savedState.tasks.map((task) => this.prepareTaskForResume(task))
+    const remainingTasks = tasks.filter((task) => task.status === 'pending').length
+
+    this.emit({
+      type: 'workflow:resume',
+      workflowId,
+      sopName: savedState.sopName,
+      remainingTasks,
+    })
+
+    return this.runWorkflow(workflowId, async () => {
+      this.workflowState = {
+        ...savedState,
+        status: 'running',
+        tasks,
+        context: this.contextManager.getContext(),
+        completedAt: undefined,
+        error: undefined,
+        approval: undefined,
+      }
+
+      await this.workflowStorage.save(this.workflowState)
+      await this.workflowStorage.clearStopRequest(workflowId)
+
+      this.taskQueue.reset()
+      this.taskQueue.addTasks(tasks)
+    })
+  }
+
+  /**
+   * Approve the step a workflow is waiting on and continue the run
+   *
+   * `outputs` replaces the step's outputs (e.g. a human-edited plan) before
+   * downstream agents see them.
+   */
+  async approve(
+    workflowId: string,
+    options: { outputs?: Record<string, unknown>; comment?: string } = {}
+  ): Promise<WorkflowState> {
+    const { state, approval, task } = await this.loadPendingApproval(workflowId)
+    const context = ContextManager.import(state.context)
+    const edited = Object.keys(options.outputs ?? {})
+
+    for (const [name, value] of Object.entries(options.outputs ?? {})) {
+      if (!approval.outputs.includes(name)) {
+        throw new Error(`Task ${approval.taskId} has no output "${name}"`)
+      }
+      context.setOutput(name, value)
+    }
+
+    const summary = edited.length > 0 ? `Approved with edits to ${edited.join(', ')}` : 'Approved'
+    context.addHistoryEntry(
+      task.agent,
+      task.action,
+      'completed',
+      options.comment ? `${summary}: ${options.comment}` : summary
+    )
+
+    await this.workflowStorage.save({
+      ...state,
+      status: 'paused',
+      tasks: state.tasks.map((t) => (t.id === task.id ? { ...t, approvedAt: new Date() } : t)),
+      context: context.getContext(),
+      approval: undefined,
+    })
+
+    return this.resume(workflowId)
+  }
+
+  /**
+   * Reject the step a workflow is waiting on and stop the run
+   *
+   * The step goes back to pending, so a resumed run executes it again.
+   */
+  async reject(workflowId: string, reason: string = 'Rejected by user'): Promise<WorkflowState> {
+    const { state, task } = await this.loadPendingApproval(workflowId)
+    const context = ContextManager.import(state.context)
+
+    context.addHistoryEntry(task.agent, task.action, 'failed', `Rejected: ${reason}`)
+
+    const tasks = state.tasks.map((t) =>
+      t.id === task.id ? { ...t, status: 'pending' as const, completedAt: undefined } : t
+    )
+
+    const rejectedState: WorkflowState = {
+      ...state,
+      status: 'cancelled',
+      currentStep: tasks.filter((t) => t.status === 'completed').length,
+      tasks,
+      context: context.getContext(),
+      completedAt: new Date(),
+      approval: undefined,
+    }
+
+    await this.workflowStorage.save(rejectedState)
+
+    this.emit({ type: 'workflow:cancel', workflowId, reason: `Rejected: ${reason}` })
+
+    return rejectedState
+  }
+
+  /**
+   * Load a workflow that is waiting for approval
+   */
+  private async loadPendingApproval(
+    workflowId: string
+  ): Promise<{ state: WorkflowState; approval: WorkflowApproval; task: Task }> {
+    const state = await this.workflowStorage.load(workflowId)
 
-      // Step 5: Execute tasks
+    if (!state) {
+      throw new Error(`Workflow not found: ${workflowId}`)
+    }
+
+    const approval = state.approval
+    if (state.status !== 'awaiting-approval' || !approval) {
+      throw new Error(`Workflow is not awaiting approval (status: ${state.status})`)
+    }
+
+    const task = state.tasks.find((t) => t.id === approval.taskId)
+    if (!task) {
+      throw new Error(`Task not found: ${approval.taskId}`)
+    }
+
+    return { state, approval, task }
+  }
+
+  /**
+   * Run a prepared workflow to completion and persist its final state
+   */
+  private async runWorkflow(
+    workflowId: string,
+    prepare: () => Promise<void>
+  ): Promise<WorkflowState> {
+    this.abortController = new AbortController()
+    this.stopRequest = undefined
+    this.pendingApproval = undefined
+    const stopWatcher = this.watchStopRequests(workflowId)
+
+    try {
+      await prepare()
+
+      if (!this.workflowState) {
+        throw new Error('Workflow state not initialized')
+      }
+
+      // Budgets count the spending of earlier runs of the workflow
+      this.budget = this.createBudgetTracker()
+      this.budget.restore(this.workflowState.tokenUsage, this.workflowState.agentTokenUsage)
+      this.budgetReported = false
+
+      // Execute tasks
       await this.executeTasks()
 
-      // Step 6: Finalize workflow
+      // Cancelled or paused: persist partial progress instead of finalizing
+      if (this.stopRequest) {
+        return await this.stopWorkflow(workflowId)
+      }
+
+      // A step needs human sign-off before downstream agents run
+      if (this.pendingApproval) {
+        return await this.awaitApproval(workflowId)
+      }
+
+      // Finalize workflow
       const finalState = this.finalizeWorkflow()
 
       // Save final workflow state
@@ -125,13 +362,20 @@ export class Orchestrator {
 
       return finalState
     } catch (error) {
-      const agentError = this.createAgentError(error)
+      if (this.stopRequest && this.workflowState) {
+        return await this.stopWorkflow(workflowId)
+      }
+
+      // A refused call fails the workflow with the budget breach
+      const agentError = this.budget.toAgentError() ?? this.createAgentError(error)
 
       // Update workflow state
       if (this.workflowState) {
         this.workflowState = {
           ...this.workflowState,
           status: 'failed',
+          tasks: [...this.taskQueue.getAllTasks()],
+          context: this.contextManager.getContext(),
           error: agentError,
           completedAt: new Date(),
         }
@@ -148,14 +392,204 @@ export class Orchestrator {
       })
 
       throw error
+    } finally {
+      clearInterval(stopWatcher)
+      this.abortController = undefined
+    }
+  }
+
+  /**
+   * Cancel the running workflow
+   *
+   * In-flight agent calls are aborted and their tasks return to pending, so
+   * the persisted run can be resumed later.
+   */
+  cancel(reason: string = 'Cancelled by user'): void {
+    if (!this.abortController) {
+      return
+    }
+
+    this.stopRequest = { action: 'cancel', reason }
+    this.abortController.abort(reason)
+  }
+
+  /**
+   * Pause the running workflow once in-flight tasks finish
+   */
+  pause(reason: string = 'Paused by user'): void {
+    if (!this.abortController || this.stopRequest) {
+      return
+    }
+
+    this.stopRequest = { action: 'pause', reason }
+  }
+
+  /**
+   * Poll storage for stop requests written by other processes
+   */
+  private watchStopRequests(workflowId: string): ReturnType<typeof setInterval> {
+    const timer = setInterval(() => {
+      this.workflowStorage
+        .getStopRequest(workflowId)
+        .then((request) => {
+          if (!request) {
+            return
+          }
+
+          if (request.action === 'pause') {
+            this.pause(request.reason)
+          } else {
+            this.cancel(request.reason)
+          }
+        })
+        .catch(() => {
+          // Ignore unreadable requests; the next poll will retry
+        })
+    }, STOP_REQUEST_POLL_INTERVAL)
+
+    // Don't keep the process alive just for polling
+    timer.unref?.()
+
+    return timer
+  }
+
+  /**
+   * Persist a cancelled or paused workflow with its partial outputs
+   */
+  private async stopWorkflow(workflowId: string): Promise<WorkflowState> {
+    if (!this.workflowState || !this.stopRequest) {
+      throw new Error('Workflow state not initialized')
+    }
+
+    const { action, reason } = this.stopRequest
+
+    const stoppedState: WorkflowState = {
+      ...this.workflowState,
+      status: action === 'pause' ? 'paused' : 'cancelled',
+      currentStep: this.taskQueue.getCompletedTasks().length,
+      tasks: [...this.taskQueue.getAllTasks()],
+      context: this.contextManager.getContext(),
+      completedAt: action === 'cancel' ? new Date() : undefined,
+    }
+
+    this.workflowState = stoppedState
+
+    await this.workflowStorage.save(stoppedState)
+    await this.workflowStorage.clearStopRequest(workflowId)
+
+    this.emit(
+      action === 'pause'
+        ? { type: 'workflow:pause', workflowId, reason }
+        : { type: 'workflow:cancel', workflowId, reason }
+    )
+
+    return stoppedState
+  }
+
+  /**
+   * Persist a workflow that waits for a human to approve a step
+   */
+  private async awaitApproval(workflowId: string): Promise<WorkflowState> {
+    if (!this.workflowState || !this.pendingApproval) {
+      throw new Error('Workflow state not initialized')
     }
+
+    const approval = this.pendingApproval
+
+    const waitingState: WorkflowState = {
+      ...this.workflowState,
+      status: 'awaiting-approval',
+      currentStep: this.taskQueue.getCompletedTasks().length,
+      tasks: [...this.taskQueue.getAllTasks()],
+      context: this.contextManager.getContext(),
+      approval,
+    }
+
+    this.workflowState = waitingState
+
+    await this.workflowStorage.save(waitingState)
+
+    this.emit({ type: 'workflow:awaiting-approval', workflowId, approval })
+
+    return waitingState
+  }
+
+  /**
+   * Find the next completed step that still needs approval and hold the run
+   *
+   * Returns true when the workflow has to wait.
+   */
+  private holdForApproval(): boolean {
+    const task = this.taskQueue
+      .getAllTasks()
+      .find((t) => t.approval && t.status === 'completed' && !t.approvedAt && !t.iterationOf)
+
+    if (task) {
+      this.pendingApproval = {
+        taskId: task.id,
+        agent: task.agent,
+        outputs: [...task.expectedOutputs],
+        requestedAt: new Date(),
+      }
+    }
+
+    return this.pendingApproval !== undefined
+  }
+
+  /**
+   * Reset an unfinished task so it runs again on resume
+   */
+  private prepareTaskForResume(task: Task): Task {
+    if (task.status === 'completed' || task.status === 'skipped') {
+      return task
+    }
+
+    return {
+      ...task,
+      status: 'pending',
+      retryCount: 0,
+      startedAt: undefined,
+      completedAt: undefined,
+      error: undefined,
+    }
+  }
+
+  /**
+   * Switch the orchestrator (and its runner) to a workflow context
+   */
+  private bindContext(contextManager: ContextManager): void {
+    this.contextManager = contextManager
+    this.agentRunner.setContextManager(contextManager)
+  }
+
+  /**
+   * Update project path (and path-bound managers) if different
+   */
+  private setProjectPath(projectPath: string): void {
+    if (projectPath === this.projectPath) {
+      return
+    }
+
+    this.projectPath = projectPath
+    this.sopRegistry = undefined
+    this.incidentReportManager = new IncidentReportManager(
+      this.config.incidentReport,
+      projectPath
+    )
   }
 
   /**
    * Execute all tasks in the queue
    */
   private async executeTasks(): Promise<void> {
-    while (!this.taskQueue.isComplete() && !this.taskQueue.hasFailed()) {
+    while (!this.stopRequest && !this.holdForApproval()) {
+      // Add tasks from (approved) dynamic plans before scheduling
+      await this.expandPlans()
+
+      if (this.taskQueue.isComplete() || this.taskQueue.hasFailed()) {
+        break
+      }
+
       // Get next executable tasks
       const executableTasks = this.taskQueue.getNextExecutableTasks()
 
@@ -172,6 +606,11 @@ export class Orchestrator {
       await Promise.all(promises)
     }
 
+    // Stopping or waiting for approval is not a failure; unfinished tasks stay pending
+    if (this.stopRequest || this.pendingApproval) {
+      return
+    }
+
     // Check if any tasks failed
     if (this.taskQueue.hasFailed()) {
       const failedTasks = this.taskQueue.getFailedTasks()
@@ -183,6 +622,13 @@ export class Orchestrator {
    * Execute a single task
    */
   private async executeTask(task: Task): Promise<void> {
+    // Skip conditional steps whose condition doesn't hold
+    if (task.when && !evaluateCondition(task.when, this.contextManager.getAllOutputs())) {
+      this.skipTask(task, `Condition not met: ${task.when}`)
+      await this.updateWorkflowState()
+      return
+    }
+
     // Mark task as running
     this.taskQueue.updateTaskStatus(task.id, 'running')
 
@@ -199,12 +645,14 @@ export class Orchestrator {
 
       if (!agentConfig.enabled) {
         // Skip disabled agents
-        this.taskQueue.updateTaskStatus(task.id, 'skipped')
+        this.skipTask(task, `Agent ${task.agent} is disabled`)
         return
       }
 
       // Execute task with retry
       const result = await this.agentRunner.executeWithRetry(task, agentConfig, {
+        signal: this.abortController?.signal,
+        budget: this.budget,
         onProgress: (phase, message, percentage) => {
           this.emit({
             type: 'agent:progress',
@@ -217,8 +665,25 @@ export class Orchestrator {
             },
           })
         },
+        onToken: (delta) => {
+          this.emit({
+            type: 'agent:token',
+            taskId: task.id,
+            agent: task.agent,
+            text: delta.text,
+            outputTokens: delta.outputTokens,
+          })
+        },
       })
 
+      if (this.workflowState) {
+        this.workflowState = {
+          ...this.workflowState,
+          tokenUsage: this.budget.total,
+          agentTokenUsage: this.budget.byAgent,
+        }
+      }
+
       if (result.success) {
         // Mark task as completed
         this.taskQueue.updateTaskStatus(task.id, 'completed')
@@ -232,15 +697,28 @@ export class Orchestrator {
           taskId: task.id,
           result,
         })
+
+        // Loop back (e.g. QA rejected the implementation) while iterations remain
+        if (task.loop) {
+          await this.evaluateLoop(task, result.outputs)
+        }
+      } else if (this.stopRequest) {
+        // Interrupted by cancel: leave it for a resumed run
+        this.taskQueue.updateTaskStatus(task.id, 'pending')
       } else {
+        // Calls refused by the budget fail the task with the breach
+        const budgetError = this.budget.toAgentError()
+        const error = budgetError ?? result.error
+
         // Mark task as failed
-        if (result.error) {
-          this.taskQueue.markTaskFailed(task.id, new Error(result.error.message))
+        if (error) {
+          this.taskQueue.markTaskFailed(task.id, new Error(error.message))
         }
 
-        // Create and save incident report
-        if (this.config.incidentReport.enabled && result.error) {
-          const report = await this.createAndSaveIncidentReport(task, result.error)
+        // Create and save incident report (one for a budget breach, however many tasks it stopped)
+        if (this.config.incidentReport.enabled && error && !(budgetError && this.budgetReported)) {
+          this.budgetReported = !!budgetError
+          const report = await this.createAndSaveIncidentReport(task, error)
           this.emit({
             type: 'incident:created',
             report,
@@ -251,16 +729,21 @@ export class Orchestrator {
         this.emit({
           type: 'task:fail',
           taskId: task.id,
-          error: result.error || {
+          error: error || {
             code: 'UNKNOWN_ERROR',
             message: 'Task failed',
             recoverable: false,
           },
         })
 
-        throw new Error(`Task ${task.id} failed: ${result.error?.message}`)
+        throw new Error(`Task ${task.id} failed: ${error?.message}`)
       }
     } catch (error) {
+      if (this.stopRequest) {
+        this.taskQueue.updateTaskStatus(task.id, 'pending')
+        return
+      }
+
       // Mark task as failed
       this.taskQueue.markTaskFailed(
         task.id,
@@ -272,10 +755,14 @@ export class Orchestrator {
   }
 
   /**
-   * Get SOP definition
+   * Get SOP definition (built-in, config override or SOP file)
    */
-  private getSOP(sopName: 'feature' | 'bugfix' | 'refactor'): SOPDefinition {
-    const sop = this.config.sop[sopName]
+  private getSOP(sopName: string): SOPDefinition {
+    if (!this.sopRegistry) {
+      this.sopRegistry = createSOPRegistry({ projectPath: this.projectPath, config: this.config })
+    }
+
+    const sop = this.sopRegistry.get(sopName)
 
     if (!sop) {
       throw new Error(`SOP not found: ${sopName}`)
@@ -284,31 +771,158 @@ export class Orchestrator {
     return sop
   }
 
+  /**
+   * Mark a task as skipped and record why
+   */
+  private skipTask(task: Task, reason: string): void {
+    this.taskQueue.updateTaskStatus(task.id, 'skipped')
+    this.contextManager.addHistoryEntry(task.agent, task.action, 'skipped', reason)
+
+    this.emit({
+      type: 'task:skip',
+      taskId: task.id,
+      agent: task.agent,
+      reason,
+    })
+  }
+
+  /**
+   * Start another iteration of a task's loop if its condition holds
+   *
+   * The condition sees all workflow outputs, plus the task's own outputs
+   * under its agent name (e.g. `qa.quality_assessment.pass`).
+   */
+  private async evaluateLoop(task: Task, outputs: Record<string, unknown>): Promise<void> {
+    const loop = task.loop
+    if (!loop) {
+      return
+    }
+
+    const scope = { ...this.contextManager.getAllOutputs(), [task.agent]: outputs }
+    if (!evaluateCondition(loop.when, scope)) {
+      return
+    }
+
+    const iteration = task.iteration ?? 1
+    if (iteration >= loop.maxIterations) {
+      this.contextManager.addHistoryEntry(
+        task.agent,
+        task.action,
+        'completed',
+        `Loop limit reached after ${iteration} iteration(s); continuing`
+      )
+      return
+    }
+
+    const rerun = this.taskQueue.startIteration(task.id)
+
+    if (this.workflowState) {
+      // Snapshots of the previous iteration count as completed steps
+      this.workflowState = {
+        ...this.workflowState,
+        totalSteps: this.workflowState.totalSteps + rerun.length,
+      }
+    }
+    await this.updateWorkflowState()
+
+    this.emit({
+      type: 'task:loop',
+      taskId: task.id,
+      gotoTaskId: loop.gotoTaskId,
+      iteration: iteration + 1,
+      maxIterations: loop.maxIterations,
+    })
+  }
+
+  /**
+   * Expand completed planning tasks into the tasks of their plan
+   *
+   * An invalid plan fails the planning task, so a resumed run asks the PM again.
+   */
+  private async expandPlans(): Promise<void> {
+    const tasks = this.taskQueue.getAllTasks()
+    const planners = tasks.filter(
+      (t) =>
+        t.planner &&
+        t.status === 'completed' &&
+        !t.iterationOf &&
+        !tasks.some((other) => other.plannedBy === t.id)
+    )
+
+    for (const planner of planners) {
+      const rawPlan = this.contextManager.getAllOutputs()[this.config.planning.output]
+
+      let planned: Task[]
+      try {
+        planned = createPlannedTasks(
+          rawPlan,
+          planner,
+          this.config.planning,
+          this.contextManager.getWorkflowId()
+        )
+      } catch (error) {
+        const planError = error instanceof Error ? error : new Error(String(error))
+        this.taskQueue.markTaskFailed(planner.id, planError)
+        throw new Error(`Task ${planner.id} failed: ${planError.message}`)
+      }
+
+      if (planned.length === 0) {
+        continue
+      }
+
+      this.taskQueue.insertAfter(planner.id, planned)
+      this.contextManager.addHistoryEntry(
+        planner.agent,
+        planner.action,
+        'completed',
+        `Plan added ${planned.length} task(s): ${planned.map((t) => t.id).join(', ')}`
+      )
+
+      if (this.workflowState) {
+        this.workflowState = {
+          ...this.workflowState,
+          totalSteps: this.workflowState.totalSteps + planned.length,
+        }
+      }
+      await this.updateWorkflowState()
+
+      this.emit({
+        type: 'plan:expand',
+        taskId: planner.id,
+        addedTasks: planned.map((t) => t.id),
+      })
+    }
+  }
+
+  /**
+   * Make workflow-supplied inputs available to the first steps
+   */
+  private seedWorkflowInputs(userRequest: string, projectPath: string, sopName: string): void {
+    for (const input of WORKFLOW_INPUTS) {
+      if (input === 'project_context' || input === 'codebase') {
+        this.contextManager.setData(input, { projectPath, sopName })
+      } else {
+        this.contextManager.setData(input, userRequest)
+      }
+    }
+  }
+
   /**
    * Create execution plan from SOP
    */
   private createExecutionPlan(sop: SOPDefinition, workflowId: string): ExecutionPlan {
     const tasks: Task[] = []
 
+    // Explicit `dependsOn` wins; otherwise steps wait for all lower-order steps
+    // not marked as parallel with them
+    const stepDependencies = resolveStepDependencies(sop)
+
     // Convert SOP steps to tasks
     for (const step of sop.steps) {
       const task = createTaskFromStep(step, workflowId)
-
-      // Add dependencies based on step order
-      // Tasks with the same order can run in parallel (if marked as parallel)
-      // Tasks with higher order depend on all lower order tasks
-      const dependsOn: string[] = []
-
-      for (const prevStep of sop.steps) {
-        if (prevStep.order < step.order) {
-          const prevTaskId = `${workflowId}-${prevStep.order}-${prevStep.agent}`
-
-          // Only add dependency if not explicitly marked as parallel
-          if (!step.parallel || !step.parallel.includes(prevStep.agent)) {
-            dependsOn.push(prevTaskId)
-          }
-        }
-      }
+      const dependsOn = (stepDependencies.get(getStepId(step)) ?? []).map(
+        (stepId) => `${workflowId}-${stepId}`
+      )
 
       tasks.push({
         ...task,
@@ -316,6 +930,22 @@ export class Orchestrator {
       })
     }
 
+    // Opt-in: the first PM step producing the plan output returns a structured plan
+    const planning = this.config.planning
+    const plannerIndex = planning.enabled
+      ? tasks.findIndex((t) => t.agent === 'pm' && t.expectedOutputs.includes(planning.output))
+      : -1
+    const plannerTask = tasks[plannerIndex]
+
+    if (plannerTask) {
+      tasks[plannerIndex] = {
+        ...plannerTask,
+        action: `${plannerTask.action}\n\n${formatPlanInstruction(planning)}`,
+        validation: createPlanValidation(planning, plannerTask.validation),
+        planner: true,
+      }
+    }
+
     // Calculate critical path (longest path through dependencies)
     const criticalPath = this.calculateCriticalPath(tasks)
 
@@ -427,6 +1057,16 @@ export class Orchestrator {
     return report
   }
 
+  /**
+   * Budget tracker with the workflow budget and each agent's budget
+   */
+  private createBudgetTracker(): BudgetTracker {
+    const agentBudgets = Object.fromEntries(
+      Object.entries(this.config.crew).map(([agent, agentConfig]) => [agent, agentConfig.budget])
+    )
+    return new BudgetTracker(this.config.budget, agentBudgets)
+  }
+
   /**
    * Create agent error from exception
    */
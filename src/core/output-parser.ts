@@ -225,6 +225,44 @@ export function formatOutputs(outputs: ParsedOutput): string {
   return lines.join('\n')
 }
 
+/**
+ * JSON Schema of a step's outputs, for provider-native structured output
+ *
+ * One required property per expected output, typed by the step's validation
+ * schema when it has one; other outputs take any JSON value.
+ */
+export function createOutputSchema(
+  expectedOutputs: ReadonlyArray<string>,
+  schemas: Readonly<Record<string, Record<string, unknown>>> = {}
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+
+  for (const key of expectedOutputs) {
+    properties[key] = schemas[key] ?? { description: `Your ${key}` }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: [...expectedOutputs],
+    additionalProperties: false,
+  }
+}
+
+/**
+ * Output instructions for structured output mode (for agent prompts)
+ */
+export function formatStructuredOutputInstruction(expectedOutputs: ReadonlyArray<string>): string {
+  return `
+## Output Format
+
+Answer with a JSON object that has one property per output: ${expectedOutputs.join(', ')}.
+
+To create or change files, put <file path="..."> or <patch path="..."> blocks (unified diffs)
+inside the output values that describe the change.
+`.trim()
+}
+
 /**
  * Extract outputs in XML format (for agent prompts)
  */
@@ -246,5 +284,18 @@ You can optionally specify types:
 - <output name="key" type="json">{"data": "value"}</output>
 - <output name="key" type="number">42</output>
 - <output name="key" type="boolean">true</output>
+
+To change part of an existing file, send a unified diff instead of the whole file:
+
+<patch path="src/example.ts">
+@@ -10,3 +10,3 @@
+ unchanged line
+-old line
++new line
+ unchanged line
+</patch>
+
+Keep a few unchanged context lines around each change so the patch applies cleanly.
+Use <file path="..."> for new files and full rewrites.
 `.trim()
 }
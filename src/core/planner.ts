@@ -0,0 +1,138 @@
+import { z } from 'zod'
+import type { PlanningConfig, SOPStepValidation } from '../config'
+import type { Task } from './types'
+import { createTaskFromStep } from './types'
+import { findDependencyCycle } from './task-queue'
+
+/**
+ * Dynamic Plans
+ *
+ * With `planning.enabled`, the first PM step that outputs `planning.output`
+ * returns a structured plan. Its tasks are added to the queue right after
+ * the planning step, bounded by `planning.maxTasks` and
+ * `planning.allowedAgents`.
+ */
+
+/**
+ * A single task in a PM-generated plan
+ */
+export const PlannedTaskSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, "-" and "_" only'),
+  agent: z.enum(['pm', 'ta', 'fe', 'design', 'qa']),
+  action: z.string().min(1),
+  inputs: z.array(z.string()).default([]),
+  outputs: z.array(z.string()).default([]),
+  // Ids of other tasks in the same plan
+  dependsOn: z.array(z.string()).default([]),
+})
+
+export type PlannedTask = z.infer<typeof PlannedTaskSchema>
+
+/**
+ * Build the plan schema for a planning configuration (agent and size limits)
+ */
+export function createDynamicPlanSchema(planning: PlanningConfig) {
+  return z.object({
+    tasks: z
+      .array(
+        PlannedTaskSchema.extend({
+          agent: z.enum(planning.allowedAgents as [PlannedTask['agent'], ...PlannedTask['agent'][]]),
+        })
+      )
+      .max(planning.maxTasks),
+  })
+}
+
+export type DynamicPlan = z.infer<ReturnType<typeof createDynamicPlanSchema>>
+
+/**
+ * Instruction appended to the planning step's action
+ */
+export function formatPlanInstruction(planning: PlanningConfig): string {
+  return [
+    `Return ${planning.output} as JSON: { "tasks": [{ "id", "agent", "action", "inputs", "outputs", "dependsOn" }] }.`,
+    `Use at most ${planning.maxTasks} tasks, only these agents: ${planning.allowedAgents.join(', ')}.`,
+    `"dependsOn" lists ids of other tasks in the plan; return an empty list if no extra tasks are needed.`,
+  ].join(' ')
+}
+
+/**
+ * Validation gate that makes the planning step return a well-formed plan
+ */
+export function createPlanValidation(
+  planning: PlanningConfig,
+  existing?: SOPStepValidation
+): SOPStepValidation {
+  const schema = z.toJSONSchema(createDynamicPlanSchema(planning), { io: 'input' })
+
+  return {
+    ...existing,
+    schema: { ...existing?.schema, [planning.output]: schema as Record<string, unknown> },
+  }
+}
+
+/**
+ * Turn a plan into queue tasks that run after the planning task
+ *
+ * Throws if the plan is malformed, references unknown tasks or has cycles.
+ */
+export function createPlannedTasks(
+  rawPlan: unknown,
+  plannerTask: Task,
+  planning: PlanningConfig,
+  workflowId: string
+): Task[] {
+  const result = createDynamicPlanSchema(planning).safeParse(rawPlan)
+
+  if (!result.success) {
+    throw new Error(
+      `Invalid plan: ${result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')}`
+    )
+  }
+
+  const plan = result.data
+  const ids = new Set<string>()
+
+  for (const planned of plan.tasks) {
+    if (ids.has(planned.id)) {
+      throw new Error(`Invalid plan: duplicate task id "${planned.id}"`)
+    }
+    ids.add(planned.id)
+  }
+
+  for (const planned of plan.tasks) {
+    for (const depId of planned.dependsOn) {
+      if (!ids.has(depId)) {
+        throw new Error(`Invalid plan: task "${planned.id}" depends on unknown task "${depId}"`)
+      }
+    }
+  }
+
+  const cycle = findDependencyCycle(new Map(plan.tasks.map((t) => [t.id, t.dependsOn])))
+  if (cycle) {
+    throw new Error(`Invalid plan: circular dependency between tasks: ${cycle.join(' -> ')}`)
+  }
+
+  return plan.tasks.map((planned) => {
+    const task = createTaskFromStep(
+      {
+        id: `plan-${planned.id}`,
+        order: 1,
+        agent: planned.agent,
+        action: planned.action,
+        inputs: planned.inputs,
+        outputs: planned.outputs,
+      },
+      workflowId
+    )
+
+    return {
+      ...task,
+      dependsOn:
+        planned.dependsOn.length > 0
+          ? planned.dependsOn.map((depId) => `${workflowId}-plan-${depId}`)
+          : [plannerTask.id],
+      plannedBy: plannerTask.id,
+    }
+  })
+}
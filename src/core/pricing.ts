@@ -0,0 +1,75 @@
+import type { ModelPricing, ModelPricingEntry } from '../config'
+
+/**
+ * Pricing
+ *
+ * Model prices come from the versioned table in src/config/pricing.json,
+ * overridden by each provider's `pricing` config. A model may have dated
+ * prices; a call is priced at the latest set in effect on the day it is made.
+ */
+
+/**
+ * Prompt-cache token counts of a call, included in its input tokens
+ */
+export interface CacheTokens {
+  /** Input tokens read from the provider's prompt cache */
+  readonly cachedInputTokens?: number
+  /** Input tokens written to the provider's prompt cache */
+  readonly cacheWriteTokens?: number
+}
+
+/**
+ * Prices in effect on a date (undefined if none are effective yet)
+ *
+ * Undated prices are always in effect; among dated ones the latest
+ * `effectiveFrom` on or before the date wins.
+ */
+export function selectPricing(
+  entry: ModelPricingEntry | undefined,
+  date: Date = new Date()
+): ModelPricing | undefined {
+  if (!entry || !Array.isArray(entry)) {
+    return entry
+  }
+
+  const day = date.toISOString().slice(0, 10)
+  let selected: ModelPricing | undefined
+
+  for (const pricing of entry) {
+    const from = pricing.effectiveFrom ?? ''
+    if (from <= day && (!selected || from >= (selected.effectiveFrom ?? ''))) {
+      selected = pricing
+    }
+  }
+
+  return selected
+}
+
+/**
+ * Cost in USD of a call (zero without pricing)
+ *
+ * `inputTokens` includes cached and cache-write tokens, which are charged at
+ * their own rates when the pricing has them.
+ */
+export function calculateCost(
+  pricing: ModelPricing | undefined,
+  inputTokens: number,
+  outputTokens: number,
+  cache: CacheTokens = {}
+): number {
+  if (!pricing) {
+    return 0
+  }
+
+  const cachedInput = cache.cachedInputTokens ?? 0
+  const cacheWrite = cache.cacheWriteTokens ?? 0
+  const uncachedInput = Math.max(0, inputTokens - cachedInput - cacheWrite)
+
+  return (
+    (uncachedInput * pricing.input +
+      cachedInput * (pricing.cachedInput ?? pricing.input) +
+      cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+      outputTokens * pricing.output) /
+    1_000_000
+  )
+}
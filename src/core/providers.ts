@@ -0,0 +1,198 @@
+import { DEFAULT_PRICING, type ModelPricing, type ProviderConfig, type ReplayConfig } from '../config'
+import { selectPricing } from './pricing'
+import { RateLimiter } from './rate-limiter'
+
+/**
+ * Provider Registry
+ *
+ * Maps model ids to the provider that serves them. Ids are
+ * "<provider>/<model>" (e.g. "ollama/llama3.1:8b"); built-in model names
+ * such as "claude-sonnet-4.5" are shorthand for their built-in provider.
+ */
+
+/**
+ * Providers available without configuration
+ *
+ * Prices come from the built-in price table (see DEFAULT_PRICING).
+ */
+export const BUILTIN_PROVIDERS: Record<string, ProviderConfig> = {
+  anthropic: {
+    kind: 'anthropic',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    pricing: DEFAULT_PRICING.providers.anthropic,
+  },
+  openai: {
+    kind: 'openai',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    pricing: DEFAULT_PRICING.providers.openai,
+  },
+  google: {
+    kind: 'google',
+    apiKeyEnv: 'GOOGLE_API_KEY',
+    pricing: DEFAULT_PRICING.providers.google,
+  },
+}
+
+/**
+ * Prefixes of built-in model names and the provider serving them
+ */
+const BUILTIN_MODEL_PREFIXES: ReadonlyArray<[string, string]> = [
+  ['claude-', 'anthropic'],
+  ['gpt-', 'openai'],
+  ['gemini-', 'google'],
+]
+
+/**
+ * A model id resolved to its provider
+ */
+export interface ResolvedModel {
+  /** Model id as requested, e.g. "ollama/llama3.1:8b" or "claude-sonnet-4.5" */
+  readonly id: string
+  /** Provider name, e.g. "ollama" */
+  readonly provider: string
+  /** Model name sent to the provider's API */
+  readonly model: string
+  readonly config: ProviderConfig
+  /** Prices in effect today (undefined means the model is free or unpriced) */
+  readonly pricing?: ModelPricing
+  /**
+   * The provider has prices but none for this model, or needs an API key
+   * (a paid service) but has no prices, so its cost is unknown (reported as 0)
+   */
+  readonly unpriced: boolean
+}
+
+/**
+ * Registry of LLM providers
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, ProviderConfig>()
+  private limiters = new Map<string, RateLimiter>()
+
+  /** Record/replay settings for calls through this registry */
+  readonly replay?: ReplayConfig
+
+  constructor(options?: { replay?: ReplayConfig }) {
+    this.replay = options?.replay
+  }
+
+  /**
+   * Register a provider (replaces a provider with the same name)
+   */
+  register(name: string, config: ProviderConfig): void {
+    this.providers.set(name, config)
+    this.limiters.delete(name)
+  }
+
+  /**
+   * Get a provider by name
+   */
+  get(name: string): ProviderConfig | undefined {
+    return this.providers.get(name)
+  }
+
+  /**
+   * Check if a provider is registered
+   */
+  has(name: string): boolean {
+    return this.providers.has(name)
+  }
+
+  /**
+   * Registered provider names
+   */
+  names(): string[] {
+    return [...this.providers.keys()]
+  }
+
+  /**
+   * Environment variables holding the registered providers' API keys
+   */
+  apiKeyEnvs(): string[] {
+    const names = [...this.providers.values()].map((config) => config.apiKeyEnv)
+    return [...new Set(names.filter((name): name is string => !!name))]
+  }
+
+  /**
+   * Rate limiter shared by all calls to a provider through this registry
+   */
+  limiter(name: string): RateLimiter {
+    let limiter = this.limiters.get(name)
+    if (!limiter) {
+      limiter = new RateLimiter(this.providers.get(name)?.rateLimit)
+      this.limiters.set(name, limiter)
+    }
+    return limiter
+  }
+
+  /**
+   * Resolve a model id to its provider
+   *
+   * Throws if the provider is not registered.
+   */
+  resolve(modelId: string): ResolvedModel {
+    const slash = modelId.indexOf('/')
+    let provider: string
+    let model: string
+
+    if (slash > 0) {
+      provider = modelId.substring(0, slash)
+      model = modelId.substring(slash + 1)
+    } else {
+      const prefix = BUILTIN_MODEL_PREFIXES.find(([p]) => modelId.startsWith(p))
+      if (!prefix) {
+        throw new Error(`Unknown model provider for: ${modelId}`)
+      }
+      provider = prefix[1]
+      model = modelId
+    }
+
+    const config = this.providers.get(provider)
+    if (!config) {
+      throw new Error(
+        `Unknown provider "${provider}" for model ${modelId}. Available: ${this.names().join(', ')}`
+      )
+    }
+
+    const pricing = selectPricing(config.pricing?.[model] ?? config.pricing?.['*'])
+
+    return {
+      id: modelId,
+      provider,
+      model,
+      config,
+      pricing,
+      unpriced:
+        !pricing && (Object.keys(config.pricing ?? {}).length > 0 || config.apiKeyEnv !== undefined),
+    }
+  }
+}
+
+/**
+ * Create a registry with the built-in providers plus configured ones
+ *
+ * A configured provider with a built-in name is merged over the built-in
+ * (its pricing entries replace the built-in prices of the same models).
+ */
+export function createProviderRegistry(
+  providers: Record<string, ProviderConfig> = {},
+  options?: { replay?: ReplayConfig }
+): ProviderRegistry {
+  const registry = new ProviderRegistry(options)
+
+  for (const [name, config] of Object.entries(BUILTIN_PROVIDERS)) {
+    registry.register(name, config)
+  }
+
+  for (const [name, config] of Object.entries(providers)) {
+    const builtin = BUILTIN_PROVIDERS[name]
+    registry.register(
+      name,
+      builtin
+        ? { ...builtin, ...config, pricing: { ...builtin.pricing, ...config.pricing } }
+        : config
+    )
+  }
+
+  return registry
+}
@@ -0,0 +1,194 @@
+import type { RateLimitConfig } from '../config'
+
+/**
+ * Rate Limiter
+ *
+ * Client-side limits for one provider: token buckets for requests and
+ * tokens per minute, and a cap on concurrent requests. Calls wait in a
+ * first-in, first-out queue until all limits allow them, so parallel steps
+ * don't trip the provider's own rate limits.
+ */
+
+/**
+ * A request admitted by the limiter
+ */
+export interface RateLimitSlot {
+  /** Milliseconds spent waiting in the queue */
+  readonly waited: number
+  /**
+   * Free the slot; `tokens` is the request's actual token count, correcting
+   * the estimate taken from the tokens-per-minute bucket
+   */
+  release(tokens?: number): void
+}
+
+/**
+ * Token bucket refilled continuously at `capacity` per minute
+ */
+class TokenBucket {
+  private level: number
+  private updatedAt = Date.now()
+
+  constructor(readonly capacity: number) {
+    this.level = capacity
+  }
+
+  /**
+   * Milliseconds until `amount` is available
+   */
+  waitFor(amount: number, now: number): number {
+    this.refill(now)
+    return amount <= this.level ? 0 : Math.ceil(((amount - this.level) * 60_000) / this.capacity)
+  }
+
+  /**
+   * Take `amount` out of the bucket (negative amounts give it back); the
+   * level can go below zero when usage exceeded the estimate
+   */
+  take(amount: number, now: number): void {
+    this.refill(now)
+    this.level = Math.min(this.capacity, this.level - amount)
+  }
+
+  private refill(now: number): void {
+    this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / 60_000)
+    this.updatedAt = now
+  }
+}
+
+/**
+ * A call waiting for a slot
+ */
+interface Waiter {
+  tokens: number
+  enqueuedAt: number
+  resolve: (slot: RateLimitSlot) => void
+  reject: (error: Error) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+/**
+ * Rate limiter of one provider
+ */
+export class RateLimiter {
+  private requests?: TokenBucket
+  private tokens?: TokenBucket
+  private maxConcurrency: number
+  private active = 0
+  private queue: Waiter[] = []
+  private pausedUntil = 0
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(limits: RateLimitConfig = {}) {
+    this.requests = limits.requestsPerMinute ? new TokenBucket(limits.requestsPerMinute) : undefined
+    this.tokens = limits.tokensPerMinute ? new TokenBucket(limits.tokensPerMinute) : undefined
+    this.maxConcurrency = limits.maxConcurrency ?? Infinity
+  }
+
+  /**
+   * Wait for a slot for a request of about `tokens` tokens
+   *
+   * Rejects if the signal aborts while waiting.
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<RateLimitSlot> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Aborted while waiting for the rate limit'))
+        return
+      }
+
+      const waiter: Waiter = {
+        // A request larger than the bucket would never fit; let it drain the bucket instead
+        tokens: this.tokens ? Math.min(tokens, this.tokens.capacity) : tokens,
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        signal,
+      }
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter((w) => w !== waiter)
+          reject(new Error('Aborted while waiting for the rate limit'))
+          this.pump()
+        }
+        signal.addEventListener('abort', waiter.onAbort, { once: true })
+      }
+
+      this.queue.push(waiter)
+      this.pump()
+    })
+  }
+
+  /**
+   * Hold all requests for `ms` (e.g. a provider's retry-after)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+    this.pump()
+  }
+
+  /**
+   * Requests waiting for a slot
+   */
+  get pending(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Admit queued requests in order while the limits allow
+   */
+  private pump(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+
+    while (this.queue.length > 0) {
+      const waiter = this.queue[0] as Waiter
+      const now = Date.now()
+
+      // A finished request frees the next concurrency slot and pumps again
+      if (this.active >= this.maxConcurrency) {
+        return
+      }
+
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.requests?.waitFor(1, now) ?? 0,
+        this.tokens?.waitFor(waiter.tokens, now) ?? 0
+      )
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.pump(), wait)
+        return
+      }
+
+      this.queue.shift()
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort)
+      }
+      this.requests?.take(1, now)
+      this.tokens?.take(waiter.tokens, now)
+      this.active++
+      waiter.resolve(this.createSlot(waiter, now))
+    }
+  }
+
+  private createSlot(waiter: Waiter, admittedAt: number): RateLimitSlot {
+    let released = false
+
+    return {
+      waited: admittedAt - waiter.enqueuedAt,
+      release: (tokens?: number) => {
+        if (released) {
+          return
+        }
+        released = true
+        this.active--
+        if (tokens !== undefined) {
+          this.tokens?.take(tokens - waiter.tokens, Date.now())
+        }
+        this.pump()
+      },
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { estimateTokens, hashRequest, type LLMRequest, type LLMResponse } from './llm-clients'
+
+/**
+ * Response Cache
+ *
+ * Content-addressed, on-disk cache in front of `callLLM`. Identical requests
+ * (see `getCacheKey`) are served from disk at no cost, so re-running a failed
+ * workflow doesn't pay again for the agents that already finished.
+ */
+
+/**
+ * A cached response
+ */
+interface CacheEntry {
+  key: string
+  model: string
+  /** When the response was stored (ms since epoch) */
+  createdAt: number
+  /** Times the entry has been served */
+  hits: number
+  response: LLMResponse
+}
+
+/**
+ * Summary of the cache contents
+ */
+export interface CacheStats {
+  entries: number
+  /** Entries past their TTL (removed on their next lookup or by `clear`) */
+  expired: number
+  hits: number
+  /** USD not spent thanks to hits, at the prices of the original calls */
+  savedCost: number
+  /** Disk usage in bytes */
+  size: number
+}
+
+/**
+ * Cache key of a request: a hash of the model, temperature, output token cap,
+ * tools and tool choice, system prompt, messages and response schema
+ */
+export function getCacheKey(request: LLMRequest): string {
+  return hashRequest(request, {
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+    tools: request.tools ?? null,
+    toolChoice: request.toolChoice ?? null,
+  })
+}
+
+/**
+ * On-disk LLM response cache
+ */
+export class ResponseCache {
+  constructor(
+    private readonly dir: string,
+    /** Entry lifetime in milliseconds */
+    private readonly ttl: number
+  ) {}
+
+  /**
+   * Serve a request from the cache, or make the call and cache its response
+   *
+   * Hits report zero-cost token usage marked `cached` and stream their
+   * content in one delta.
+   */
+  async fetch(request: LLMRequest, call: () => Promise<LLMResponse>): Promise<LLMResponse> {
+    const key = getCacheKey(request)
+    const entry = this.read(key)
+
+    if (entry) {
+      this.write({ ...entry, hits: entry.hits + 1 })
+
+      const { response } = entry
+      const tokenUsage = response.tokenUsage
+        ? { ...response.tokenUsage, estimatedCost: 0, cached: true }
+        : undefined
+      request.onToken?.({
+        text: response.content,
+        outputTokens: tokenUsage?.outputTokens ?? estimateTokens(response.content),
+      })
+
+      return { ...response, tokenUsage }
+    }
+
+    const response = await call()
+    this.write({ key, model: request.model, createdAt: Date.now(), hits: 0, response })
+    return response
+  }
+
+  /**
+   * Count entries, hits and the cost they saved
+   */
+  stats(): CacheStats {
+    const stats: CacheStats = { entries: 0, expired: 0, hits: 0, savedCost: 0, size: 0 }
+
+    for (const file of this.files()) {
+      const entry = this.load(file)
+      stats.size += statSync(file).size
+
+      if (!entry) continue
+      stats.entries++
+      stats.hits += entry.hits
+      stats.savedCost += entry.hits * (entry.response.tokenUsage?.estimatedCost ?? 0)
+      if (this.isExpired(entry)) {
+        stats.expired++
+      }
+    }
+
+    return stats
+  }
+
+  /**
+   * Remove all entries (or only expired ones), returning how many were removed
+   */
+  clear(options?: { expiredOnly?: boolean }): number {
+    let removed = 0
+
+    for (const file of this.files()) {
+      const entry = this.load(file)
+      if (options?.expiredOnly && entry && !this.isExpired(entry)) continue
+
+      rmSync(file, { force: true })
+      removed++
+    }
+
+    return removed
+  }
+
+  /**
+   * Entry for a key, removing it if it has expired
+   */
+  private read(key: string): CacheEntry | undefined {
+    const path = this.path(key)
+    const entry = existsSync(path) ? this.load(path) : undefined
+
+    if (entry && this.isExpired(entry)) {
+      rmSync(path, { force: true })
+      return undefined
+    }
+    return entry
+  }
+
+  private write(entry: CacheEntry): void {
+    mkdirSync(this.dir, { recursive: true })
+    writeFileSync(this.path(entry.key), `${JSON.stringify(entry, null, 2)}\n`, 'utf-8')
+  }
+
+  /**
+   * Parse an entry file (undefined if it is unreadable)
+   */
+  private load(path: string): CacheEntry | undefined {
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as CacheEntry
+    } catch {
+      return undefined
+    }
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.createdAt > this.ttl
+  }
+
+  private path(key: string): string {
+    return join(this.dir, `${key}.json`)
+  }
+
+  private files(): string[] {
+    if (!existsSync(this.dir)) {
+      return []
+    }
+    return readdirSync(this.dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => join(this.dir, file))
+  }
+}
@@ -0,0 +1,270 @@
+import { execFile, spawn } from 'node:child_process'
+import { existsSync, mkdtempSync, rmSync, symlinkSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { delimiter, join } from 'node:path'
+import type { SandboxConfig } from '../config'
+
+/**
+ * Command Sandbox
+ *
+ * Runs the commands agents ask for (tests, type checks) without handing them
+ * a shell: only allow-listed command prefixes run, with no shell syntax, a
+ * timeout, capped output and an environment without API keys or tokens.
+ */
+
+/**
+ * Shell syntax that is never allowed (commands run without a shell)
+ */
+const SHELL_SYNTAX_PATTERN = /[;&|`$<>(){}'"\\\n]/
+
+/**
+ * Environment variables removed before running a command (also any `*_KEY`)
+ */
+const SECRET_ENV_PATTERN = /API_?KEY|(^|_)KEY($|_)|TOKEN|SECRET|PASSWORD|CREDENTIAL/i
+
+/**
+ * Result of a sandboxed command
+ */
+export interface SandboxResult {
+  readonly command: string
+  readonly ok: boolean
+  readonly exitCode: number | null
+  readonly timedOut: boolean
+  /** Combined stdout and stderr (the end is kept when truncated) */
+  readonly output: string
+  readonly truncated: boolean
+  readonly duration: number
+}
+
+/**
+ * Copy of the environment without secrets, with the project's local binaries on PATH
+ *
+ * `secretEnv` names more variables to remove, e.g. the providers' `apiKeyEnv`.
+ */
+export function createSandboxEnv(
+  projectPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+  secretEnv: ReadonlyArray<string> = []
+): NodeJS.ProcessEnv {
+  const scrubbed = Object.fromEntries(
+    Object.entries(env).filter(
+      ([key]) => !SECRET_ENV_PATTERN.test(key) && !secretEnv.includes(key)
+    )
+  )
+  const bin = join(projectPath, 'node_modules', '.bin')
+
+  return {
+    ...scrubbed,
+    PATH: scrubbed.PATH ? `${bin}${delimiter}${scrubbed.PATH}` : bin,
+  }
+}
+
+/**
+ * Why a command can't run without a shell, or undefined if it can
+ */
+export function checkShellSyntax(command: string): string | undefined {
+  return SHELL_SYNTAX_PATTERN.test(command)
+    ? `Command "${command}" uses shell syntax, which the sandbox does not run`
+    : undefined
+}
+
+/**
+ * Run a command without a shell in an environment without secrets
+ *
+ * The command is split on whitespace; check it with `checkShellSyntax` first.
+ */
+export function spawnCommand(
+  command: string,
+  options: {
+    cwd: string
+    timeout: number
+    maxOutput: number
+    /** More environment variables to remove (see `createSandboxEnv`) */
+    secretEnv?: ReadonlyArray<string>
+    signal?: AbortSignal
+  }
+): Promise<SandboxResult> {
+  const [file = '', ...args] = command.trim().split(/\s+/)
+  const { cwd, timeout, maxOutput } = options
+  const startTime = Date.now()
+
+  return new Promise((resolve) => {
+    let output = ''
+    let truncated = false
+    let timedOut = false
+
+    const child = spawn(file, args, {
+      cwd,
+      env: createSandboxEnv(cwd, process.env, options.secretEnv),
+      signal: options.signal,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill('SIGKILL')
+    }, timeout)
+
+    const collect = (chunk: Buffer) => {
+      output += chunk.toString()
+      if (output.length > maxOutput) {
+        output = output.slice(-maxOutput)
+        truncated = true
+      }
+    }
+
+    child.stdout?.on('data', collect)
+    child.stderr?.on('data', collect)
+
+    let settled = false
+    const finish = (exitCode: number | null, error?: Error) => {
+      // 'close' can follow 'error'
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      if (error) {
+        output = `${output}${output ? '\n' : ''}${error.message}`
+      }
+      resolve({
+        command,
+        ok: exitCode === 0 && !timedOut,
+        exitCode,
+        timedOut,
+        output: output.trim(),
+        truncated,
+        duration: Date.now() - startTime,
+      })
+    }
+
+    child.on('error', (error) => finish(null, error))
+    child.on('close', (code) => finish(code))
+  })
+}
+
+/**
+ * Run git in a directory
+ */
+function git(args: string[], cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd }, (error, _stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`))
+        return
+      }
+      resolve()
+    })
+  })
+}
+
+/**
+ * CommandSandbox - Runs allow-listed commands for agents
+ */
+export class CommandSandbox {
+  private config: SandboxConfig
+  private secretEnv: ReadonlyArray<string>
+
+  /**
+   * `secretEnv` names environment variables to remove besides the usual
+   * secrets, e.g. the providers' `apiKeyEnv`
+   */
+  constructor(config: SandboxConfig, secretEnv: ReadonlyArray<string> = []) {
+    this.config = config
+    this.secretEnv = secretEnv
+  }
+
+  /**
+   * Why a command may not run, or undefined if it is allowed
+   */
+  check(command: string): string | undefined {
+    const shellSyntax = checkShellSyntax(command)
+    if (shellSyntax) {
+      return shellSyntax
+    }
+
+    const words = command.trim().split(/\s+/)
+    const allowed = this.config.allowedCommands.some((prefix) => {
+      const prefixWords = prefix.trim().split(/\s+/)
+      return prefixWords.every((word, i) => words[i] === word)
+    })
+
+    if (!allowed) {
+      return `Command "${command}" is not allowed. Allowed commands: ${this.config.allowedCommands.join(', ')}`
+    }
+
+    return undefined
+  }
+
+  /**
+   * Run a command in the project (or a scratch worktree of it)
+   *
+   * Throws if the command is not allowed or the worktree can't be created.
+   */
+  async run(
+    command: string,
+    options: { projectPath: string; timeout?: number; signal?: AbortSignal }
+  ): Promise<SandboxResult> {
+    const rejection = this.check(command)
+    if (rejection) {
+      throw new Error(rejection)
+    }
+
+    if (!this.config.worktree) {
+      return this.spawn(command, options.projectPath, options)
+    }
+
+    const worktree = mkdtempSync(join(tmpdir(), 'crew-opencode-sandbox-'))
+    try {
+      await git(['worktree', 'add', '--detach', worktree, 'HEAD'], options.projectPath)
+
+      // Reuse installed dependencies instead of installing into the worktree
+      const nodeModules = join(options.projectPath, 'node_modules')
+      if (existsSync(nodeModules)) {
+        symlinkSync(nodeModules, join(worktree, 'node_modules'), 'dir')
+      }
+
+      return await this.spawn(command, worktree, options)
+    } finally {
+      await git(['worktree', 'remove', '--force', worktree], options.projectPath).catch(() => {
+        rmSync(worktree, { recursive: true, force: true })
+      })
+    }
+  }
+
+  /**
+   * Spawn the command with the sandbox's limits
+   */
+  private spawn(
+    command: string,
+    cwd: string,
+    options: { timeout?: number; signal?: AbortSignal }
+  ): Promise<SandboxResult> {
+    return spawnCommand(command, {
+      cwd,
+      timeout: options.timeout ?? this.config.timeout,
+      maxOutput: this.config.maxOutput,
+      secretEnv: this.secretEnv,
+      signal: options.signal,
+    })
+  }
+}
+
+/**
+ * Describe a sandbox result for the agent
+ */
+export function formatSandboxResult(result: SandboxResult): string {
+  const status = result.timedOut
+    ? `Command timed out after ${result.duration}ms`
+    : result.exitCode === null
+      ? 'Command failed to start'
+      : `Exit code ${result.exitCode}`
+
+  const lines = [status]
+  if (result.truncated) {
+    lines.push('(earlier output truncated)')
+  }
+  if (result.output) {
+    lines.push(result.output)
+  }
+
+  return lines.join('\n')
+}
@@ -100,7 +100,7 @@ export class TaskQueue {
    *
    * A task is ready to run if:
    * - Status is 'pending'
-   * - All dependencies are completed
+   * - All dependencies are completed (or skipped)
    * - No parallel conflicts with currently running tasks
    */
   getNextExecutableTasks(): ReadonlyArray<Task> {
@@ -114,7 +114,7 @@ export class TaskQueue {
       if (task.dependsOn) {
         const allDependenciesMet = task.dependsOn.every((depId) => {
           const depTask = this.tasks.get(depId)
-          return depTask && depTask.status === 'completed'
+          return depTask && (depTask.status === 'completed' || depTask.status === 'skipped')
         })
 
         if (!allDependenciesMet) {
@@ -244,6 +244,116 @@ export class TaskQueue {
     }
   }
 
+  /**
+   * Insert tasks that run right after `afterTaskId`
+   *
+   * Tasks that depended on `afterTaskId` also wait for the inserted tasks
+   * that nothing else in the batch depends on.
+   */
+  insertAfter(afterTaskId: string, tasks: ReadonlyArray<Task>): void {
+    if (!this.tasks.has(afterTaskId)) {
+      throw new Error(`Task not found: ${afterTaskId}`)
+    }
+
+    for (const task of tasks) {
+      if (this.tasks.has(task.id)) {
+        throw new Error(`Task already exists: ${task.id}`)
+      }
+    }
+
+    const sinkIds = tasks
+      .filter((t) => !tasks.some((other) => other.dependsOn?.includes(t.id)))
+      .map((t) => t.id)
+
+    for (const task of Array.from(this.tasks.values())) {
+      if (task.dependsOn?.includes(afterTaskId)) {
+        this.tasks.set(task.id, { ...task, dependsOn: [...task.dependsOn, ...sinkIds] })
+      }
+    }
+
+    this.addTasks(tasks)
+  }
+
+  /**
+   * Start the next iteration of the loop declared on a task
+   *
+   * Every task from the loop target up to (and including) the looping task
+   * is snapshotted as `<id>#<iteration>` for history, then reset to pending
+   * so it runs again. The loop target gets the looping task's outputs as
+   * feedback. Returns the tasks that will re-run.
+   */
+  startIteration(taskId: string): ReadonlyArray<Task> {
+    const task = this.tasks.get(taskId)
+    if (!task?.loop) {
+      throw new Error(`Task has no loop: ${taskId}`)
+    }
+
+    const targetId = task.loop.gotoTaskId
+    if (!this.tasks.has(targetId)) {
+      throw new Error(`Task not found: ${targetId}`)
+    }
+
+    const iteration = (task.iteration ?? 1) + 1
+    const segment = this.getLoopSegment(targetId, taskId)
+
+    for (const segmentTask of segment) {
+      const previousIteration = segmentTask.iteration ?? 1
+      const snapshotId = `${segmentTask.id}#${previousIteration}`
+
+      this.tasks.set(snapshotId, {
+        ...segmentTask,
+        id: snapshotId,
+        loop: undefined,
+        iteration: previousIteration,
+        iterationOf: segmentTask.id,
+      })
+
+      this.tasks.set(segmentTask.id, {
+        ...segmentTask,
+        status: 'pending',
+        retryCount: 0,
+        startedAt: undefined,
+        completedAt: undefined,
+        error: undefined,
+        approvedAt: undefined,
+        iteration,
+        feedback: segmentTask.id === targetId ? [...task.expectedOutputs] : segmentTask.feedback,
+      })
+    }
+
+    return segment.map((t) => this.tasks.get(t.id) as Task)
+  }
+
+  /**
+   * Get tasks on dependency paths from `fromId` to `toId` (both included)
+   */
+  private getLoopSegment(fromId: string, toId: string): Task[] {
+    const upstreamOfTo = this.getAncestorIds(toId).add(toId)
+
+    return Array.from(this.tasks.values()).filter(
+      (t) => upstreamOfTo.has(t.id) && (t.id === fromId || this.getAncestorIds(t.id).has(fromId))
+    )
+  }
+
+  /**
+   * Get ids of all tasks a task transitively depends on
+   */
+  private getAncestorIds(taskId: string): Set<string> {
+    const ancestors = new Set<string>()
+    const pending = [taskId]
+
+    while (pending.length > 0) {
+      for (const depId of this.tasks.get(pending.pop() as string)?.dependsOn ?? []) {
+        if (!ancestors.has(depId)) {
+          ancestors.add(depId)
+          pending.push(depId)
+        }
+      }
+    }
+
+    return ancestors
+  }
+
   /**
    * Reset the queue (clear all tasks)
    */
@@ -268,34 +378,45 @@ export class TaskQueue {
    * Detect circular dependencies
    */
   hasCircularDependencies(): boolean {
-    const visited = new Set<string>()
-    const recursionStack = new Set<string>()
-
-    const hasCycle = (taskId: string): boolean => {
-      visited.add(taskId)
-      recursionStack.add(taskId)
-
-      const task = this.tasks.get(taskId)
-      if (task?.dependsOn) {
-        for (const depId of task.dependsOn) {
-          if (!visited.has(depId)) {
-            if (hasCycle(depId)) return true
-          } else if (recursionStack.has(depId)) {
-            return true
-          }
-        }
-      }
-
-      recursionStack.delete(taskId)
-      return false
-    }
+    return findDependencyCycle(this.getDependencyGraph()) !== null
+  }
+}
 
-    for (const taskId of this.tasks.keys()) {
-      if (!visited.has(taskId)) {
-        if (hasCycle(taskId)) return true
+/**
+ * Find a circular dependency in a dependency graph (node -> dependencies)
+ *
+ * Returns the nodes forming the cycle (first node repeated at the end),
+ * or null if the graph is acyclic. Dependencies on unknown nodes are ignored.
+ */
+export function findDependencyCycle(
+  graph: ReadonlyMap<string, ReadonlyArray<string>>
+): string[] | null {
+  const visited = new Set<string>()
+  const recursionStack: string[] = []
+
+  const visit = (nodeId: string): string[] | null => {
+    visited.add(nodeId)
+    recursionStack.push(nodeId)
+
+    for (const depId of graph.get(nodeId) ?? []) {
+      if (!visited.has(depId)) {
+        const cycle = visit(depId)
+        if (cycle) return cycle
+      } else if (recursionStack.includes(depId)) {
+        return [...recursionStack.slice(recursionStack.indexOf(depId)), depId]
       }
     }
 
-    return false
+    recursionStack.pop()
+    return null
   }
+
+  for (const nodeId of graph.keys()) {
+    if (!visited.has(nodeId)) {
+      const cycle = visit(nodeId)
+      if (cycle) return cycle
+    }
+  }
+
+  return null
 }
@@ -1,7 +1,7 @@
-import type { SOPStep, AgentConfig } from '../config'
+import type { SOPStep, SOPStepValidation, AgentConfig } from '../config'
 
 // Re-export config types for convenience
-export type { SOPStep, AgentConfig } from '../config'
+export type { SOPStep, SOPStepValidation, AgentConfig } from '../config'
 
 /**
  * Agent role identifiers
@@ -29,13 +29,38 @@ export interface Task {
   readonly expectedOutputs: ReadonlyArray<string>
   readonly parallelWith?: ReadonlyArray<string>
   readonly dependsOn?: ReadonlyArray<string>
+  readonly loop?: TaskLoop
+  readonly when?: string
+  readonly validation?: SOPStepValidation
+  /** Pause for human approval after the task completes */
+  readonly approval?: boolean
+  /** Returns the dynamic plan that is expanded into extra tasks */
+  readonly planner?: boolean
+  /** Set on tasks added from a dynamic plan; points at the planning task */
+  readonly plannedBy?: string
   status: TaskStatus
   priority: Priority
   retryCount: number
   maxRetries: number
   startedAt?: Date
   completedAt?: Date
+  approvedAt?: Date
   error?: Error
+  /** 1-based run number when the task is re-run by a loop */
+  iteration?: number
+  /** Outputs from the previous iteration to address (e.g. QA findings) */
+  feedback?: ReadonlyArray<string>
+  /** Set on snapshots of earlier iterations; points at the live task */
+  iterationOf?: string
+}
+
+/**
+ * Loop-back declared on a task: re-run from `gotoTaskId` while `when` holds
+ */
+export interface TaskLoop {
+  readonly when: string
+  readonly gotoTaskId: string
+  readonly maxIterations: number
 }
 
 /**
@@ -50,12 +75,69 @@ export interface AgentResult {
   readonly duration: number
   readonly tokenUsage?: TokenUsage
   readonly error?: AgentError
+  /** Model round trips used, at most the agent's `maxTurns` */
+  readonly turns?: number
+  /** Model that served the last call (differs from the first in the chain after a fallback) */
+  readonly model?: string
+}
+
+/**
+ * A message in an agent's conversation with its model
+ */
+export interface ConversationMessage {
+  readonly role: 'user' | 'assistant'
+  readonly content: string
+  /** Tools the assistant asked to run */
+  readonly toolCalls?: ReadonlyArray<ToolCall>
+  /** Results for the previous assistant message's tool calls */
+  readonly toolResults?: ReadonlyArray<ToolResult>
+}
+
+/**
+ * A tool call requested by a model
+ */
+export interface ToolCall {
+  readonly id: string
+  readonly name: string
+  readonly arguments: Record<string, unknown>
+}
+
+/**
+ * The result of a tool call, sent back to the model
+ */
+export interface ToolResult {
+  readonly toolCallId: string
+  readonly name: string
+  readonly content: string
+  readonly isError?: boolean
 }
 
 /**
  * Token usage tracking
  */
 export interface TokenUsage {
+  /** Model that served the calls (the last one when a fallback switched models) */
+  readonly model?: string
+  readonly inputTokens: number
+  readonly outputTokens: number
+  readonly totalTokens: number
+  readonly estimatedCost: number
+  /** Usage per model, when calls were served by more than one model */
+  readonly byModel?: Readonly<Record<string, TokenCounts>>
+  /** Served from the response cache (every call, when usage is summed) */
+  readonly cached?: boolean
+  /** Input tokens read from the provider's prompt cache (part of inputTokens) */
+  readonly cachedInputTokens?: number
+  /** Input tokens written to the provider's prompt cache (part of inputTokens) */
+  readonly cacheWriteTokens?: number
+  /** Models without pricing, whose calls are counted at zero cost */
+  readonly unpricedModels?: ReadonlyArray<string>
+}
+
+/**
+ * Token counts and cost of one model's calls
+ */
+export interface TokenCounts {
   readonly inputTokens: number
   readonly outputTokens: number
   readonly totalTokens: number
@@ -66,7 +148,8 @@ export interface TokenUsage {
  * Artifact produced by an agent
  */
 export interface Artifact {
-  readonly type: 'code' | 'file' | 'document' | 'test' | 'report'
+  /** 'patch' artifacts hold a unified diff for `path` */
+  readonly type: 'code' | 'file' | 'document' | 'test' | 'report' | 'patch'
   readonly name: string
   readonly path?: string
   readonly content?: string
@@ -95,6 +178,8 @@ export interface ExecutionContext {
   outputs: Record<string, unknown>
   artifacts: Artifact[]
   history: ExecutionHistoryEntry[]
+  /** Latest agent conversation per task id */
+  transcripts?: Record<string, ReadonlyArray<ConversationMessage>>
 }
 
 /**
@@ -114,7 +199,14 @@ export interface ExecutionHistoryEntry {
 export interface WorkflowState {
   readonly id: string
   readonly sopName: string
-  readonly status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+  readonly status:
+    | 'pending'
+    | 'running'
+    | 'paused'
+    | 'awaiting-approval'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
   readonly currentStep: number
   readonly totalSteps: number
   readonly tasks: Task[]
@@ -122,6 +214,31 @@ export interface WorkflowState {
   readonly startedAt: Date
   completedAt?: Date
   error?: AgentError
+  /** Set while the workflow waits for a human to approve a step */
+  approval?: WorkflowApproval
+  /** Tokens and cost of all agent calls so far */
+  tokenUsage?: TokenUsage
+  /** Tokens and cost so far by agent */
+  agentTokenUsage?: Partial<Record<AgentRole, TokenUsage>>
+}
+
+/**
+ * Pending human approval of a completed step's outputs
+ */
+export interface WorkflowApproval {
+  readonly taskId: string
+  readonly agent: AgentRole
+  readonly outputs: ReadonlyArray<string>
+  readonly requestedAt: Date
+}
+
+/**
+ * Request to stop a running workflow (e.g. from `crew-opencode cancel`)
+ */
+export interface WorkflowStopRequest {
+  readonly action: 'cancel' | 'pause'
+  readonly reason?: string
+  readonly requestedAt: Date
 }
 
 /**
@@ -178,12 +295,28 @@ export interface IncidentReport {
  */
 export type OrchestratorEvent =
   | { type: 'workflow:start'; workflowId: string; sopName: string }
+  | { type: 'workflow:resume'; workflowId: string; sopName: string; remainingTasks: number }
   | { type: 'workflow:complete'; workflowId: string; duration: number }
   | { type: 'workflow:fail'; workflowId: string; error: AgentError }
+  | { type: 'workflow:pause'; workflowId: string; reason: string }
+  | { type: 'workflow:cancel'; workflowId: string; reason: string }
+  | { type: 'workflow:awaiting-approval'; workflowId: string; approval: WorkflowApproval }
   | { type: 'task:start'; taskId: string; agent: AgentRole }
   | { type: 'task:complete'; taskId: string; result: AgentResult }
   | { type: 'task:fail'; taskId: string; error: AgentError }
+  | { type: 'task:skip'; taskId: string; agent: AgentRole; reason: string }
+  | { type: 'task:loop'; taskId: string; gotoTaskId: string; iteration: number; maxIterations: number }
+  | { type: 'plan:expand'; taskId: string; addedTasks: ReadonlyArray<string> }
   | { type: 'agent:progress'; progress: AgentProgress }
+  | {
+      type: 'agent:token'
+      taskId: string
+      agent: AgentRole
+      /** Text streamed since the previous event */
+      text: string
+      /** Output tokens the agent has generated for the task attempt so far */
+      outputTokens: number
+    }
   | { type: 'incident:created'; report: IncidentReport }
 
 /**
@@ -191,17 +324,37 @@ export type OrchestratorEvent =
  */
 export type OrchestratorEventHandler = (event: OrchestratorEvent) => void
 
+/**
+ * Get the stable identifier of an SOP step
+ *
+ * Steps without an explicit `id` fall back to `<order>-<agent>`.
+ */
+export function getStepId(step: SOPStep): string {
+  return step.id ?? `${step.order}-${step.agent}`
+}
+
 /**
  * Create a new task from an SOP step
  */
 export function createTaskFromStep(step: SOPStep, workflowId: string): Task {
   return {
-    id: `${workflowId}-${step.order}-${step.agent}`,
+    id: `${workflowId}-${getStepId(step)}`,
     agent: step.agent,
     action: step.action,
     inputs: [...step.inputs],
     expectedOutputs: [...step.outputs],
     parallelWith: step.parallel ? [...step.parallel] : undefined,
+    loop: step.loop
+      ? {
+          when: step.loop.when,
+          gotoTaskId: `${workflowId}-${step.loop.goto}`,
+          maxIterations: step.loop.maxIterations,
+        }
+      : undefined,
+    when: step.when,
+    approval: step.approval,
+    validation:
+      typeof step.validation === 'string' ? { condition: step.validation } : step.validation,
     status: 'pending',
     priority: 'medium',
     retryCount: 0,
@@ -209,6 +362,58 @@ export function createTaskFromStep(step: SOPStep, workflowId: string): Task {
   }
 }
 
+/**
+ * Add up token counts
+ */
+function addTokenCounts(a: TokenCounts | undefined, b: TokenCounts): TokenCounts {
+  return {
+    inputTokens: (a?.inputTokens ?? 0) + b.inputTokens,
+    outputTokens: (a?.outputTokens ?? 0) + b.outputTokens,
+    totalTokens: (a?.totalTokens ?? 0) + b.totalTokens,
+    estimatedCost: (a?.estimatedCost ?? 0) + b.estimatedCost,
+  }
+}
+
+/**
+ * Per-model counts of token usage
+ */
+function usageByModel(usage: TokenUsage): Record<string, TokenCounts> {
+  if (usage.byModel) {
+    return { ...usage.byModel }
+  }
+  return usage.model ? { [usage.model]: addTokenCounts(undefined, usage) } : {}
+}
+
+/**
+ * Add up token usage (across an agent's turns, or a workflow's tasks)
+ *
+ * Usage is broken down by model once more than one model served the calls.
+ */
+export function addTokenUsage(total?: TokenUsage, usage?: TokenUsage): TokenUsage | undefined {
+  if (!total || !usage) {
+    return total ?? usage
+  }
+
+  const byModel = usageByModel(total)
+  for (const [model, counts] of Object.entries(usageByModel(usage))) {
+    byModel[model] = addTokenCounts(byModel[model], counts)
+  }
+
+  const cachedInputTokens = (total.cachedInputTokens ?? 0) + (usage.cachedInputTokens ?? 0)
+  const cacheWriteTokens = (total.cacheWriteTokens ?? 0) + (usage.cacheWriteTokens ?? 0)
+  const unpricedModels = [...new Set([...(total.unpricedModels ?? []), ...(usage.unpricedModels ?? [])])]
+
+  return {
+    model: usage.model ?? total.model,
+    ...addTokenCounts(total, usage),
+    ...(Object.keys(byModel).length > 1 ? { byModel } : {}),
+    ...(total.cached && usage.cached ? { cached: true } : {}),
+    ...(cachedInputTokens > 0 ? { cachedInputTokens } : {}),
+    ...(cacheWriteTokens > 0 ? { cacheWriteTokens } : {}),
+    ...(unpricedModels.length > 0 ? { unpricedModels } : {}),
+  }
+}
+
 /**
  * Generate a unique workflow ID
  */
@@ -0,0 +1,205 @@
+import { z } from 'zod'
+import type { SOPStepValidation } from '../config'
+import { evaluateCondition, validateExpression } from './expression'
+import { checkShellSyntax, spawnCommand } from './sandbox'
+
+/**
+ * Validation Gates
+ *
+ * Post-conditions declared on an SOP step (`validation`) and checked against
+ * the step outputs before they are accepted. Cheap checks run first; the
+ * shell command only runs once every other gate has passed.
+ */
+
+/**
+ * Default timeout for command gates (2 minutes)
+ */
+export const DEFAULT_GATE_COMMAND_TIMEOUT = 120000
+
+/**
+ * Lines of command output kept in a failure message
+ */
+const COMMAND_OUTPUT_LINES = 20
+
+/**
+ * Characters of command output collected (the end is kept)
+ */
+const COMMAND_MAX_OUTPUT = 20000
+
+/**
+ * Result of checking a step's validation gates
+ */
+export interface ValidationGateResult {
+  readonly passed: boolean
+  readonly failures: ReadonlyArray<string>
+}
+
+/**
+ * Check if an output value is missing or empty
+ */
+function isEmptyOutput(value: unknown): boolean {
+  if (value === undefined || value === null) return true
+  if (typeof value === 'string') return value.trim().length === 0
+  if (Array.isArray(value)) return value.length === 0
+  return false
+}
+
+/**
+ * Build a zod schema from a JSON Schema (throws if the schema is invalid)
+ */
+function compileJSONSchema(schema: Record<string, unknown>): z.ZodType {
+  return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0])
+}
+
+/**
+ * Run a gate command, resolving with its exit status and combined output
+ */
+async function runCommand(
+  command: string,
+  options: {
+    cwd: string
+    timeout: number
+    secretEnv?: ReadonlyArray<string>
+    signal?: AbortSignal
+  }
+): Promise<{ ok: boolean; reason?: string; output: string }> {
+  if (checkShellSyntax(command)) {
+    return { ok: false, reason: 'uses shell syntax, which gates do not run', output: '' }
+  }
+
+  const result = await spawnCommand(command, { ...options, maxOutput: COMMAND_MAX_OUTPUT })
+  if (result.ok) {
+    return { ok: true, output: result.output }
+  }
+
+  const reason = result.timedOut
+    ? `timed out after ${options.timeout}ms`
+    : result.exitCode === null
+      ? 'failed to start'
+      : `exited with code ${result.exitCode}`
+
+  return { ok: false, reason, output: result.output }
+}
+
+/**
+ * Keep the last lines of command output
+ */
+function tailOutput(output: string): string {
+  return output.split('\n').slice(-COMMAND_OUTPUT_LINES).join('\n')
+}
+
+/**
+ * Check gate definitions for invalid schemas, patterns or conditions
+ */
+export function lintValidationGates(validation: SOPStepValidation): string[] {
+  const errors: string[] = []
+
+  for (const [output, schema] of Object.entries(validation.schema ?? {})) {
+    try {
+      compileJSONSchema(schema)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      errors.push(`schema for "${output}": ${message}`)
+    }
+  }
+
+  for (const [output, pattern] of Object.entries(validation.pattern ?? {})) {
+    try {
+      new RegExp(pattern)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      errors.push(`pattern for "${output}": ${message}`)
+    }
+  }
+
+  if (validation.condition) {
+    const conditionError = validateExpression(validation.condition)
+    if (conditionError) {
+      errors.push(`condition: ${conditionError}`)
+    }
+  }
+
+  if (validation.command && checkShellSyntax(validation.command)) {
+    errors.push(`command: "${validation.command}" uses shell syntax, which gates do not run`)
+  }
+
+  return errors
+}
+
+/**
+ * Check a step's outputs against its validation gates
+ *
+ * Each failure message is prefixed with the gate's custom `message`, if set.
+ */
+export async function checkValidationGates(
+  validation: SOPStepValidation,
+  outputs: Record<string, unknown>,
+  options: {
+    cwd: string
+    /** Environment variables withheld from the command besides the usual secrets */
+    secretEnv?: ReadonlyArray<string>
+    signal?: AbortSignal
+  }
+): Promise<ValidationGateResult> {
+  const failures: string[] = []
+
+  for (const output of validation.requiredOutputs ?? []) {
+    if (isEmptyOutput(outputs[output])) {
+      failures.push(`Required output "${output}" is missing or empty`)
+    }
+  }
+
+  for (const [output, schema] of Object.entries(validation.schema ?? {})) {
+    let compiled: z.ZodType
+    try {
+      compiled = compileJSONSchema(schema)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      failures.push(`Output "${output}" has an invalid JSON Schema: ${message}`)
+      continue
+    }
+
+    const result = compiled.safeParse(outputs[output])
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((i) => `${i.path.length > 0 ? i.path.join('.') : '(root)'}: ${i.message}`)
+        .join('; ')
+      failures.push(`Output "${output}" does not match its schema: ${issues}`)
+    }
+  }
+
+  for (const [output, pattern] of Object.entries(validation.pattern ?? {})) {
+    const value = outputs[output]
+    const text = typeof value === 'string' ? value : JSON.stringify(value ?? '')
+
+    if (!new RegExp(pattern).test(text)) {
+      failures.push(`Output "${output}" does not match /${pattern}/`)
+    }
+  }
+
+  if (validation.condition && !evaluateCondition(validation.condition, outputs)) {
+    failures.push(`Condition not met: ${validation.condition}`)
+  }
+
+  if (validation.command && failures.length === 0) {
+    const timeout = validation.timeout ?? DEFAULT_GATE_COMMAND_TIMEOUT
+    const result = await runCommand(validation.command, {
+      cwd: options.cwd,
+      timeout,
+      secretEnv: options.secretEnv,
+      signal: options.signal,
+    })
+
+    if (!result.ok) {
+      const output = result.output ? `\n${tailOutput(result.output)}` : ''
+      failures.push(`Command "${validation.command}" ${result.reason}${output}`)
+    }
+  }
+
+  return {
+    passed: failures.length === 0,
+    failures: validation.message
+      ? failures.map((failure) => `${validation.message}: ${failure}`)
+      : failures,
+  }
+}
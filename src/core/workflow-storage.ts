@@ -1,6 +1,36 @@
 import { existsSync, mkdirSync, writeFileSync, readFileSync, readdirSync, unlinkSync } from 'node:fs'
 import { join } from 'node:path'
-import type { WorkflowState } from './types'
+import type { WorkflowState, WorkflowStopRequest, Task, ExecutionContext } from './types'
+
+/**
+ * Restore Date fields of a persisted task
+ */
+function reviveTask(task: Task): Task {
+  return {
+    ...task,
+    startedAt: task.startedAt ? new Date(task.startedAt) : undefined,
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+    approvedAt: task.approvedAt ? new Date(task.approvedAt) : undefined,
+  }
+}
+
+/**
+ * Restore Date fields of a persisted execution context
+ */
+function reviveContext(context: ExecutionContext): ExecutionContext {
+  if (!context) {
+    return context
+  }
+
+  return {
+    ...context,
+    startedAt: context.startedAt ? new Date(context.startedAt) : context.startedAt,
+    history: (context.history ?? []).map((entry) => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp),
+    })),
+  }
+}
 
 /**
  * WorkflowStorage - Persists workflow state to disk
@@ -51,8 +81,13 @@ export class WorkflowStorage {
       // Convert date strings back to Date objects and create new WorkflowState
       const workflow: WorkflowState = {
         ...parsed,
+        tasks: (parsed.tasks ?? []).map(reviveTask),
+        context: reviveContext(parsed.context),
         startedAt: new Date(parsed.startedAt),
         completedAt: parsed.completedAt ? new Date(parsed.completedAt) : undefined,
+        approval: parsed.approval
+          ? { ...parsed.approval, requestedAt: new Date(parsed.approval.requestedAt) }
+          : undefined,
       }
 
       return workflow
@@ -149,6 +184,54 @@ export class WorkflowStorage {
     return deletedCount
   }
 
+  /**
+   * Ask a running workflow to stop (picked up by the orchestrator's poller)
+   */
+  async requestStop(
+    workflowId: string,
+    action: WorkflowStopRequest['action'],
+    reason?: string
+  ): Promise<void> {
+    const request: WorkflowStopRequest = {
+      action,
+      reason,
+      requestedAt: new Date(),
+    }
+    writeFileSync(this.getStopRequestPath(workflowId), JSON.stringify(request, null, 2), 'utf-8')
+  }
+
+  /**
+   * Get pending stop request for a workflow, if any
+   */
+  async getStopRequest(workflowId: string): Promise<WorkflowStopRequest | null> {
+    const filePath = this.getStopRequestPath(workflowId)
+
+    if (!existsSync(filePath)) {
+      return null
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(filePath, 'utf-8'))
+      return {
+        ...parsed,
+        requestedAt: new Date(parsed.requestedAt),
+      }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Remove a handled stop request
+   */
+  async clearStopRequest(workflowId: string): Promise<void> {
+    const filePath = this.getStopRequestPath(workflowId)
+
+    if (existsSync(filePath)) {
+      unlinkSync(filePath)
+    }
+  }
+
   /**
    * Get workflow file path
    */
@@ -156,6 +239,13 @@ export class WorkflowStorage {
     return join(this.storagePath, `${workflowId}.json`)
   }
 
+  /**
+   * Get stop request file path
+   */
+  private getStopRequestPath(workflowId: string): string {
+    return join(this.storagePath, `${workflowId}.stop`)
+  }
+
   /**
    * Check if workflow exists
    */
@@ -46,17 +46,26 @@ export async function preToolUse(context: PreToolUseContext): Promise<PreToolUse
       }
     }
 
-    if (parameters.sop && !['feature', 'bugfix', 'refactor'].includes(parameters.sop as string)) {
-      return {
-        allow: false,
-        message: 'Invalid SOP type. Must be: feature, bugfix, or refactor',
+    if (parameters.sop) {
+      const { createSOPRegistry } = await import('../sop')
+      const sops = createSOPRegistry({
+        projectPath: parameters.projectPath as string | undefined,
+      })
+
+      if (!sops.has(parameters.sop as string)) {
+        return {
+          allow: false,
+          message: `Unknown SOP "${String(parameters.sop)}". Must be one of: ${sops.names().join(', ')}`,
+        }
       }
     }
   }
 
-  // Example: Add workflow ID to crew commands
+  // Example: Add workflow ID to crew commands (keep IDs targeting an existing workflow)
   if (tool.startsWith('Crew')) {
-    const workflowId = `wf-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
+    const workflowId =
+      (parameters.workflowId as string | undefined) ??
+      `wf-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
 
     return {
       allow: true,
@@ -1,7 +1,23 @@
 import { join } from 'path'
 import { readFileSync } from 'fs'
 import type { SOPDefinition } from '../config'
-import { DEFAULT_SOP_FEATURE, DEFAULT_SOP_BUGFIX, DEFAULT_SOP_REFACTOR } from '../config'
+import { getStepId } from '../core/types'
+import { findDependencyCycle } from '../core/task-queue'
+import { getExpressionPaths, validateExpression } from '../core/expression'
+import { lintValidationGates } from '../core/validation-gates'
+import { createSOPRegistry, type SOPRegistry } from './registry'
+
+export {
+  SOPRegistry,
+  createSOPRegistry,
+  parseSOPFile,
+  getSOPDirectories,
+  BUILTIN_SOP_NAMES,
+  SOP_FILE_EXTENSIONS,
+  SOP_DIRECTORY_NAME,
+  type RegisteredSOP,
+  type SOPSource,
+} from './registry'
 
 /**
  * SOP documentation file paths
@@ -13,51 +29,373 @@ export const SOP_DOC_PATHS = {
 } as const
 
 /**
- * SOP type names
+ * Built-in SOP type names
  */
 export type SOPType = keyof typeof SOP_DOC_PATHS
 
 /**
- * Load SOP documentation by type
+ * Shared registry of executable SOPs (built-ins plus SOP files)
  */
-export function loadSOPDocumentation(sopType: SOPType): string {
-  const path = SOP_DOC_PATHS[sopType]
-  return readFileSync(path, 'utf-8')
+let registry: SOPRegistry | null = null
+
+/**
+ * Get the shared SOP registry, loading SOP files on first use
+ */
+export function getSOPRegistry(): SOPRegistry {
+  if (!registry) {
+    registry = createSOPRegistry()
+  }
+  return registry
+}
+
+/**
+ * Discard the cached registry so SOP files are read again
+ */
+export function reloadSOPRegistry(): SOPRegistry {
+  registry = null
+  return getSOPRegistry()
+}
+
+/**
+ * Check if a name is one of the built-in SOPs
+ */
+function isBuiltinSOP(name: string): name is SOPType {
+  return name in SOP_DOC_PATHS
+}
+
+/**
+ * Load SOP documentation by name
+ *
+ * Built-ins read their bundled Markdown; custom SOPs use the body of their
+ * Markdown file, falling back to the description.
+ */
+export function loadSOPDocumentation(sopName: string): string {
+  const entry = getSOPRegistry().getEntry(sopName)
+
+  if (entry && entry.source !== 'builtin' && !isBuiltinSOP(sopName)) {
+    return entry.documentation ?? entry.definition.description
+  }
+
+  if (!isBuiltinSOP(sopName)) {
+    throw new Error(`SOP not found: ${sopName}`)
+  }
+
+  return readFileSync(SOP_DOC_PATHS[sopName], 'utf-8')
 }
 
 /**
  * Get SOP definition (executable workflow)
  */
-export function getSOPDefinition(sopType: SOPType): SOPDefinition {
-  const definitions: Record<SOPType, SOPDefinition> = {
-    feature: DEFAULT_SOP_FEATURE,
-    bugfix: DEFAULT_SOP_BUGFIX,
-    refactor: DEFAULT_SOP_REFACTOR,
+export function getSOPDefinition(sopName: string): SOPDefinition {
+  const definition = getSOPRegistry().get(sopName)
+
+  if (!definition) {
+    throw new Error(`SOP not found: ${sopName}`)
   }
 
-  return definitions[sopType]
+  return definition
 }
 
 /**
  * Get all SOP definitions
  */
-export function getAllSOPDefinitions(): Record<SOPType, SOPDefinition> {
-  return {
-    feature: DEFAULT_SOP_FEATURE,
-    bugfix: DEFAULT_SOP_BUGFIX,
-    refactor: DEFAULT_SOP_REFACTOR,
-  }
+export function getAllSOPDefinitions(): Record<string, SOPDefinition> {
+  return Object.fromEntries(
+    getSOPRegistry()
+      .list()
+      .map((entry) => [entry.definition.name, entry.definition])
+  )
 }
 
 /**
  * Load all SOP documentation
  */
-export function loadAllSOPDocumentation(): Record<SOPType, string> {
-  return {
-    feature: loadSOPDocumentation('feature'),
-    bugfix: loadSOPDocumentation('bugfix'),
-    refactor: loadSOPDocumentation('refactor'),
+export function loadAllSOPDocumentation(): Record<string, string> {
+  return Object.fromEntries(
+    getSOPRegistry()
+      .names()
+      .map((name) => [name, loadSOPDocumentation(name)])
+  )
+}
+
+/**
+ * Resolve step dependencies (step id -> ids of steps it waits for)
+ *
+ * Steps with an explicit `dependsOn` use exactly those steps. Otherwise a
+ * step depends on every lower-`order` step, except agents named in its
+ * `parallel` list.
+ */
+export function resolveStepDependencies(sop: SOPDefinition): Map<string, string[]> {
+  const dependencies = new Map<string, string[]>()
+
+  for (const step of sop.steps) {
+    if (step.dependsOn) {
+      dependencies.set(getStepId(step), [...step.dependsOn])
+      continue
+    }
+
+    const dependsOn: string[] = []
+    for (const prevStep of sop.steps) {
+      if (prevStep.order < step.order) {
+        // Only add dependency if not explicitly marked as parallel
+        if (!step.parallel || !step.parallel.includes(prevStep.agent)) {
+          dependsOn.push(getStepId(prevStep))
+        }
+      }
+    }
+
+    dependencies.set(getStepId(step), dependsOn)
+  }
+
+  return dependencies
+}
+
+/**
+ * Inputs supplied by the workflow itself rather than by an upstream step
+ */
+export const WORKFLOW_INPUTS: ReadonlyArray<string> = [
+  'user_request',
+  'user_requirements',
+  'bug_report',
+  'refactor_request',
+  'project_context',
+  'codebase',
+]
+
+/**
+ * Get all transitive upstream steps for each step
+ */
+function resolveUpstreamSteps(sop: SOPDefinition): Map<string, Set<string>> {
+  const dependencies = resolveStepDependencies(sop)
+  const upstream = new Map<string, Set<string>>()
+
+  const collect = (stepId: string): Set<string> => {
+    const cached = upstream.get(stepId)
+    if (cached) return cached
+
+    const result = new Set<string>()
+    upstream.set(stepId, result)
+
+    for (const depId of dependencies.get(stepId) ?? []) {
+      result.add(depId)
+      for (const ancestor of collect(depId)) {
+        result.add(ancestor)
+      }
+    }
+
+    return result
+  }
+
+  for (const stepId of dependencies.keys()) {
+    collect(stepId)
   }
+
+  return upstream
+}
+
+/**
+ * Lint the producer/consumer graph built from step inputs and outputs
+ *
+ * Errors:
+ * - an input that no upstream step produces (and the workflow doesn't supply)
+ * - an output read by a `when` or `loop.when` condition that no upstream step
+ *   produces (loop conditions may also read the step's own outputs)
+ * - the same output produced by steps that may run concurrently
+ *
+ * Warnings:
+ * - inputs only produced by conditional (`when`) steps
+ * - outputs that no step consumes (terminal steps excepted)
+ *
+ * Assumes the step graph is acyclic.
+ */
+export function lintSOPDataFlow(sop: SOPDefinition): {
+  errors: string[]
+  warnings: string[]
+} {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const upstream = resolveUpstreamSteps(sop)
+
+  // Producers per output name
+  const producers = new Map<string, string[]>()
+  for (const step of sop.steps) {
+    for (const output of step.outputs) {
+      producers.set(output, [...(producers.get(output) ?? []), getStepId(step)])
+    }
+  }
+
+  const conditionalSteps = new Set(
+    sop.steps.filter((step) => step.when).map((step) => getStepId(step))
+  )
+
+  // Every input must come from an upstream step or the workflow
+  for (const step of sop.steps) {
+    const stepId = getStepId(step)
+    const ancestors = upstream.get(stepId) ?? new Set<string>()
+
+    for (const input of step.inputs) {
+      if (WORKFLOW_INPUTS.includes(input)) continue
+
+      const inputProducers = producers.get(input) ?? []
+      const upstreamProducers = inputProducers.filter((producerId) => ancestors.has(producerId))
+
+      if (upstreamProducers.length > 0) {
+        // Inputs from conditional steps may legitimately be absent
+        if (upstreamProducers.every((producerId) => conditionalSteps.has(producerId))) {
+          warnings.push(
+            `Step "${stepId}" input "${input}" is missing when ${upstreamProducers.map((id) => `"${id}"`).join(', ')} is skipped`
+          )
+        }
+        continue
+      }
+
+      if (inputProducers.length === 0) {
+        errors.push(`Step "${stepId}" input "${input}" is not produced by any step`)
+      } else {
+        errors.push(
+          `Step "${stepId}" input "${input}" is produced by ${inputProducers.map((id) => `"${id}"`).join(', ')}, which does not run before it`
+        )
+      }
+    }
+  }
+
+  // Outputs read by conditions (loop conditions see the step's own outputs,
+  // also under its agent name)
+  const conditionReads = new Set<string>()
+  for (const step of sop.steps) {
+    const stepId = getStepId(step)
+    const ancestors = upstream.get(stepId) ?? new Set<string>()
+    const conditions = [
+      { source: step.when, own: false },
+      { source: step.loop?.when, own: true },
+    ]
+
+    for (const { source, own } of conditions) {
+      for (const [root = '', property] of source ? getExpressionPaths(source) : []) {
+        const agentPath = own && root === step.agent && !step.outputs.includes(root)
+        const name = agentPath && property ? property : root
+        conditionReads.add(name)
+        if (WORKFLOW_INPUTS.includes(name) || (own && step.outputs.includes(name))) continue
+
+        const nameProducers = producers.get(name) ?? []
+        if (nameProducers.some((producerId) => ancestors.has(producerId))) continue
+
+        errors.push(
+          nameProducers.length === 0
+            ? `Step "${stepId}" condition reads "${name}", which no step produces`
+            : `Step "${stepId}" condition reads "${name}", produced by ${nameProducers.map((id) => `"${id}"`).join(', ')}, which does not run before it`
+        )
+      }
+    }
+  }
+
+  // Concurrent steps must not write the same output
+  for (const [output, stepIds] of producers) {
+    for (const [i, a] of stepIds.entries()) {
+      for (const b of stepIds.slice(i + 1)) {
+        const ordered = upstream.get(a)?.has(b) || upstream.get(b)?.has(a)
+
+        if (!ordered) {
+          errors.push(`Output "${output}" is produced by parallel steps "${a}" and "${b}"`)
+        }
+      }
+    }
+  }
+
+  // Outputs nobody reads are likely wasted tokens
+  const consumed = new Set([...sop.steps.flatMap((step) => step.inputs), ...conditionReads])
+  const nonTerminal = new Set([...resolveStepDependencies(sop).values()].flat())
+
+  for (const step of sop.steps) {
+    const stepId = getStepId(step)
+    if (!nonTerminal.has(stepId)) continue
+
+    for (const output of step.outputs) {
+      if (!consumed.has(output)) {
+        warnings.push(`Step "${stepId}" output "${output}" is never consumed`)
+      }
+    }
+  }
+
+  return { errors, warnings }
+}
+
+/**
+ * Validate loop-back declarations (target must run at or before the step)
+ */
+function validateStepLoops(sop: SOPDefinition, stepIds: ReadonlySet<string>): string[] {
+  const errors: string[] = []
+  const upstream = resolveUpstreamSteps(sop)
+
+  for (const step of sop.steps) {
+    if (!step.loop) continue
+
+    const stepId = getStepId(step)
+    const { goto, when } = step.loop
+
+    if (!stepIds.has(goto)) {
+      errors.push(`Step "${stepId}" loops back to unknown step "${goto}"`)
+    } else if (goto !== stepId && !upstream.get(stepId)?.has(goto)) {
+      errors.push(`Step "${stepId}" loop target "${goto}" does not run before it`)
+    }
+
+    const conditionError = validateExpression(when)
+    if (conditionError) {
+      errors.push(`Step "${stepId}" has an invalid loop condition: ${conditionError}`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate `when` conditions on steps
+ */
+function validateStepConditions(sop: SOPDefinition): string[] {
+  const errors: string[] = []
+
+  for (const step of sop.steps) {
+    if (!step.when) continue
+
+    const conditionError = validateExpression(step.when)
+    if (conditionError) {
+      errors.push(`Step "${getStepId(step)}" has an invalid when condition: ${conditionError}`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Check step validation gates for invalid rules and unknown outputs
+ */
+function validateStepGates(sop: SOPDefinition): string[] {
+  const errors: string[] = []
+
+  for (const step of sop.steps) {
+    if (!step.validation) continue
+
+    const stepId = getStepId(step)
+    const validation =
+      typeof step.validation === 'string' ? { condition: step.validation } : step.validation
+
+    for (const gateError of lintValidationGates(validation)) {
+      errors.push(`Step "${stepId}" has an invalid validation gate: ${gateError}`)
+    }
+
+    const referenced = new Set([
+      ...(validation.requiredOutputs ?? []),
+      ...Object.keys(validation.schema ?? {}),
+      ...Object.keys(validation.pattern ?? {}),
+    ])
+    for (const output of referenced) {
+      if (!step.outputs.includes(output)) {
+        errors.push(`Step "${stepId}" validation checks "${output}", which it does not output`)
+      }
+    }
+  }
+
+  return errors
 }
 
 /**
@@ -66,8 +404,10 @@ export function loadAllSOPDocumentation(): Record<SOPType, string> {
 export function validateSOPDefinition(sop: SOPDefinition): {
   valid: boolean
   errors: string[]
+  warnings: string[]
 } {
   const errors: string[] = []
+  const warnings: string[] = []
 
   // Check name
   if (!sop.name || sop.name.trim() === '') {
@@ -107,7 +447,39 @@ export function validateSOPDefinition(sop: SOPDefinition): {
       }
     }
 
-    // Check for duplicate orders (unless parallel)
+    // Check step ids and explicit dependencies
+    const stepIds = new Set<string>()
+    for (const step of sop.steps) {
+      const stepId = getStepId(step)
+      if (stepIds.has(stepId)) {
+        errors.push(`Duplicate step id "${stepId}"`)
+      }
+      stepIds.add(stepId)
+    }
+
+    for (const step of sop.steps) {
+      for (const depId of step.dependsOn ?? []) {
+        if (!stepIds.has(depId)) {
+          errors.push(`Step "${getStepId(step)}" depends on unknown step "${depId}"`)
+        }
+      }
+    }
+
+    const cycle = findDependencyCycle(resolveStepDependencies(sop))
+    if (cycle) {
+      errors.push(`Circular dependency between steps: ${cycle.join(' -> ')}`)
+    } else {
+      // Data flow only makes sense on an acyclic graph
+      const dataFlow = lintSOPDataFlow(sop)
+      errors.push(...dataFlow.errors)
+      warnings.push(...dataFlow.warnings)
+      errors.push(...validateStepLoops(sop, stepIds))
+    }
+
+    errors.push(...validateStepConditions(sop))
+    errors.push(...validateStepGates(sop))
+
+    // Check for duplicate orders (unless parallel or explicitly ordered)
     const orderCounts = new Map<number, number>()
     for (const step of sop.steps) {
       const count = orderCounts.get(step.order) || 0
@@ -118,8 +490,9 @@ export function validateSOPDefinition(sop: SOPDefinition): {
       if (count > 1) {
         const stepsWithOrder = sop.steps.filter((s) => s.order === order)
         const hasParallel = stepsWithOrder.some((s) => s.parallel && s.parallel.length > 0)
+        const hasExplicitDependencies = stepsWithOrder.every((s) => s.dependsOn !== undefined)
 
-        if (!hasParallel) {
+        if (!hasParallel && !hasExplicitDependencies) {
           errors.push(
             `Multiple steps have order ${order} but are not marked as parallel`
           )
@@ -136,51 +509,60 @@ export function validateSOPDefinition(sop: SOPDefinition): {
   return {
     valid: errors.length === 0,
     errors,
+    warnings,
   }
 }
 
 /**
- * Get SOP metadata
+ * Get SOP metadata (from the shared registry unless one is given)
  */
-export function getSOPMetadata(sopType: SOPType): {
+export function getSOPMetadata(
+  sopName: string,
+  sopRegistry: SOPRegistry = getSOPRegistry()
+): {
   name: string
   description: string
   requiredAgents: string[]
   totalSteps: number
   estimatedTime: string
 } {
-  const sop = getSOPDefinition(sopType)
+  const sop = sopRegistry.get(sopName)
+  if (!sop) {
+    throw new Error(`SOP not found: ${sopName}`)
+  }
 
   const metadata: Record<SOPType, { estimatedTime: string }> = {
     feature: { estimatedTime: '60-90 minutes' },
     bugfix: { estimatedTime: '40-70 minutes' },
     refactor: { estimatedTime: '100-160 minutes' },
   }
+  const estimatedTime =
+    sop.estimatedTime ?? (isBuiltinSOP(sopName) ? metadata[sopName].estimatedTime : 'unknown')
 
   return {
     name: sop.name,
     description: sop.description,
     requiredAgents: [...sop.requiredAgents],
     totalSteps: sop.steps.length,
-    estimatedTime: metadata[sopType].estimatedTime,
+    estimatedTime,
   }
 }
 
 /**
- * Get SOP summary for all SOPs
+ * Get SOP summary for all SOPs (from the shared registry unless one is given)
  */
-export function getAllSOPMetadata(): Record<SOPType, ReturnType<typeof getSOPMetadata>> {
-  return {
-    feature: getSOPMetadata('feature'),
-    bugfix: getSOPMetadata('bugfix'),
-    refactor: getSOPMetadata('refactor'),
-  }
+export function getAllSOPMetadata(
+  sopRegistry: SOPRegistry = getSOPRegistry()
+): Record<string, ReturnType<typeof getSOPMetadata>> {
+  return Object.fromEntries(
+    sopRegistry.names().map((name) => [name, getSOPMetadata(name, sopRegistry)])
+  )
 }
 
 /**
  * Check if SOP has parallel steps
  */
-export function hasParallelSteps(sopType: SOPType): boolean {
+export function hasParallelSteps(sopType: string): boolean {
   const sop = getSOPDefinition(sopType)
   return sop.steps.some((step) => step.parallel && step.parallel.length > 0)
 }
@@ -188,7 +570,7 @@ export function hasParallelSteps(sopType: SOPType): boolean {
 /**
  * Get critical path for SOP
  */
-export function getCriticalPath(sopType: SOPType): number[] {
+export function getCriticalPath(sopType: string): number[] {
   const sop = getSOPDefinition(sopType)
 
   // Group steps by order
@@ -206,7 +588,7 @@ export function getCriticalPath(sopType: SOPType): number[] {
 /**
  * Get steps by order
  */
-export function getStepsByOrder(sopType: SOPType, order: number) {
+export function getStepsByOrder(sopType: string, order: number) {
   const sop = getSOPDefinition(sopType)
   return sop.steps.filter((step) => step.order === order)
 }
@@ -214,7 +596,7 @@ export function getStepsByOrder(sopType: SOPType, order: number) {
 /**
  * Get next steps after a given order
  */
-export function getNextSteps(sopType: SOPType, currentOrder: number) {
+export function getNextSteps(sopType: string, currentOrder: number) {
   const sop = getSOPDefinition(sopType)
   const nextOrder = Math.min(
     ...sop.steps.filter((s) => s.order > currentOrder).map((s) => s.order)
@@ -228,4 +610,4 @@ export function getNextSteps(sopType: SOPType, currentOrder: number) {
 }
 
 // Re-export SOP definitions for convenience
-export { DEFAULT_SOP_FEATURE, DEFAULT_SOP_BUGFIX, DEFAULT_SOP_REFACTOR }
+export { DEFAULT_SOP_FEATURE, DEFAULT_SOP_BUGFIX, DEFAULT_SOP_REFACTOR } from '../config'
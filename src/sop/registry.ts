@@ -0,0 +1,253 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { basename, extname, join } from 'node:path'
+import { parse as parseYAML } from 'yaml'
+import {
+  SOPDefinitionSchema,
+  DEFAULT_SOP_FEATURE,
+  DEFAULT_SOP_BUGFIX,
+  DEFAULT_SOP_REFACTOR,
+  getGlobalConfigDir,
+  getLocalConfigDir,
+  type CrewConfig,
+  type SOPDefinition,
+} from '../config'
+
+/**
+ * Directory (inside a config dir) that holds user-defined SOP files
+ */
+export const SOP_DIRECTORY_NAME = 'sop'
+
+/**
+ * Supported SOP file extensions
+ */
+export const SOP_FILE_EXTENSIONS = ['.yaml', '.yml', '.json', '.md'] as const
+
+/**
+ * Names of the SOPs shipped with crew-opencode
+ */
+export const BUILTIN_SOP_NAMES = ['feature', 'bugfix', 'refactor'] as const
+
+/**
+ * Where a registered SOP came from (later sources override earlier ones)
+ */
+export type SOPSource = 'builtin' | 'config' | 'global' | 'local'
+
+/**
+ * A registered SOP definition
+ */
+export interface RegisteredSOP {
+  definition: SOPDefinition
+  source: SOPSource
+  path?: string
+  documentation?: string
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/
+
+/**
+ * Check if a Markdown file carries an SOP definition in its front matter
+ */
+function isSOPMarkdown(path: string): boolean {
+  return FRONT_MATTER_PATTERN.test(readFileSync(path, 'utf-8'))
+}
+
+/**
+ * Parse an SOP file (YAML, JSON, or Markdown with YAML front matter)
+ *
+ * The SOP name defaults to the file name. Throws if the file is not a valid
+ * SOP definition.
+ */
+export function parseSOPFile(path: string): SOPDefinition & { documentation?: string } {
+  const content = readFileSync(path, 'utf-8')
+  const extension = extname(path).toLowerCase()
+  let raw: unknown
+  let documentation: string | undefined
+
+  if (extension === '.json') {
+    raw = JSON.parse(content)
+  } else if (extension === '.md') {
+    const match = FRONT_MATTER_PATTERN.exec(content)
+    if (!match) {
+      throw new Error('Markdown SOP must start with a YAML front matter block (---)')
+    }
+    raw = parseYAML(match[1] ?? '')
+    documentation = match[2]?.trim() || undefined
+  } else {
+    raw = parseYAML(content)
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('SOP file must contain an object')
+  }
+
+  const result = SOPDefinitionSchema.safeParse({
+    name: basename(path, extname(path)),
+    ...(raw as Record<string, unknown>),
+  })
+
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')
+    )
+  }
+
+  return { ...result.data, documentation }
+}
+
+/**
+ * SOPRegistry - Keeps every SOP that can be executed, keyed by name
+ *
+ * Built-in SOPs are registered first; config overrides, global files and
+ * local files are layered on top in that order.
+ */
+export class SOPRegistry {
+  private sops: Map<string, RegisteredSOP> = new Map()
+  private loadErrors: string[] = []
+
+  /**
+   * Register (or override) an SOP definition
+   */
+  register(entry: RegisteredSOP): void {
+    this.sops.set(entry.definition.name, entry)
+  }
+
+  /**
+   * Load every SOP file from a directory; invalid files are recorded as errors
+   *
+   * Markdown files without front matter (such as the installed built-in SOP
+   * docs) are documentation only and are skipped.
+   */
+  loadDirectory(directory: string, source: SOPSource): number {
+    if (!existsSync(directory)) {
+      return 0
+    }
+
+    const files = readdirSync(directory)
+      .filter((file) =>
+        (SOP_FILE_EXTENSIONS as ReadonlyArray<string>).includes(extname(file).toLowerCase())
+      )
+      .sort()
+
+    let loaded = 0
+
+    for (const file of files) {
+      const path = join(directory, file)
+
+      if (extname(file).toLowerCase() === '.md' && !isSOPMarkdown(path)) {
+        continue
+      }
+
+      try {
+        const { documentation, ...definition } = parseSOPFile(path)
+        this.register({ definition, source, path, documentation })
+        loaded++
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        this.loadErrors.push(`${path}: ${message}`)
+      }
+    }
+
+    return loaded
+  }
+
+  /**
+   * Get SOP definition by name
+   */
+  get(name: string): SOPDefinition | undefined {
+    return this.sops.get(name)?.definition
+  }
+
+  /**
+   * Get registry entry (definition plus origin) by name
+   */
+  getEntry(name: string): RegisteredSOP | undefined {
+    return this.sops.get(name)
+  }
+
+  /**
+   * Check if an SOP is registered
+   */
+  has(name: string): boolean {
+    return this.sops.has(name)
+  }
+
+  /**
+   * Get registered SOP names (built-ins first, then alphabetical)
+   */
+  names(): string[] {
+    const builtins = BUILTIN_SOP_NAMES.filter((name) => this.sops.has(name))
+    const custom = [...this.sops.keys()]
+      .filter((name) => !(BUILTIN_SOP_NAMES as ReadonlyArray<string>).includes(name))
+      .sort()
+
+    return [...builtins, ...custom]
+  }
+
+  /**
+   * Get all registered SOPs
+   */
+  list(): RegisteredSOP[] {
+    return this.names().flatMap((name) => this.sops.get(name) ?? [])
+  }
+
+  /**
+   * Get errors from SOP files that failed to load
+   */
+  getErrors(): string[] {
+    return [...this.loadErrors]
+  }
+}
+
+/**
+ * Get the SOP directories to scan (global first, local overrides)
+ */
+export function getSOPDirectories(projectPath?: string): { global: string; local: string } {
+  const localConfigDir = projectPath
+    ? join(projectPath, '.opencode', 'crew-opencode')
+    : getLocalConfigDir()
+
+  return {
+    global: join(getGlobalConfigDir(), SOP_DIRECTORY_NAME),
+    local: join(localConfigDir, SOP_DIRECTORY_NAME),
+  }
+}
+
+/**
+ * Check if two SOP definitions are the same once schema defaults are filled in
+ */
+function isSameSOP(a: SOPDefinition, b: SOPDefinition | undefined): boolean {
+  return (
+    b !== undefined &&
+    JSON.stringify(SOPDefinitionSchema.parse(a)) === JSON.stringify(SOPDefinitionSchema.parse(b))
+  )
+}
+
+/**
+ * Create an SOP registry with built-ins, config overrides and SOP files
+ */
+export function createSOPRegistry(
+  options: { projectPath?: string; config?: CrewConfig } = {}
+): SOPRegistry {
+  const registry = new SOPRegistry()
+  const builtins = [DEFAULT_SOP_FEATURE, DEFAULT_SOP_BUGFIX, DEFAULT_SOP_REFACTOR]
+
+  for (const definition of builtins) {
+    registry.register({ definition, source: 'builtin' })
+  }
+
+  if (options.config) {
+    for (const [index, name] of BUILTIN_SOP_NAMES.entries()) {
+      const definition = options.config.sop[name]
+      // The default config carries the built-ins; only changed ones are overrides
+      if (definition && !isSameSOP(definition, builtins[index])) {
+        registry.register({ definition: { ...definition, name }, source: 'config' })
+      }
+    }
+  }
+
+  const directories = getSOPDirectories(options.projectPath)
+  registry.loadDirectory(directories.global, 'global')
+  registry.loadDirectory(directories.local, 'local')
+
+  return registry
+}
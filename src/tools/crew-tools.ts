@@ -15,7 +15,7 @@ import type { WorkflowState } from '../core/types'
  */
 export async function crewOrchestrate(params: {
   task: string
-  sop?: 'feature' | 'bugfix' | 'refactor'
+  sop?: string
   projectPath?: string
   workflowId?: string
 }): Promise<{
@@ -68,6 +68,7 @@ export async function crewStatus(params: {
   totalSteps?: number
   startedAt?: string
   completedAt?: string
+  awaitingApproval?: string
   error?: string
 }> {
   try {
@@ -96,6 +97,59 @@ export async function crewStatus(params: {
       totalSteps: workflow.totalSteps,
       startedAt: workflow.startedAt.toISOString(),
       completedAt: workflow.completedAt?.toISOString(),
+      awaitingApproval: workflow.approval?.taskId,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+/**
+ * Tool: CrewCancel
+ *
+ * Cancel (or pause) a running crew workflow. Progress is kept so the
+ * workflow can be resumed later.
+ */
+export async function crewCancel(params: {
+  workflowId: string
+  pause?: boolean
+  reason?: string
+  projectPath?: string
+}): Promise<{
+  success: boolean
+  message?: string
+  error?: string
+}> {
+  try {
+    const { WorkflowStorage } = await import('../core/workflow-storage')
+    const projectPath = params.projectPath || process.cwd()
+    const storage = new WorkflowStorage(projectPath)
+
+    const workflow = await storage.load(params.workflowId)
+
+    if (!workflow) {
+      return {
+        success: false,
+        error: `Workflow not found: ${params.workflowId}`,
+      }
+    }
+
+    if (workflow.status !== 'running' && workflow.status !== 'pending') {
+      return {
+        success: false,
+        error: `Workflow is not running (status: ${workflow.status})`,
+      }
+    }
+
+    const action = params.pause ? 'pause' : 'cancel'
+    await storage.requestStop(params.workflowId, action, params.reason)
+
+    return {
+      success: true,
+      message: `${action === 'pause' ? 'Pause' : 'Cancellation'} requested for ${params.workflowId}`,
     }
   } catch (error) {
     return {
@@ -265,7 +319,7 @@ export const CREW_TOOLS = {
       sop: {
         type: 'string',
         required: false,
-        description: 'SOP type: feature, bugfix, or refactor',
+        description: 'SOP name: feature, bugfix, refactor, or a custom SOP',
       },
       projectPath: { type: 'string', required: false, description: 'Project path' },
     },
@@ -279,6 +333,20 @@ export const CREW_TOOLS = {
     },
     handler: crewStatus,
   },
+  CrewCancel: {
+    name: 'CrewCancel',
+    description: 'Cancel or pause a running crew workflow (it can be resumed later)',
+    parameters: {
+      workflowId: { type: 'string', required: true, description: 'Workflow ID' },
+      pause: {
+        type: 'boolean',
+        required: false,
+        description: 'Pause after in-flight tasks finish instead of aborting them',
+      },
+      reason: { type: 'string', required: false, description: 'Reason for cancelling' },
+    },
+    handler: crewCancel,
+  },
   CrewList: {
     name: 'CrewList',
     description: 'List available agents and SOPs',
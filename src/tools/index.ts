@@ -5,6 +5,7 @@
 export {
   crewOrchestrate,
   crewStatus,
+  crewCancel,
   crewList,
   crewIncidents,
   CREW_TOOLS,
@@ -0,0 +1,443 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { AgentRunner } from '../../src/core/agent-runner'
+import { ContextManager } from '../../src/core/context-manager'
+import { callLLM } from '../../src/core/llm-clients'
+import { AgentToolRegistry } from '../../src/core/agent-tools'
+import { ResponseCache } from '../../src/core/response-cache'
+import { z } from 'zod'
+import type { AgentConfig, Task } from '../../src/core/types'
+
+vi.mock('../../src/core/llm-clients', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/llm-clients')>()),
+  callLLM: vi.fn(),
+}))
+
+vi.mock('../../src/agents', () => ({
+  loadAgentDefinition: vi.fn(() => 'Agent definition'),
+}))
+
+describe('AgentRunner', () => {
+  let manager: ContextManager
+  let runner: AgentRunner
+
+  const task: Task = {
+    id: 'wf-1-analyze',
+    agent: 'ta',
+    action: 'Analyze the codebase',
+    inputs: [],
+    expectedOutputs: ['technical_spec'],
+    status: 'running',
+    priority: 'medium',
+    retryCount: 0,
+    maxRetries: 0,
+  }
+
+  const config: AgentConfig = {
+    enabled: true,
+    model: 'claude-sonnet-4.5',
+    maxTurns: 3,
+    temperature: 0.5,
+  }
+
+  const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15, estimatedCost: 0.01 }
+
+  beforeEach(() => {
+    vi.mocked(callLLM).mockReset()
+    manager = new ContextManager('feature', 'Add login', '/test/path', 'wf-1')
+    runner = new AgentRunner(manager)
+  })
+
+  describe('multi-turn execution', () => {
+    it('should answer context requests until the agent gives its final answer', async () => {
+      manager.setOutput('execution_plan', 'Use OAuth')
+
+      vi.mocked(callLLM)
+        .mockResolvedValueOnce({
+          content: '<context_request>\nexecution_plan\n</context_request>',
+          tokenUsage: usage,
+        })
+        .mockResolvedValueOnce({
+          content: '<output name="technical_spec">OAuth via provider</output>',
+          tokenUsage: usage,
+        })
+
+      const result = await runner.executeTask(task, config)
+
+      expect(result.success).toBe(true)
+      expect(result.turns).toBe(2)
+      expect(result.outputs.technical_spec).toBe('OAuth via provider')
+      expect(result.tokenUsage).toEqual({
+        inputTokens: 20,
+        outputTokens: 10,
+        totalTokens: 30,
+        estimatedCost: 0.02,
+      })
+
+      const secondRequest = vi.mocked(callLLM).mock.calls[1][0]
+      expect(secondRequest.messages).toHaveLength(3)
+      expect(secondRequest.messages?.[2].content).toContain('### execution_plan\nUse OAuth')
+
+      const transcript = manager.getTranscript(task.id)
+      expect(transcript?.map((m) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant'])
+    })
+
+    it('should stop at maxTurns', async () => {
+      vi.mocked(callLLM).mockResolvedValue({
+        content: '<context_request>\ncodebase\n</context_request>',
+        tokenUsage: usage,
+      })
+
+      const result = await runner.executeTask(task, config)
+
+      expect(callLLM).toHaveBeenCalledTimes(3)
+      expect(result.turns).toBe(3)
+      expect(vi.mocked(callLLM).mock.calls[2][0].messages?.[4].content).toContain(
+        'This is your last turn'
+      )
+    })
+
+    it('should run tool calls and send back their results', async () => {
+      const tools = new AgentToolRegistry()
+      tools.register({
+        name: 'list_directory',
+        description: 'List a directory',
+        parameters: z.object({ path: z.string() }),
+        execute: vi.fn(async () => 'src/'),
+      })
+      runner = new AgentRunner(manager, tools)
+
+      vi.mocked(callLLM)
+        .mockResolvedValueOnce({
+          content: '',
+          toolCalls: [{ id: 'call-1', name: 'list_directory', arguments: { path: '.' } }],
+        })
+        .mockResolvedValueOnce({
+          content: '<output name="technical_spec">Spec</output>',
+        })
+
+      const result = await runner.executeTask(task, { ...config, tools: ['list_directory'] })
+
+      expect(result.success).toBe(true)
+      expect(result.turns).toBe(2)
+
+      const [firstRequest, secondRequest] = vi.mocked(callLLM).mock.calls.map((c) => c[0])
+      expect(firstRequest.tools?.map((t) => t.name)).toEqual(['list_directory'])
+      expect(secondRequest.messages?.[2].toolResults).toEqual([
+        { toolCallId: 'call-1', name: 'list_directory', content: 'src/' },
+      ])
+    })
+
+    it('should disable tools on the last turn so the agent answers', async () => {
+      const tools = new AgentToolRegistry()
+      tools.register({
+        name: 'read_file',
+        description: 'Read a file',
+        parameters: z.object({ path: z.string() }),
+        execute: vi.fn(async () => 'contents'),
+      })
+      runner = new AgentRunner(manager, tools)
+
+      // A model that reads files for as long as it may
+      vi.mocked(callLLM).mockImplementation(async (request) =>
+        request.toolChoice === 'none'
+          ? { content: '<output name="technical_spec">Spec</output>' }
+          : {
+              content: '',
+              toolCalls: [{ id: 'call', name: 'read_file', arguments: { path: 'a.ts' } }],
+            }
+      )
+
+      const result = await runner.executeTask(task, { ...config, tools: ['read_file'] })
+
+      expect(result.success).toBe(true)
+      expect(result.turns).toBe(3)
+      expect(result.outputs.technical_spec).toBe('Spec')
+
+      const requests = vi.mocked(callLLM).mock.calls.map((c) => c[0])
+      expect(requests.map((r) => r.toolChoice)).toEqual([undefined, undefined, 'none'])
+      expect(requests[2].messages?.[4].content).toContain('This is your last turn')
+    })
+
+    it('should fail on unknown tools in the agent config', async () => {
+      const result = await runner.executeTask(task, { ...config, tools: ['delete_everything'] })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toContain('Unknown tool "delete_everything"')
+      expect(callLLM).not.toHaveBeenCalled()
+    })
+
+    it('should make a single call for single-turn agents', async () => {
+      vi.mocked(callLLM).mockResolvedValue({
+        content: '<output name="technical_spec">Spec</output>',
+      })
+
+      const result = await runner.executeTask(task, { ...config, maxTurns: 1 })
+
+      expect(callLLM).toHaveBeenCalledTimes(1)
+      expect(result.turns).toBe(1)
+      expect(vi.mocked(callLLM).mock.calls[0][0].messages?.[0].content).not.toContain(
+        '<context_request>'
+      )
+    })
+  })
+
+  describe('model fallback', () => {
+    const chain: AgentConfig = {
+      ...config,
+      model: ['claude-opus-4.5', 'gpt-5.2-medium', 'ollama/llama3.1'],
+      maxTurns: 1,
+    }
+    const rateLimited = Object.assign(new Error('Too many requests'), { status: 429 })
+
+    it('should walk the chain and record the model that served the call', async () => {
+      vi.mocked(callLLM)
+        .mockRejectedValueOnce(rateLimited)
+        .mockRejectedValueOnce(new Error('LLM API call failed (openai): Request timed out.'))
+        .mockResolvedValueOnce({
+          content: '<output name="technical_spec">Spec</output>',
+          tokenUsage: { ...usage, model: 'ollama/llama3.1', estimatedCost: 0 },
+        })
+
+      const result = await runner.executeTask(task, chain)
+
+      expect(result.success).toBe(true)
+      expect(result.model).toBe('ollama/llama3.1')
+      expect(result.tokenUsage?.model).toBe('ollama/llama3.1')
+      expect(vi.mocked(callLLM).mock.calls.map(([request]) => request.model)).toEqual([
+        'claude-opus-4.5',
+        'gpt-5.2-medium',
+        'ollama/llama3.1',
+      ])
+    })
+
+    it('should keep using the fallback model and break usage down by model', async () => {
+      vi.mocked(callLLM)
+        .mockResolvedValueOnce({
+          content: '<context_request>\nexecution_plan\n</context_request>',
+          tokenUsage: { ...usage, model: 'claude-opus-4.5' },
+        })
+        .mockRejectedValueOnce(rateLimited)
+        .mockResolvedValueOnce({
+          content: '<output name="technical_spec">Spec</output>',
+          tokenUsage: { ...usage, model: 'gpt-5.2-medium' },
+        })
+
+      const result = await runner.executeTask(task, { ...chain, maxTurns: 3 })
+
+      expect(result.model).toBe('gpt-5.2-medium')
+      expect(result.tokenUsage).toMatchObject({
+        model: 'gpt-5.2-medium',
+        totalTokens: 30,
+        byModel: {
+          'claude-opus-4.5': { totalTokens: 15 },
+          'gpt-5.2-medium': { totalTokens: 15 },
+        },
+      })
+    })
+
+    it('should fail without falling back on other errors', async () => {
+      vi.mocked(callLLM).mockRejectedValueOnce(
+        Object.assign(new Error('invalid x-api-key'), { status: 401 })
+      )
+
+      const result = await runner.executeTask(task, chain)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toContain('with model claude-opus-4.5: invalid x-api-key')
+      expect(callLLM).toHaveBeenCalledTimes(1)
+    })
+
+    it('should only fall back on the configured error classes', async () => {
+      vi.mocked(callLLM).mockRejectedValueOnce(rateLimited)
+
+      const result = await runner.executeTask(task, { ...chain, fallbackOn: ['server_error'] })
+
+      expect(result.success).toBe(false)
+      expect(callLLM).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('streaming', () => {
+    it('should add up streamed output tokens across turns', async () => {
+      vi.mocked(callLLM).mockImplementation(async (request) => {
+        const first = vi.mocked(callLLM).mock.calls.length === 1
+        request.onToken?.({ text: 'x', outputTokens: 3 })
+        return first
+          ? {
+              content: '<context_request>\ntechnical_spec\n</context_request>',
+              tokenUsage: usage,
+            }
+          : { content: '<output name="technical_spec">Spec</output>', tokenUsage: usage }
+      })
+      const onToken = vi.fn()
+
+      const result = await runner.executeTask(task, config, { onToken })
+
+      expect(result.success).toBe(true)
+      expect(onToken.mock.calls.map(([delta]) => delta.outputTokens)).toEqual([3, 8])
+    })
+
+    it('should not stream without a token listener', async () => {
+      vi.mocked(callLLM).mockResolvedValue({ content: '<output name="technical_spec">Spec</output>' })
+
+      await runner.executeTask(task, { ...config, maxTurns: 1 })
+
+      expect(vi.mocked(callLLM).mock.calls[0][0].onToken).toBeUndefined()
+    })
+  })
+
+  describe('response cache', () => {
+    let dir: string
+
+    // A fresh workflow run sharing the cache directory
+    const run = (agentConfig: AgentConfig) =>
+      new AgentRunner(
+        new ContextManager('feature', 'Add login', '/test/path', 'wf-1'),
+        undefined,
+        undefined,
+        new ResponseCache(dir, 60_000)
+      ).executeTask(task, agentConfig)
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'crew-runner-cache-'))
+      vi.mocked(callLLM).mockResolvedValue({
+        content: '<output name="technical_spec">Spec</output>',
+        tokenUsage: usage,
+      })
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should serve a re-run task from the cache', async () => {
+      await run({ ...config, maxTurns: 1 })
+      const result = await run({ ...config, maxTurns: 1 })
+
+      expect(callLLM).toHaveBeenCalledTimes(1)
+      expect(result.outputs.technical_spec).toBe('Spec')
+      expect(result.tokenUsage).toMatchObject({ estimatedCost: 0, cached: true })
+    })
+
+    it('should skip the cache for agents that opt out', async () => {
+      await run({ ...config, maxTurns: 1, cache: false })
+      await run({ ...config, maxTurns: 1, cache: false })
+
+      expect(callLLM).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('patch artifacts', () => {
+    it('should fail validation when a patch does not apply', async () => {
+      manager.addArtifact({ type: 'file', name: 'app.ts', path: 'app.ts', content: 'const a = 1\n' })
+
+      vi.mocked(callLLM).mockResolvedValue({
+        content:
+          '<output name="technical_spec">Spec</output>\n' +
+          '<patch path="app.ts">\n@@ -1 +1 @@\n-const b = 1\n+const b = 2\n</patch>',
+      })
+
+      const result = await runner.executeTask(task, { ...config, maxTurns: 1 })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.code).toBe('VALIDATION_FAILED')
+      expect(result.error?.context?.failures).toEqual([
+        'app.ts: Patch does not apply: hunk 1 (@@ -1,1 +1,1 @@) context does not match the file',
+      ])
+      expect(manager.getContext().artifacts).toHaveLength(1)
+    })
+
+    it('should accept patches that apply on top of earlier artifacts', async () => {
+      manager.addArtifact({ type: 'file', name: 'app.ts', path: 'app.ts', content: 'const a = 1\n' })
+
+      vi.mocked(callLLM).mockResolvedValue({
+        content:
+          '<output name="technical_spec">Spec</output>\n' +
+          '<patch path="app.ts">\n@@ -1 +1 @@\n-const a = 1\n+const a = 2\n</patch>',
+      })
+
+      const result = await runner.executeTask(task, { ...config, maxTurns: 1 })
+
+      expect(result.success).toBe(true)
+      expect(manager.getContext().artifacts.map((a) => a.type)).toEqual(['file', 'patch'])
+    })
+  })
+
+  describe('structured output', () => {
+    const structuredTask: Task = {
+      ...task,
+      expectedOutputs: ['technical_spec', 'affected_files'],
+      validation: { schema: { affected_files: { type: 'array', items: { type: 'string' } } } },
+    }
+
+    it('should request a schema built from the expected outputs and use the parsed answer', async () => {
+      vi.mocked(callLLM).mockResolvedValue({
+        content: '{"technical_spec":"Spec","affected_files":["src/auth.ts"]}',
+        structured: { technical_spec: 'Spec', affected_files: ['src/auth.ts'] },
+      })
+
+      const result = await runner.executeTask(structuredTask, {
+        ...config,
+        maxTurns: 1,
+        structuredOutput: true,
+      })
+
+      const request = vi.mocked(callLLM).mock.calls[0][0]
+      expect(request.responseSchema).toEqual({
+        type: 'object',
+        properties: {
+          technical_spec: { description: 'Your technical_spec' },
+          affected_files: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['technical_spec', 'affected_files'],
+        additionalProperties: false,
+      })
+      expect(request.messages?.[0].content).toContain('Answer with a JSON object')
+      expect(result.outputs).toEqual({ technical_spec: 'Spec', affected_files: ['src/auth.ts'] })
+    })
+
+    it('should fall back to parsing the text when the answer is not structured', async () => {
+      vi.mocked(callLLM).mockResolvedValue({
+        content:
+          '<output name="technical_spec">Spec</output>\n<output name="affected_files" type="json">["a.ts"]</output>',
+      })
+
+      const result = await runner.executeTask(structuredTask, {
+        ...config,
+        maxTurns: 1,
+        structuredOutput: true,
+      })
+
+      expect(result.outputs).toEqual({ technical_spec: 'Spec', affected_files: ['a.ts'] })
+    })
+
+    it('should leave out context requests when the provider forces tool use', async () => {
+      vi.mocked(callLLM).mockResolvedValue({
+        content: '{"technical_spec":"Spec","affected_files":[]}',
+        structured: { technical_spec: 'Spec', affected_files: [] },
+      })
+
+      await runner.executeTask(structuredTask, { ...config, structuredOutput: true })
+      await runner.executeTask(structuredTask, {
+        ...config,
+        model: 'gpt-4o',
+        structuredOutput: true,
+      })
+
+      const [anthropic, openai] = vi.mocked(callLLM).mock.calls.map((c) => c[0])
+      expect(anthropic.messages?.[0].content).not.toContain('<context_request>')
+      expect(openai.messages?.[0].content).toContain('<context_request>')
+    })
+
+    it('should not request a schema by default', async () => {
+      vi.mocked(callLLM).mockResolvedValue({ content: '<output name="technical_spec">Spec</output>' })
+
+      await runner.executeTask(task, { ...config, maxTurns: 1 })
+
+      expect(vi.mocked(callLLM).mock.calls[0][0].responseSchema).toBeUndefined()
+    })
+  })
+})
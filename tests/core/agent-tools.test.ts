@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, symlinkSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createAgentToolRegistry, resolveProjectPath } from '../../src/core/agent-tools'
+import { ContextManager } from '../../src/core/context-manager'
+import { DEFAULT_CONFIG } from '../../src/config'
+
+describe('Agent Tools', () => {
+  const registry = createAgentToolRegistry()
+  let projectPath: string
+  let outsidePath: string
+
+  const call = (name: string, args: Record<string, unknown>) =>
+    registry.execute({ id: 'call-1', name, arguments: args }, { projectPath })
+
+  beforeAll(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'crew-tools-'))
+    outsidePath = mkdtempSync(join(tmpdir(), 'crew-outside-'))
+
+    mkdirSync(join(projectPath, 'src'))
+    mkdirSync(join(projectPath, 'node_modules'))
+    writeFileSync(join(projectPath, 'src', 'app.ts'), 'export const app = 1\n// TODO: login\n')
+    writeFileSync(join(projectPath, 'src', 'notes.md'), 'TODO: docs\n')
+    writeFileSync(join(projectPath, 'node_modules', 'dep.ts'), '// TODO: ignored\n')
+    writeFileSync(join(outsidePath, 'secret.txt'), 'secret')
+    symlinkSync(outsidePath, join(projectPath, 'escape'))
+  })
+
+  afterAll(() => {
+    rmSync(projectPath, { recursive: true, force: true })
+    rmSync(outsidePath, { recursive: true, force: true })
+  })
+
+  describe('resolveProjectPath', () => {
+    it('should reject paths outside the project', () => {
+      expect(resolveProjectPath(projectPath, 'src/app.ts')).toContain('app.ts')
+      expect(() => resolveProjectPath(projectPath, '../etc/passwd')).toThrow('outside the project')
+      expect(() => resolveProjectPath(projectPath, '/etc/passwd')).toThrow('outside the project')
+      expect(() => resolveProjectPath(projectPath, 'escape/secret.txt')).toThrow(
+        'outside the project'
+      )
+      expect(() => resolveProjectPath(projectPath, 'escape/new/file.txt')).toThrow(
+        'outside the project'
+      )
+    })
+  })
+
+  describe('read_file', () => {
+    it('should return numbered lines', async () => {
+      const result = await call('read_file', { path: 'src/app.ts', offset: 2, limit: 1 })
+
+      expect(result).toEqual({
+        toolCallId: 'call-1',
+        name: 'read_file',
+        content: '2\t// TODO: login\n... (1 more lines)',
+      })
+    })
+
+    it('should return errors as error results', async () => {
+      const outside = await call('read_file', { path: '../secret.txt' })
+      const invalid = await call('read_file', {})
+
+      expect(outside.isError).toBe(true)
+      expect(outside.content).toContain('outside the project')
+      expect(invalid.isError).toBe(true)
+      expect(invalid.content).toContain('Invalid arguments for read_file: path')
+    })
+  })
+
+  describe('list_directory', () => {
+    it('should list entries with directories marked', async () => {
+      const result = await call('list_directory', {})
+
+      expect(result.content).toBe('escape\nnode_modules/\nsrc/')
+    })
+  })
+
+  describe('grep', () => {
+    it('should find matches and skip node_modules', async () => {
+      const result = await call('grep', { pattern: 'TODO' })
+
+      expect(result.content).toBe(
+        `${join('src', 'app.ts')}:2: // TODO: login\n${join('src', 'notes.md')}:1: TODO: docs`
+      )
+    })
+
+    it('should filter by file name glob', async () => {
+      const result = await call('grep', { pattern: 'TODO', include: '*.md' })
+
+      expect(result.content).toBe(`${join('src', 'notes.md')}:1: TODO: docs`)
+    })
+  })
+
+  describe('run_command', () => {
+    const sandboxed = createAgentToolRegistry({
+      sandbox: { ...DEFAULT_CONFIG.sandbox, allowedCommands: ['ls', 'bun test'] },
+    })
+
+    it('should run allowed commands and record the result', async () => {
+      const manager = new ContextManager('feature', 'Test task', projectPath)
+
+      const result = await sandboxed.execute(
+        { id: 'call-1', name: 'run_command', arguments: { command: 'ls src' } },
+        { projectPath, agent: 'qa', contextManager: manager }
+      )
+
+      expect(result.content).toBe('Exit code 0\napp.ts\nnotes.md')
+      expect(manager.getArtifacts()).toEqual([
+        { type: 'report', name: 'ls src', content: 'Exit code 0\napp.ts\nnotes.md' },
+      ])
+      expect(manager.getHistory()[0]).toMatchObject({
+        agent: 'qa',
+        action: 'Ran `ls src`',
+        status: 'completed',
+      })
+    })
+
+    it('should refuse commands outside the allow-list', async () => {
+      const result = await sandboxed.execute(
+        { id: 'call-1', name: 'run_command', arguments: { command: 'rm -rf src' } },
+        { projectPath }
+      )
+
+      expect(result.isError).toBe(true)
+      expect(result.content).toContain('Command "rm -rf src" is not allowed')
+    })
+  })
+
+  describe('definitions', () => {
+    it('should describe tools as JSON Schema', () => {
+      const [readFile] = registry.definitions(['read_file'])
+
+      expect(readFile.name).toBe('read_file')
+      expect(readFile.parameters).toMatchObject({
+        type: 'object',
+        properties: { path: { type: 'string' } },
+        required: ['path'],
+      })
+      expect(readFile.parameters).not.toHaveProperty('$schema')
+    })
+
+    it('should throw for unknown tools', () => {
+      expect(() => registry.definitions(['delete_everything'])).toThrow(
+        'Unknown tool "delete_everything"'
+      )
+    })
+  })
+})
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  mkdtempSync,
+  mkdirSync,
+  writeFileSync,
+  readFileSync,
+  rmSync,
+  existsSync,
+  symlinkSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createChangeset, applyChangeset, checkPatchArtifacts } from '../../src/core/artifact-applier'
+
+describe('Artifact Applier', () => {
+  let projectPath: string
+  let outsidePath: string
+
+  beforeEach(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'crew-apply-'))
+    outsidePath = mkdtempSync(join(tmpdir(), 'crew-outside-'))
+    writeFileSync(join(projectPath, 'existing.ts'), 'export const a = 1\n')
+    writeFileSync(join(projectPath, 'same.ts'), 'export const same = true\n')
+  })
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true })
+    rmSync(outsidePath, { recursive: true, force: true })
+  })
+
+  describe('createChangeset', () => {
+    it('should diff file artifacts against disk', () => {
+      const changeset = createChangeset(
+        [
+          { type: 'file', name: 'existing.ts', path: 'existing.ts', content: 'export const a = 2' },
+          { type: 'file', name: 'new.ts', path: 'src/new.ts', content: 'export {}' },
+          { type: 'code', name: 'same.ts', path: 'same.ts', content: 'export const same = true\n' },
+        ],
+        projectPath
+      )
+
+      expect(changeset.rejected).toEqual([])
+      expect(changeset.changes.map((c) => [c.path, c.type])).toEqual([
+        ['existing.ts', 'modify'],
+        [join('src', 'new.ts'), 'create'],
+        ['same.ts', 'unchanged'],
+      ])
+      expect(changeset.changes[0].diff).toContain('-export const a = 1\n+export const a = 2\n')
+      expect(changeset.changes[2].diff).toBe('')
+    })
+
+    it('should use the last artifact for a path', () => {
+      const changeset = createChangeset(
+        [
+          { type: 'file', name: 'a.ts', path: 'a.ts', content: 'first' },
+          { type: 'file', name: 'a.ts', path: './a.ts', content: 'second' },
+        ],
+        projectPath
+      )
+
+      expect(changeset.changes).toHaveLength(1)
+      expect(changeset.changes[0].content).toBe('second\n')
+    })
+
+    it('should reject paths outside the project', () => {
+      const changeset = createChangeset(
+        [
+          { type: 'file', name: 'passwd', path: '../../etc/passwd', content: 'root' },
+          { type: 'file', name: 'abs', path: '/etc/hosts', content: 'localhost' },
+        ],
+        projectPath
+      )
+
+      expect(changeset.changes).toEqual([])
+      expect(changeset.rejected).toMatchObject([
+        { path: '../../etc/passwd', reason: 'Path "../../etc/passwd" is outside the project' },
+        { path: '/etc/hosts', reason: 'Path "/etc/hosts" is outside the project' },
+      ])
+    })
+
+    it('should ignore artifacts that are not file contents', () => {
+      const changeset = createChangeset(
+        [
+          { type: 'file', name: 'ref.ts', path: 'ref.ts' },
+          { type: 'code', name: 'Example usage', path: 'Example usage', content: 'run()' },
+          { type: 'test', name: 'bun test', content: 'Exit code 0' },
+        ],
+        projectPath
+      )
+
+      expect(changeset.changes).toEqual([])
+      expect(changeset.rejected).toEqual([])
+    })
+
+    it('should apply patches on top of the file on disk', () => {
+      const changeset = createChangeset(
+        [
+          {
+            type: 'patch',
+            name: 'existing.ts',
+            path: 'existing.ts',
+            content: '--- a/existing.ts\n+++ b/existing.ts\n@@ -1,1 +1,2 @@\n export const a = 1\n+export const b = 2\n',
+          },
+        ],
+        projectPath
+      )
+
+      expect(changeset.rejected).toEqual([])
+      expect(changeset.changes[0].type).toBe('modify')
+      expect(changeset.changes[0].content).toBe('export const a = 1\nexport const b = 2\n')
+    })
+
+    it('should apply patches on top of earlier file artifacts', () => {
+      const changeset = createChangeset(
+        [
+          { type: 'file', name: 'new.ts', path: 'new.ts', content: 'one\ntwo' },
+          {
+            type: 'patch',
+            name: 'new.ts',
+            path: 'new.ts',
+            content: '--- a/new.ts\n+++ b/new.ts\n@@ -1,2 +1,2 @@\n one\n-two\n+three\n',
+          },
+        ],
+        projectPath
+      )
+
+      expect(changeset.changes).toHaveLength(1)
+      expect(changeset.changes[0].type).toBe('create')
+      expect(changeset.changes[0].content).toBe('one\nthree\n')
+    })
+
+    it('should reject patches that do not apply', () => {
+      const changeset = createChangeset(
+        [
+          {
+            type: 'patch',
+            name: 'existing.ts',
+            path: 'existing.ts',
+            content: '--- a/existing.ts\n+++ b/existing.ts\n@@ -1,1 +1,1 @@\n-export const z = 1\n+export const z = 2\n',
+          },
+          {
+            type: 'patch',
+            name: 'missing.ts',
+            path: 'missing.ts',
+            content: '--- a/missing.ts\n+++ b/missing.ts\n@@ -1,1 +1,1 @@\n-a\n+b\n',
+          },
+        ],
+        projectPath
+      )
+
+      expect(changeset.changes).toEqual([])
+      expect(changeset.rejected.map((r) => [r.path, r.reason])).toEqual([
+        ['existing.ts', 'Patch does not apply: hunk 1 (@@ -1,1 +1,1 @@) context does not match the file'],
+        ['missing.ts', 'Patch does not apply: file does not exist'],
+      ])
+    })
+  })
+
+  describe('symlinked directories', () => {
+    it('should reject new files and patches behind a link out of the project', () => {
+      writeFileSync(join(outsidePath, 'old.ts'), 'a\n')
+      symlinkSync(outsidePath, join(projectPath, 'link'))
+
+      const changeset = createChangeset(
+        [
+          { type: 'file', name: 'evil.txt', path: 'link/evil.txt', content: 'pwned' },
+          { type: 'file', name: 'deep.txt', path: 'link/sub/deep.txt', content: 'pwned' },
+          { type: 'patch', name: 'old.ts', path: 'link/old.ts', content: '@@ -1 +1 @@\n-a\n+b\n' },
+        ],
+        projectPath
+      )
+
+      expect(changeset.changes).toEqual([])
+      expect(changeset.rejected.map((r) => r.reason)).toEqual([
+        'Path "link/evil.txt" is outside the project',
+        'Path "link/sub/deep.txt" is outside the project',
+        'Path "link/old.ts" is outside the project',
+      ])
+    })
+
+    it('should not write through a link created after the changeset was built', () => {
+      mkdirSync(join(projectPath, 'link'))
+      const changeset = createChangeset(
+        [{ type: 'file', name: 'evil.txt', path: 'link/evil.txt', content: 'pwned' }],
+        projectPath
+      )
+      expect(changeset.rejected).toEqual([])
+
+      rmSync(join(projectPath, 'link'), { recursive: true })
+      symlinkSync(outsidePath, join(projectPath, 'link'))
+
+      expect(() => applyChangeset(changeset)).toThrow('Path "link/evil.txt" is outside the project')
+      expect(existsSync(join(outsidePath, 'evil.txt'))).toBe(false)
+    })
+  })
+
+  describe('checkPatchArtifacts', () => {
+    it('should report only new patches that do not apply', () => {
+      const previous = [
+        { type: 'file' as const, name: 'a.ts', path: 'a.ts', content: 'const a = 1\n' },
+        { type: 'patch' as const, name: 'missing.ts', path: 'missing.ts', content: '@@ -1 +1 @@\n-x\n+y\n' },
+      ]
+
+      expect(
+        checkPatchArtifacts(
+          [{ type: 'patch', name: 'a.ts', path: 'a.ts', content: '@@ -1 +1 @@\n-const a = 1\n+const a = 2\n' }],
+          previous,
+          projectPath
+        )
+      ).toEqual([])
+
+      expect(
+        checkPatchArtifacts(
+          [{ type: 'patch', name: 'a.ts', path: 'a.ts', content: '@@ -1 +1 @@\n-const b = 1\n+const b = 2\n' }],
+          previous,
+          projectPath
+        )
+      ).toEqual(['a.ts: Patch does not apply: hunk 1 (@@ -1,1 +1,1 @@) context does not match the file'])
+    })
+  })
+
+  describe('applyChangeset', () => {
+    it('should write created and modified files', () => {
+      const changeset = createChangeset(
+        [
+          { type: 'file', name: 'existing.ts', path: 'existing.ts', content: 'export const a = 2' },
+          { type: 'file', name: 'new.ts', path: 'src/new.ts', content: 'export {}' },
+        ],
+        projectPath
+      )
+
+      const written = applyChangeset(changeset)
+
+      expect(written).toEqual(['existing.ts', join('src', 'new.ts')])
+      expect(readFileSync(join(projectPath, 'existing.ts'), 'utf-8')).toBe('export const a = 2\n')
+      expect(existsSync(join(projectPath, 'src', 'new.ts'))).toBe(true)
+    })
+  })
+})
@@ -4,6 +4,7 @@ import {
   extractCodeBlocks,
   extractFileReferences,
   extractInlineFiles,
+  extractPatches,
   deduplicateArtifacts,
   filterArtifactsByType,
   summarizeArtifacts,
@@ -181,7 +182,68 @@ describe('extractInlineFiles', () => {
   })
 })
 
+describe('extractPatches', () => {
+  it('should extract patch tags', () => {
+    const text = '<patch path="src/app.ts">\n@@ -1,2 +1,2 @@\n const a = 1\n-const b = 1\n+const b = 2\n</patch>'
+    const artifacts = extractPatches(text)
+
+    expect(artifacts).toEqual([
+      {
+        type: 'patch',
+        name: 'app.ts',
+        path: 'src/app.ts',
+        content: '--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1,2 +1,2 @@\n const a = 1\n-const b = 1\n+const b = 2\n',
+      },
+    ])
+  })
+
+  it('should extract one patch per file from diff blocks', () => {
+    const text = [
+      '``' + '`diff',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      '--- a/lib/b.ts',
+      '+++ b/lib/b.ts',
+      '@@ -1 +1 @@',
+      '-c',
+      '+d',
+      '``' + '`',
+    ].join('\n')
+    const artifacts = extractPatches(text)
+
+    expect(artifacts.map((a) => [a.type, a.path])).toEqual([
+      ['patch', 'a.ts'],
+      ['patch', 'lib/b.ts'],
+    ])
+  })
+
+  it('should take the path from the block title when there are no headers', () => {
+    const text = '``' + '`diff src/app.ts\n@@ -1 +1 @@\n-a\n+b\n``' + '`'
+
+    expect(extractPatches(text)[0]?.path).toBe('src/app.ts')
+  })
+
+  it('should skip diffs without a path and file deletions', () => {
+    const text = [
+      '``' + '`diff\n@@ -1 +1 @@\n-a\n+b\n``' + '`',
+      '``' + '`diff\n--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-a\n``' + '`',
+    ].join('\n')
+
+    expect(extractPatches(text)).toEqual([])
+  })
+})
+
 describe('extractArtifacts', () => {
+  it('should extract diff blocks as patches, not code', () => {
+    const text = '``' + '`diff src/app.ts\n@@ -1 +1 @@\n-a\n+b\n``' + '`'
+    const artifacts = extractArtifacts(text)
+
+    expect(artifacts.map((a) => a.type)).toEqual(['patch'])
+  })
+
   it('should extract all artifact types', () => {
     const text = `
 # Implementation
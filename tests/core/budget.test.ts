@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { BudgetTracker } from '../../src/core/budget'
+import type { LLMCallEstimate } from '../../src/core/llm-clients'
+
+describe('BudgetTracker', () => {
+  const estimate = (totalTokens: number, estimatedCost = 0): LLMCallEstimate => ({
+    model: 'claude-sonnet-4.5',
+    inputTokens: totalTokens / 2,
+    outputTokens: totalTokens / 2,
+    totalTokens,
+    estimatedCost,
+  })
+
+  const usage = (totalTokens: number, estimatedCost = 0) => ({
+    model: 'claude-sonnet-4.5',
+    inputTokens: totalTokens / 2,
+    outputTokens: totalTokens / 2,
+    totalTokens,
+    estimatedCost,
+  })
+
+  it('should allow calls within the budgets and add up their usage', () => {
+    const budget = new BudgetTracker({ maxTokens: 10_000 }, { ta: { maxCostUSD: 1 } })
+
+    budget.check('ta', estimate(4000, 0.5))
+    budget.record('ta', usage(3000, 0.4))
+    budget.check('pm', estimate(4000))
+    budget.record('pm', usage(2000))
+
+    expect(budget.total).toMatchObject({ totalTokens: 5000, estimatedCost: 0.4 })
+    expect(budget.byAgent.ta?.totalTokens).toBe(3000)
+    expect(budget.breach).toBeUndefined()
+  })
+
+  it('should refuse a call whose estimate exceeds the workflow budget', () => {
+    const budget = new BudgetTracker({ maxCostUSD: 1 })
+    budget.record('fe', usage(1000, 0.8))
+
+    expect(() => budget.check('fe', estimate(1000, 0.3))).toThrow(
+      'Budget exceeded: FE call to claude-sonnet-4.5 (up to $0.3000) would take the workflow past its $1.00 budget ($0.8000 spent)'
+    )
+    expect(budget.breach).toMatchObject({ agent: 'fe', scope: 'workflow', limit: 'maxCostUSD', budget: 1, spent: 0.8 })
+  })
+
+  it("should refuse a call that exceeds the agent's own budget", () => {
+    const budget = new BudgetTracker({}, { qa: { maxTokens: 5000 } })
+    budget.record('qa', usage(4000))
+
+    expect(() => budget.check('pm', estimate(4000))).not.toThrow()
+    expect(() => budget.check('qa', estimate(2000))).toThrow("QA agent past its 5000-token budget")
+    expect(budget.toAgentError()).toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+      recoverable: false,
+      context: { agent: 'qa', scope: 'agent', limit: 'maxTokens' },
+    })
+  })
+
+  it('should refuse every call after a breach', () => {
+    const budget = new BudgetTracker({ maxTokens: 1000 })
+
+    expect(() => budget.check('pm', estimate(2000))).toThrow('Budget exceeded')
+    expect(() => budget.check('ta', estimate(10))).toThrow('PM call')
+  })
+
+  it('should not count cache hits', () => {
+    const budget = new BudgetTracker()
+    budget.record('pm', { ...usage(1000), cached: true })
+
+    expect(budget.total).toBeUndefined()
+  })
+
+  it('should continue from restored spending', () => {
+    const budget = new BudgetTracker({ maxCostUSD: 1 })
+    budget.restore(usage(1000, 0.9), { pm: usage(1000, 0.9) })
+
+    expect(() => budget.check('pm', estimate(1000, 0.2))).toThrow('($0.9000 spent)')
+  })
+})
@@ -107,6 +107,28 @@ describe('ContextManager', () => {
     })
   })
 
+  describe('setTranscript / getTranscript', () => {
+    it('should keep the latest conversation per task', () => {
+      manager.setTranscript('task-1', [{ role: 'user', content: 'First attempt' }])
+      manager.setTranscript('task-1', [
+        { role: 'user', content: 'Second attempt' },
+        { role: 'assistant', content: 'Done' },
+      ])
+
+      expect(manager.getTranscript('task-1')).toHaveLength(2)
+      expect(manager.getTranscript('task-1')?.[0].content).toBe('Second attempt')
+      expect(manager.getTranscript('task-2')).toBeUndefined()
+    })
+
+    it('should not summarize outputs because of long transcripts', () => {
+      manager.setOutput('plan', 'x'.repeat(6000))
+      manager.setTranscript('task-1', [{ role: 'user', content: 'y'.repeat(60000) }])
+      manager.setData('key', 'value')
+
+      expect(manager.getOutput('plan')).toBe('x'.repeat(6000))
+    })
+  })
+
   describe('createContextSummary', () => {
     it('should create a summary string', () => {
       manager.setOutput('plan', 'Execution plan created')
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  parseContextRequests,
+  resolveContextRequests,
+  formatContextRequestInstruction,
+} from '../../src/core/context-requests'
+import { ContextManager } from '../../src/core/context-manager'
+
+describe('Context Requests', () => {
+  describe('parseContextRequests', () => {
+    it('should return requested names in order without duplicates', () => {
+      const response = [
+        'I need more detail first.',
+        '<context_request>',
+        'technical_spec',
+        '- src/App.tsx',
+        '',
+        '</context_request>',
+        '<context_request>technical_spec</context_request>',
+      ].join('\n')
+
+      expect(parseContextRequests(response)).toEqual(['technical_spec', 'src/App.tsx'])
+    })
+
+    it('should return nothing for a final answer', () => {
+      expect(parseContextRequests('<output name="plan">Done</output>')).toEqual([])
+    })
+  })
+
+  describe('resolveContextRequests', () => {
+    let manager: ContextManager
+
+    beforeEach(() => {
+      manager = new ContextManager('feature', 'Test task', '/test/path')
+    })
+
+    it('should resolve outputs, data and artifacts', () => {
+      manager.setOutput('technical_spec', { api: 'REST' })
+      manager.setData('codebase', 'src/ only')
+      manager.addArtifact({ type: 'file', name: 'App.tsx', path: 'src/App.tsx', content: 'export {}' })
+
+      const message = resolveContextRequests(
+        ['technical_spec', 'codebase', 'src/App.tsx', 'missing'],
+        manager,
+        3
+      )
+
+      expect(message).toContain('### technical_spec\n{\n  "api": "REST"\n}')
+      expect(message).toContain('### codebase\nsrc/ only')
+      expect(message).toContain('### src/App.tsx\nexport {}')
+      expect(message).toContain('### missing\n(not available)')
+      expect(message).toContain('You have 3 turns left')
+    })
+
+    it('should truncate large values and flag the last turn', () => {
+      manager.setData('log', 'x'.repeat(20000))
+
+      const message = resolveContextRequests(['log'], manager, 1)
+
+      expect(message).toContain('(truncated, 20000 characters total)')
+      expect(message).toContain('This is your last turn')
+    })
+  })
+
+  describe('formatContextRequestInstruction', () => {
+    it('should mention the turn budget', () => {
+      expect(formatContextRequestInstruction(5)).toContain('You have up to 5 turns')
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffLines,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+  formatFilePatch,
+  applyPatch,
+} from '../../src/core/diff'
+
+describe('Diff', () => {
+  describe('diffLines', () => {
+    it('should find the shortest edit script', () => {
+      const ops = diffLines('a\nb\nc\n', 'a\nc\nd\n')
+
+      expect(ops.map((op) => `${op.type}:${op.text}`)).toEqual([
+        'equal:a',
+        'delete:b',
+        'equal:c',
+        'insert:d',
+      ])
+    })
+
+    it('should treat a missing trailing newline as a change', () => {
+      const ops = diffLines('a\nb', 'a\nb\n')
+
+      expect(ops.map((op) => op.type)).toEqual(['equal', 'delete', 'insert'])
+    })
+  })
+
+  describe('createUnifiedDiff', () => {
+    it('should return an empty diff for identical files', () => {
+      expect(createUnifiedDiff('a.ts', 'same\n', 'same\n')).toBe('')
+    })
+
+    it('should diff a new file against /dev/null', () => {
+      expect(createUnifiedDiff('src/new.ts', undefined, 'one\ntwo\n')).toBe(
+        ['--- /dev/null', '+++ b/src/new.ts', '@@ -0,0 +1,2 @@', '+one', '+two', ''].join('\n')
+      )
+    })
+
+    it('should keep three lines of context and split distant hunks', () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n'
+      const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n')
+
+      expect(createUnifiedDiff('file.txt', before, after)).toBe(
+        [
+          '--- a/file.txt',
+          '+++ b/file.txt',
+          '@@ -1,5 +1,5 @@',
+          ' line 1',
+          '-line 2',
+          '+line two',
+          ' line 3',
+          ' line 4',
+          ' line 5',
+          '@@ -15,6 +15,6 @@',
+          ' line 15',
+          ' line 16',
+          ' line 17',
+          '-line 18',
+          '+line eighteen',
+          ' line 19',
+          ' line 20',
+          '',
+        ].join('\n')
+      )
+    })
+
+    it('should mark lines without a trailing newline', () => {
+      expect(createUnifiedDiff('a.txt', 'a\nb', 'a\nc')).toContain(
+        '-b\n\\ No newline at end of file\n+c\n\\ No newline at end of file\n'
+      )
+    })
+  })
+
+  describe('parseUnifiedDiff', () => {
+    it('should parse file headers and hunks', () => {
+      const patches = parseUnifiedDiff(
+        [
+          'diff --git a/src/a.ts b/src/a.ts',
+          '--- a/src/a.ts\t2024-01-01',
+          '+++ b/src/a.ts',
+          '@@ -1,2 +1,2 @@',
+          ' keep',
+          '-old',
+          '+new',
+          '--- /dev/null',
+          '+++ b/src/b.ts',
+          '@@ -0,0 +1 @@',
+          '+created',
+        ].join('\n')
+      )
+
+      expect(patches).toEqual([
+        { oldPath: 'src/a.ts', newPath: 'src/a.ts', hunks: [{ oldStart: 1, lines: [' keep', '-old', '+new'] }] },
+        { oldPath: undefined, newPath: 'src/b.ts', hunks: [{ oldStart: 0, lines: ['+created'] }] },
+      ])
+    })
+
+    it('should treat blank lines inside a hunk as blank context', () => {
+      const [patch] = parseUnifiedDiff('@@ -1,3 +1,3 @@\n a\n\n-b\n+c\n\n')
+
+      expect(patch?.oldPath).toBeUndefined()
+      expect(patch?.hunks[0]?.lines).toEqual([' a', ' ', '-b', '+c'])
+    })
+
+    it('should ignore text without hunks', () => {
+      expect(parseUnifiedDiff('just some text\n--- not a header')).toEqual([])
+    })
+  })
+
+  describe('formatFilePatch', () => {
+    it('should recompute hunk counts', () => {
+      const [patch] = parseUnifiedDiff('@@ -3,9 +3,9 @@\n a\n-b\n+c\n+d\n')
+
+      expect(formatFilePatch(patch!, 'x.ts')).toBe(
+        '--- a/x.ts\n+++ b/x.ts\n@@ -3,2 +3,3 @@\n a\n-b\n+c\n+d\n'
+      )
+    })
+
+    it('should mark new files', () => {
+      const [patch] = parseUnifiedDiff('@@ -0,0 +1,1 @@\n+a\n')
+
+      expect(formatFilePatch(patch!, 'x.ts')).toBe('--- /dev/null\n+++ b/x.ts\n@@ -0,0 +1,1 @@\n+a\n')
+    })
+  })
+
+  describe('applyPatch', () => {
+    const file = ['one', 'two', 'three', 'four', 'five', 'six'].join('\n') + '\n'
+
+    it('should round-trip diffs created by createUnifiedDiff', () => {
+      const after = 'one\n2\nthree\nfour\nfive\nsix\nseven\n'
+      const [patch] = parseUnifiedDiff(createUnifiedDiff('a.txt', file, after))
+
+      expect(applyPatch(file, patch!)).toEqual({ content: after, failures: [] })
+    })
+
+    it('should find hunks whose line numbers are off', () => {
+      const [patch] = parseUnifiedDiff('@@ -1,2 +1,2 @@\n four\n-five\n+5\n')
+
+      expect(applyPatch(file, patch!).content).toBe('one\ntwo\nthree\nfour\n5\nsix\n')
+    })
+
+    it('should tolerate trailing whitespace differences', () => {
+      const [patch] = parseUnifiedDiff('@@ -2,1 +2,1 @@\n-two  \n+2\n')
+
+      expect(applyPatch(file, patch!).failures).toEqual([])
+    })
+
+    it('should report hunks that do not apply and apply the rest', () => {
+      const [patch] = parseUnifiedDiff('@@ -1 +1 @@\n-one\n+1\n@@ -4 +4 @@\n-FOUR\n+4\n')
+      const result = applyPatch(file, patch!)
+
+      expect(result.content).toBe('1\ntwo\nthree\nfour\nfive\nsix\n')
+      expect(result.failures).toEqual([
+        { hunk: 2, header: '@@ -4,1 +4,1 @@', reason: 'context does not match the file' },
+      ])
+    })
+
+    it('should create new files and refuse to patch missing ones', () => {
+      const [created] = parseUnifiedDiff('--- /dev/null\n+++ b/a.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n')
+      const [modified] = parseUnifiedDiff('@@ -1 +1 @@\n-a\n+b\n')
+
+      expect(applyPatch(undefined, created!)).toEqual({ content: 'a\nb\n', failures: [] })
+      expect(applyPatch(undefined, modified!).failures[0]?.reason).toBe('file does not exist')
+      expect(applyPatch('x\n', created!).failures[0]?.reason).toBe('file already exists')
+    })
+
+    it('should handle the no-newline marker', () => {
+      const [patch] = parseUnifiedDiff(createUnifiedDiff('a.txt', 'a\nb\n', 'a\nc'))
+
+      expect(applyPatch('a\nb\n', patch!).content).toBe('a\nc')
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateExpression,
+  evaluateCondition,
+  validateExpression,
+} from '../../src/core/expression'
+
+describe('Condition Expressions', () => {
+  const scope = {
+    quality_assessment: { pass: false, score: 72, findings: ['missing tests'] },
+    coverage_report: { percent: 85 },
+    qa: { quality_assessment: { pass: true } },
+    status: 'approved',
+  }
+
+  describe('evaluateExpression', () => {
+    it('should resolve dotted paths', () => {
+      expect(evaluateExpression('quality_assessment.score', scope)).toBe(72)
+      expect(evaluateExpression('qa.quality_assessment.pass', scope)).toBe(true)
+      expect(evaluateExpression('quality_assessment.findings.0', scope)).toBe('missing tests')
+    })
+
+    it('should return undefined for missing paths', () => {
+      expect(evaluateExpression('design_spec.components', scope)).toBeUndefined()
+      expect(evaluateExpression('status.length', scope)).toBeUndefined()
+    })
+
+    it('should not expose prototype properties', () => {
+      expect(evaluateExpression('quality_assessment.constructor', scope)).toBeUndefined()
+      expect(evaluateExpression('__proto__', scope)).toBeUndefined()
+    })
+
+    it('should evaluate literals', () => {
+      expect(evaluateExpression('42', {})).toBe(42)
+      expect(evaluateExpression("'text'", {})).toBe('text')
+      expect(evaluateExpression('null', {})).toBeNull()
+    })
+  })
+
+  describe('evaluateCondition', () => {
+    it('should compare values strictly', () => {
+      expect(evaluateCondition('quality_assessment.pass == false', scope)).toBe(true)
+      expect(evaluateCondition('qa.quality_assessment.pass == false', scope)).toBe(false)
+      expect(evaluateCondition('status != "approved"', scope)).toBe(false)
+      expect(evaluateCondition('quality_assessment.score == "72"', scope)).toBe(false)
+    })
+
+    it('should compare numbers', () => {
+      expect(evaluateCondition('coverage_report.percent >= 80', scope)).toBe(true)
+      expect(evaluateCondition('coverage_report.percent < 80', scope)).toBe(false)
+      expect(evaluateCondition('missing.percent < 80', scope)).toBe(false)
+    })
+
+    it('should combine conditions with precedence', () => {
+      expect(
+        evaluateCondition('quality_assessment.pass == false && coverage_report.percent > 90', scope)
+      ).toBe(false)
+      expect(
+        evaluateCondition('!quality_assessment.pass || coverage_report.percent > 90', scope)
+      ).toBe(true)
+      expect(evaluateCondition('!(status == "approved" && qa.quality_assessment.pass)', scope)).toBe(
+        false
+      )
+    })
+  })
+
+  describe('validateExpression', () => {
+    it('should accept valid expressions', () => {
+      expect(validateExpression('a.b == 1 && (c || !d)')).toBeNull()
+    })
+
+    it('should report syntax errors', () => {
+      expect(validateExpression('')).toBe('Empty expression')
+      expect(validateExpression('a ==')).toBe('Unexpected end of expression')
+      expect(validateExpression('(a == 1')).toBe('Missing closing parenthesis')
+      expect(validateExpression('a = 1')).toContain('Unexpected character "="')
+      expect(validateExpression('run(1)')).toBe('Unexpected token "("')
+      expect(validateExpression("'open")).toContain('Unterminated string')
+    })
+  })
+})
@@ -1,5 +1,63 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { getProviderFromModel, validateAPIKeys } from '../../src/core/llm-clients'
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  callLLM,
+  classifyLLMError,
+  estimateTokens,
+  getCassetteKey,
+  getLLMMode,
+  getProviderFromModel,
+  getRequestMessages,
+  getRetryAfter,
+  parseStructuredContent,
+  toAnthropicMessages,
+  toOpenAIMessages,
+  toGeminiContents,
+  validateAPIKeys,
+} from '../../src/core/llm-clients'
+import { createProviderRegistry } from '../../src/core/providers'
+import type { ConversationMessage } from '../../src/core/types'
+
+const anthropicStream = vi.hoisted(() => ({
+  deltas: [] as string[],
+  outputTokens: 0,
+  clientOptions: undefined as unknown,
+  params: undefined as Record<string, unknown> | undefined,
+  // Content blocks of the final message (default: the streamed text)
+  content: undefined as unknown[] | undefined,
+}))
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    constructor(options: unknown) {
+      anthropicStream.clientOptions = options
+    }
+
+    messages = {
+      stream: (params: Record<string, unknown>) => {
+        anthropicStream.params = params
+        const listeners: Array<(delta: string) => void> = []
+        return {
+          on(_event: string, listener: (delta: string) => void) {
+            listeners.push(listener)
+            return this
+          },
+          async finalMessage() {
+            for (const delta of anthropicStream.deltas) {
+              listeners.forEach((listener) => listener(delta))
+            }
+            return {
+              content: anthropicStream.content ?? [{ type: 'text', text: anthropicStream.deltas.join('') }],
+              usage: { input_tokens: 10, output_tokens: anthropicStream.outputTokens },
+            }
+          },
+        }
+      },
+    }
+  },
+}))
 
 describe('LLM Clients', () => {
   describe('getProviderFromModel', () => {
@@ -24,6 +82,401 @@ describe('LLM Clients', () => {
     })
   })
 
+  describe('getRequestMessages', () => {
+    it('should send the prompt as a single user message', () => {
+      expect(getRequestMessages({ model: 'claude-haiku-4.5', prompt: 'Hello' })).toEqual([
+        { role: 'user', content: 'Hello' },
+      ])
+    })
+
+    it('should prefer the messages array', () => {
+      const messages = [
+        { role: 'user' as const, content: 'Hello' },
+        { role: 'assistant' as const, content: 'Hi' },
+        { role: 'user' as const, content: 'Continue' },
+      ]
+
+      expect(getRequestMessages({ model: 'claude-haiku-4.5', prompt: 'ignored', messages })).toBe(
+        messages
+      )
+    })
+
+    it('should throw without a prompt or messages', () => {
+      expect(() => getRequestMessages({ model: 'claude-haiku-4.5' })).toThrow(
+        'LLM request needs a prompt or messages'
+      )
+    })
+  })
+
+  describe('tool call mapping', () => {
+    const conversation: ConversationMessage[] = [
+      { role: 'user', content: 'Analyze the codebase' },
+      {
+        role: 'assistant',
+        content: 'Let me look.',
+        toolCalls: [{ id: 'call-1', name: 'read_file', arguments: { path: 'src/app.ts' } }],
+      },
+      {
+        role: 'user',
+        content: '',
+        toolResults: [{ toolCallId: 'call-1', name: 'read_file', content: '1\texport {}' }],
+      },
+    ]
+
+    it('should map to Anthropic tool_use and tool_result blocks', () => {
+      const messages = toAnthropicMessages(conversation)
+
+      expect(messages[1]).toEqual({
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me look.' },
+          { type: 'tool_use', id: 'call-1', name: 'read_file', input: { path: 'src/app.ts' } },
+        ],
+      })
+      expect(messages[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call-1', content: '1\texport {}', is_error: undefined },
+        ],
+      })
+    })
+
+    it('should map to OpenAI tool_calls and tool messages', () => {
+      const messages = toOpenAIMessages(conversation, 'System')
+
+      expect(messages.map((m) => m.role)).toEqual(['system', 'user', 'assistant', 'tool'])
+      expect(messages[2]).toMatchObject({
+        tool_calls: [
+          {
+            id: 'call-1',
+            type: 'function',
+            function: { name: 'read_file', arguments: '{"path":"src/app.ts"}' },
+          },
+        ],
+      })
+      expect(messages[3]).toEqual({ role: 'tool', tool_call_id: 'call-1', content: '1\texport {}' })
+    })
+
+    it('should map to Gemini functionCall and functionResponse parts', () => {
+      const contents = toGeminiContents(conversation)
+
+      expect(contents.map((c) => c.role)).toEqual(['user', 'model', 'function'])
+      expect(contents[1].parts[1]).toEqual({
+        functionCall: { name: 'read_file', args: { path: 'src/app.ts' } },
+      })
+      expect(contents[2].parts[0]).toEqual({
+        functionResponse: { name: 'read_file', response: { content: '1\texport {}' } },
+      })
+    })
+  })
+
+  describe('streaming', () => {
+    const originalKey = process.env.ANTHROPIC_API_KEY
+
+    beforeEach(() => {
+      process.env.ANTHROPIC_API_KEY = 'test-key'
+    })
+
+    afterEach(() => {
+      if (originalKey === undefined) {
+        delete process.env.ANTHROPIC_API_KEY
+      } else {
+        process.env.ANTHROPIC_API_KEY = originalKey
+      }
+    })
+
+    it('should estimate tokens from text length', () => {
+      expect(estimateTokens('')).toBe(0)
+      expect(estimateTokens('abcd')).toBe(1)
+      expect(estimateTokens('abcde')).toBe(2)
+    })
+
+    it('should emit text deltas and finish with the real output token count', async () => {
+      anthropicStream.deltas = ['Hello', ' world, streaming']
+      anthropicStream.outputTokens = 4
+      const onToken = vi.fn()
+
+      const response = await callLLM({ model: 'claude-sonnet-4.5', prompt: 'Hi', onToken })
+
+      expect(response.content).toBe('Hello world, streaming')
+      expect(response.tokenUsage?.outputTokens).toBe(4)
+      expect(onToken.mock.calls.map(([delta]) => delta)).toEqual([
+        { text: 'Hello', outputTokens: 2 },
+        { text: ' world, streaming', outputTokens: 6 },
+        { text: '', outputTokens: 4 },
+      ])
+    })
+  })
+
+  describe('structured output', () => {
+    const schema = {
+      type: 'object',
+      properties: { summary: { description: 'Your summary' } },
+      required: ['summary'],
+      additionalProperties: false,
+    }
+
+    beforeEach(() => {
+      process.env.ANTHROPIC_API_KEY = 'test-key'
+      anthropicStream.deltas = []
+    })
+
+    afterEach(() => {
+      anthropicStream.content = undefined
+    })
+
+    it('should force the Anthropic output tool and return its input', async () => {
+      anthropicStream.content = [
+        { type: 'tool_use', id: 'call-1', name: 'submit_outputs', input: { summary: 'Done' } },
+      ]
+
+      const response = await callLLM({
+        model: 'claude-sonnet-4.5',
+        prompt: 'Summarize',
+        responseSchema: schema,
+        onToken: () => {},
+      })
+
+      expect(anthropicStream.params).toMatchObject({
+        tools: [{ name: 'submit_outputs', input_schema: schema }],
+        tool_choice: { type: 'tool', name: 'submit_outputs' },
+      })
+      expect(response).toMatchObject({ structured: { summary: 'Done' }, content: '{"summary":"Done"}' })
+      expect(response.toolCalls).toBeUndefined()
+    })
+
+    it('should let the model pick between its tools and the output tool', async () => {
+      anthropicStream.content = [
+        { type: 'tool_use', id: 'call-1', name: 'read_file', input: { path: 'a.ts' } },
+      ]
+      const readFile = { name: 'read_file', description: 'Read a file', parameters: { type: 'object' } }
+
+      const response = await callLLM({
+        model: 'claude-sonnet-4.5',
+        prompt: 'Summarize',
+        tools: [readFile],
+        responseSchema: schema,
+        onToken: () => {},
+      })
+
+      expect(anthropicStream.params?.tool_choice).toEqual({ type: 'any' })
+      expect(response.structured).toBeUndefined()
+      expect(response.toolCalls?.[0]?.name).toBe('read_file')
+    })
+
+    it('should force the output tool on the last turn', async () => {
+      anthropicStream.content = [
+        { type: 'tool_use', id: 'call-1', name: 'submit_outputs', input: { summary: 'Done' } },
+      ]
+      const readFile = { name: 'read_file', description: 'Read a file', parameters: { type: 'object' } }
+
+      const response = await callLLM({
+        model: 'claude-sonnet-4.5',
+        prompt: 'Summarize',
+        tools: [readFile],
+        toolChoice: 'none',
+        responseSchema: schema,
+        onToken: () => {},
+      })
+
+      expect(anthropicStream.params?.tool_choice).toEqual({ type: 'tool', name: 'submit_outputs' })
+      expect(response.structured).toEqual({ summary: 'Done' })
+    })
+
+    it('should keep tools defined but disabled with toolChoice none', async () => {
+      anthropicStream.content = [{ type: 'text', text: 'Final answer' }]
+      const readFile = { name: 'read_file', description: 'Read a file', parameters: { type: 'object' } }
+
+      await callLLM({
+        model: 'claude-sonnet-4.5',
+        prompt: 'Summarize',
+        tools: [readFile],
+        toolChoice: 'none',
+        onToken: () => {},
+      })
+
+      expect(anthropicStream.params).toMatchObject({
+        tools: [{ name: 'read_file' }],
+        tool_choice: { type: 'none' },
+      })
+    })
+
+    it('should parse JSON answers, with or without a code fence', () => {
+      expect(parseStructuredContent('{"a": 1}')).toEqual({ a: 1 })
+      expect(parseStructuredContent('```json\n{"a": 1}\n```')).toEqual({ a: 1 })
+      expect(parseStructuredContent('[1, 2]')).toBeUndefined()
+      expect(parseStructuredContent('Summary: done')).toBeUndefined()
+    })
+  })
+
+  describe('provider registry', () => {
+    it('should send the model name to the configured endpoint at zero cost', async () => {
+      anthropicStream.deltas = ['ok']
+      anthropicStream.outputTokens = 1
+      const providers = createProviderRegistry({
+        local: { kind: 'anthropic', baseURL: 'http://localhost:8080' },
+      })
+
+      const response = await callLLM(
+        { model: 'local/qwen-coder', prompt: 'Hi', onToken: () => {} },
+        providers
+      )
+
+      expect(anthropicStream.clientOptions).toEqual({
+        apiKey: 'not-needed',
+        baseURL: 'http://localhost:8080',
+      })
+      expect(response.tokenUsage?.estimatedCost).toBe(0)
+    })
+
+    it('should name the provider of unknown model ids', () => {
+      expect(getProviderFromModel('anthropic/claude-opus-4.5')).toBe('anthropic')
+      expect(() => getProviderFromModel('ollama/llama3.1')).toThrow('Unknown provider "ollama"')
+    })
+  })
+
+  describe('record and replay', () => {
+    const originalKey = process.env.ANTHROPIC_API_KEY
+    const originalMode = process.env.CREW_LLM_MODE
+    let dir: string
+
+    const registry = (mode: 'live' | 'record' | 'replay', strict = true) =>
+      createProviderRegistry({}, { replay: { mode, dir, strict } })
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'crew-cassettes-'))
+      process.env.ANTHROPIC_API_KEY = 'test-key'
+      delete process.env.CREW_LLM_MODE
+      anthropicStream.deltas = ['recorded answer']
+      anthropicStream.outputTokens = 3
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+      for (const [name, value] of [
+        ['ANTHROPIC_API_KEY', originalKey],
+        ['CREW_LLM_MODE', originalMode],
+      ] as const) {
+        if (value === undefined) {
+          delete process.env[name]
+        } else {
+          process.env[name] = value
+        }
+      }
+    })
+
+    it('should record responses and replay them without calling the provider', async () => {
+      const request = { model: 'claude-sonnet-4.5', systemPrompt: 'You are PM', prompt: 'Plan it' }
+
+      const recorded = await callLLM({ ...request, onToken: () => {} }, registry('record'))
+      expect(readdirSync(dir)).toEqual([`${getCassetteKey(request)}.json`])
+
+      anthropicStream.deltas = ['live answer']
+      const onToken = vi.fn()
+      const replayed = await callLLM({ ...request, onToken }, registry('replay'))
+
+      expect(replayed).toEqual(recorded)
+      expect(onToken).toHaveBeenCalledWith({ text: 'recorded answer', outputTokens: 3 })
+    })
+
+    it('should fail on unrecorded requests in strict replay', async () => {
+      await expect(
+        callLLM({ model: 'claude-sonnet-4.5', prompt: 'New prompt' }, registry('replay'))
+      ).rejects.toThrow('No recorded LLM response for claude-sonnet-4.5')
+    })
+
+    it('should record unrecorded requests in non-strict replay', async () => {
+      const request = { model: 'claude-sonnet-4.5', prompt: 'New prompt', onToken: () => {} }
+
+      const response = await callLLM(request, registry('replay', false))
+
+      expect(response.content).toBe('recorded answer')
+      expect(readdirSync(dir)).toHaveLength(1)
+    })
+
+    it('should let CREW_LLM_MODE override the configured mode', async () => {
+      process.env.CREW_LLM_MODE = 'replay'
+      expect(getLLMMode({ mode: 'live', dir, strict: true })).toBe('replay')
+      await expect(
+        callLLM({ model: 'claude-sonnet-4.5', prompt: 'Hi' }, registry('live'))
+      ).rejects.toThrow('No recorded LLM response')
+
+      process.env.CREW_LLM_MODE = 'rewind'
+      expect(() => getLLMMode()).toThrow('Invalid CREW_LLM_MODE "rewind"')
+    })
+
+    it('should key requests by model, system prompt and messages, ignoring durations', () => {
+      const base = { model: 'claude-sonnet-4.5', systemPrompt: 'You are QA', prompt: 'Done in 1234ms' }
+
+      expect(getCassetteKey(base)).toBe(getCassetteKey({ ...base, prompt: 'Done in 87ms' }))
+      expect(getCassetteKey(base)).not.toBe(getCassetteKey({ ...base, model: 'claude-opus-4.5' }))
+      expect(getCassetteKey(base)).not.toBe(getCassetteKey({ ...base, systemPrompt: 'You are FE' }))
+      expect(getCassetteKey(base)).not.toBe(getCassetteKey({ ...base, prompt: 'Done' }))
+    })
+  })
+
+  describe('classifyLLMError', () => {
+    const withStatus = (message: string, status: number) => Object.assign(new Error(message), { status })
+
+    it('should classify by HTTP status', () => {
+      expect(classifyLLMError(withStatus('slow down', 429))).toBe('rate_limit')
+      expect(classifyLLMError(withStatus('Overloaded', 529))).toBe('server_error')
+      expect(classifyLLMError(withStatus('Bad gateway', 502))).toBe('server_error')
+      expect(classifyLLMError(withStatus('Request Timeout', 408))).toBe('timeout')
+    })
+
+    it('should classify context length errors before their status', () => {
+      expect(
+        classifyLLMError(withStatus('prompt is too long: 210000 tokens > 200000 maximum', 400))
+      ).toBe('context_length')
+      expect(
+        classifyLLMError(new Error("This model's maximum context length is 128000 tokens"))
+      ).toBe('context_length')
+    })
+
+    it('should look at the causes of wrapped errors', () => {
+      const wrapped = new Error('LLM API call failed (google): quota', {
+        cause: withStatus('Resource has been exhausted', 429),
+      })
+
+      expect(classifyLLMError(wrapped)).toBe('rate_limit')
+      expect(classifyLLMError(new Error('Request timed out.'))).toBe('timeout')
+    })
+
+    it('should not classify errors a fallback will not fix', () => {
+      expect(classifyLLMError(withStatus('invalid x-api-key', 401))).toBeUndefined()
+      expect(classifyLLMError(new Error('Unknown model provider for: x'))).toBeUndefined()
+      expect(classifyLLMError('boom')).toBeUndefined()
+    })
+  })
+
+  describe('getRetryAfter', () => {
+    const withHeaders = (headers: unknown) => Object.assign(new Error('Too many requests'), { headers })
+
+    it('should read retry-after seconds and retry-after-ms', () => {
+      expect(getRetryAfter(withHeaders({ 'retry-after': '2' }))).toBe(2000)
+      expect(getRetryAfter(withHeaders(new Headers({ 'retry-after-ms': '1500', 'retry-after': '2' })))).toBe(
+        1500
+      )
+    })
+
+    it('should read HTTP dates and look at causes', () => {
+      const date = new Date(Date.now() + 30_000).toUTCString()
+      const wrapped = new Error('LLM API call failed (openai)', {
+        cause: withHeaders({ 'retry-after': date }),
+      })
+
+      expect(getRetryAfter(wrapped)).toBeGreaterThan(28_000)
+      expect(getRetryAfter(wrapped)).toBeLessThanOrEqual(30_000)
+    })
+
+    it('should return undefined without a usable header', () => {
+      expect(getRetryAfter(withHeaders({}))).toBeUndefined()
+      expect(getRetryAfter(withHeaders({ 'retry-after': 'soon' }))).toBeUndefined()
+      expect(getRetryAfter('boom')).toBeUndefined()
+    })
+  })
+
   describe('validateAPIKeys', () => {
     const originalEnv = { ...process.env }
 
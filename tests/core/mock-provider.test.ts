@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MockProvider, formatMockOutputs, loadMockProvider } from '../../src/core/mock-provider'
+import { callLLM, classifyLLMError } from '../../src/core/llm-clients'
+import { createProviderRegistry } from '../../src/core/providers'
+import { Orchestrator } from '../../src/core/orchestrator'
+import { DEFAULT_CONFIG, type CrewConfig, type ProviderConfig } from '../../src/config'
+
+describe('Mock Provider', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'crew-mock-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const writeRules = (rules: unknown, name = 'rules.json'): string => {
+    const path = join(dir, name)
+    writeFileSync(path, typeof rules === 'string' ? rules : JSON.stringify(rules))
+    return path
+  }
+
+  describe('formatMockOutputs', () => {
+    it('should format outputs as typed output blocks', () => {
+      expect(formatMockOutputs({ plan: 'Do it', files: ['a.ts'], count: 2, ok: true })).toBe(
+        [
+          '<output name="plan">Do it</output>',
+          '<output name="files" type="json">["a.ts"]</output>',
+          '<output name="count" type="number">2</output>',
+          '<output name="ok" type="boolean">true</output>',
+        ].join('\n')
+      )
+    })
+  })
+
+  describe('rules', () => {
+    it('should reply with the first rule matching agent, action and prompt', async () => {
+      const mock = new MockProvider([
+        { agent: 'qa', content: 'qa reply' },
+        { action: 'root cause', prompt: 'login', content: 'ta reply' },
+        { content: 'fallback' },
+      ])
+
+      expect(await mock.respond({ agent: 'qa', model: 'x', prompt: '' })).toBe('qa reply')
+      expect(
+        await mock.respond({ agent: 'ta', action: 'Find the Root Cause', model: 'x', prompt: 'login fails' })
+      ).toBe('ta reply')
+      expect(await mock.respond({ agent: 'ta', action: 'Find the root cause', model: 'x', prompt: '' })).toBe(
+        'fallback'
+      )
+    })
+
+    it('should apply limited rules only to the first matching calls', async () => {
+      const mock = new MockProvider([{ times: 1, content: 'first' }, { content: 'later' }])
+
+      expect(await mock.respond({ model: 'x', prompt: '' })).toBe('first')
+      expect(await mock.respond({ model: 'x', prompt: '' })).toBe('later')
+    })
+
+    it('should send outputs as a JSON object to structured output calls', async () => {
+      const mock = new MockProvider([{ content: 'Notes', outputs: { spec: 'Spec', files: ['a.ts'] } }])
+
+      expect(await mock.respond({ model: 'x', prompt: '', structured: true })).toBe(
+        '{"spec":"Spec","files":["a.ts"]}'
+      )
+    })
+
+    it('should fail calls no rule matches', async () => {
+      const mock = new MockProvider([{ agent: 'pm', content: 'pm reply' }])
+
+      await expect(mock.respond({ agent: 'fe', action: 'Implement', model: 'x', prompt: '' })).rejects.toThrow(
+        'No mock rule matches call 1 from fe: Implement'
+      )
+    })
+
+    it('should wait before replying and stop when aborted', async () => {
+      const mock = new MockProvider([{ delay: 10_000, content: 'late' }])
+      const controller = new AbortController()
+
+      const reply = mock.respond({ model: 'x', prompt: '' }, controller.signal)
+      controller.abort()
+
+      await expect(reply).rejects.toThrow('Mock call aborted')
+    })
+  })
+
+  describe('callLLM', () => {
+    const registry = (mockFile: string) =>
+      createProviderRegistry({ mock: { kind: 'mock', mockFile } })
+
+    it('should inject errors that fallback classification understands', async () => {
+      const providers = registry(
+        writeRules({
+          rules: [
+            { times: 1, error: { message: 'Too many requests', status: 429 } },
+            { outputs: { answer: 42 } },
+          ],
+        })
+      )
+
+      const error = await callLLM({ model: 'mock/any', prompt: 'Hi' }, providers).catch((e: unknown) => e)
+      expect(classifyLLMError(error)).toBe('rate_limit')
+
+      const response = await callLLM({ model: 'mock/any', prompt: 'Hi' }, providers)
+      expect(response.content).toBe('<output name="answer" type="number">42</output>')
+      expect(response.tokenUsage?.model).toBe('mock/any')
+      expect(response.tokenUsage?.estimatedCost).toBe(0)
+    })
+
+    it('should hold later calls to the provider for a retry-after', async () => {
+      const providers = registry(
+        writeRules([
+          { times: 1, error: { message: 'Too many requests', status: 429, retryAfter: 0.05 } },
+          { content: 'ok' },
+        ])
+      )
+      const onQueueWait = vi.fn()
+
+      await expect(callLLM({ model: 'mock/any', prompt: 'Hi' }, providers)).rejects.toThrow(
+        'Too many requests'
+      )
+      const response = await callLLM({ model: 'mock/any', prompt: 'Hi', onQueueWait }, providers)
+
+      expect(response.content).toBe('ok')
+      expect(onQueueWait).toHaveBeenCalledTimes(1)
+      expect(onQueueWait.mock.calls[0]?.[0]).toBeGreaterThan(0)
+    })
+
+    it('should load handlers from script modules', async () => {
+      const script = writeRules(
+        'export default (call) => ({ content: `${call.agent} call ${call.call}: ${call.prompt}` })\n',
+        'rules.mjs'
+      )
+
+      const response = await callLLM({ model: 'mock/any', prompt: 'Hi', agent: 'pm' }, registry(script))
+
+      expect(response.content).toBe('pm call 1: Hi')
+    })
+
+    it('should reject invalid rules files', async () => {
+      await expect(loadMockProvider(writeRules({ rules: [{ agent: 'ceo' }] }))).rejects.toThrow(
+        /Invalid mock file .*rules\.json: rules\.0\.agent/
+      )
+    })
+
+    it('should reject rules with invalid patterns', async () => {
+      await expect(loadMockProvider(writeRules([{ action: '[', content: 'x' }]))).rejects.toThrow(
+        /Invalid mock file .*rules\.json: rules\.0\.action: Invalid regular expression/
+      )
+    })
+  })
+
+  describe('orchestrator', () => {
+    const mockConfig = (rules: unknown, pricing?: ProviderConfig['pricing']): CrewConfig => {
+      const route = (agent: CrewConfig['crew']['pm']) => ({ ...agent, model: 'mock/scripted', tools: [] })
+      const mock: ProviderConfig = { kind: 'mock', mockFile: writeRules(rules), pricing }
+
+      return {
+        ...DEFAULT_CONFIG,
+        providers: { mock },
+        crew: {
+          pm: route(DEFAULT_CONFIG.crew.pm),
+          ta: route(DEFAULT_CONFIG.crew.ta),
+          fe: route(DEFAULT_CONFIG.crew.fe),
+          design: route(DEFAULT_CONFIG.crew.design),
+          qa: route(DEFAULT_CONFIG.crew.qa),
+        },
+      }
+    }
+
+    const bugfixRules = [
+      { action: 'Analyze bug', outputs: { bug_analysis: 'Null session', fix_plan: 'Guard it' } },
+      { agent: 'ta', outputs: { root_cause_analysis: 'Missing check', affected_files: ['src/auth.ts'] } },
+      { agent: 'fe', outputs: { fix_code: 'if (!session) return', changed_files: ['src/auth.ts'] } },
+      // First QA reply misses an output, so the task is retried with the failure
+      { agent: 'qa', times: 1, content: 'Looks fine' },
+      { agent: 'qa', outputs: { test_results: 'All passing', regression_report: 'None' } },
+      { action: 'close', outputs: { closure_summary: 'Fixed' } },
+    ]
+
+    it('should run a workflow end to end, retrying invalid replies', async () => {
+      const orchestrator = new Orchestrator(mockConfig(bugfixRules), dir)
+
+      const state = await orchestrator.execute('Fix login crash', 'bugfix', dir)
+
+      expect(state.status).toBe('completed')
+      expect(state.context.outputs.closure_summary).toBe('Fixed')
+      expect(state.tasks.map((task) => task.status)).toEqual(Array(5).fill('completed'))
+    })
+
+    it('should load a relative mock file from the project directory', async () => {
+      const config = mockConfig(bugfixRules)
+      const mock: ProviderConfig = { kind: 'mock', mockFile: 'rules.json' }
+
+      const state = await new Orchestrator({ ...config, providers: { mock } }, dir).execute(
+        'Fix login crash',
+        'bugfix',
+        dir
+      )
+
+      expect(state.status).toBe('completed')
+    })
+
+    it('should record cassettes in the project directory', async () => {
+      const config = mockConfig(bugfixRules)
+      const replay = { mode: 'record' as const, dir: 'cassettes', strict: true }
+
+      await new Orchestrator({ ...config, replay }, dir).execute('Fix login crash', 'bugfix', dir)
+
+      expect(readdirSync(join(dir, 'cassettes')).length).toBeGreaterThan(0)
+      expect(existsSync(join(process.cwd(), 'cassettes'))).toBe(false)
+    })
+
+    it('should total token usage and cost across tasks', async () => {
+      const priced = await new Orchestrator(
+        mockConfig(bugfixRules, { scripted: { input: 1000, output: 1000 } }),
+        dir
+      ).execute('Fix login crash', 'bugfix', dir)
+
+      expect(priced.tokenUsage?.totalTokens).toBeGreaterThan(0)
+      expect(priced.tokenUsage?.estimatedCost).toBeCloseTo(priced.tokenUsage!.totalTokens / 1000)
+      expect(priced.tokenUsage?.unpricedModels).toBeUndefined()
+
+      const unpriced = await new Orchestrator(
+        mockConfig(bugfixRules, { other: { input: 1, output: 1 } }),
+        dir
+      ).execute('Fix login crash', 'bugfix', dir)
+
+      expect(unpriced.tokenUsage).toMatchObject({ estimatedCost: 0, unpricedModels: ['mock/scripted'] })
+    })
+
+    it('should stop the workflow when an agent would exceed its budget', async () => {
+      const config = mockConfig(bugfixRules)
+      const orchestrator = new Orchestrator(
+        { ...config, crew: { ...config.crew, ta: { ...config.crew.ta, budget: { maxTokens: 1000 } } } },
+        dir
+      )
+
+      await expect(orchestrator.execute('Fix login crash', 'bugfix', dir)).rejects.toThrow(
+        'Budget exceeded: TA call to mock/scripted'
+      )
+
+      const state = orchestrator.getWorkflowState()
+      expect(state?.status).toBe('failed')
+      expect(state?.error).toMatchObject({ code: 'BUDGET_EXCEEDED', context: { agent: 'ta', scope: 'agent' } })
+      expect(state?.agentTokenUsage?.pm?.totalTokens).toBeGreaterThan(0)
+      expect(state?.agentTokenUsage?.ta).toBeUndefined()
+
+      const reports = join(dir, DEFAULT_CONFIG.incidentReport.outputDir)
+      const [report] = readdirSync(reports)
+      expect(readFileSync(join(reports, report ?? ''), 'utf-8')).toContain(
+        "A call by the TA agent was refused because it would exceed the TA agent's budget"
+      )
+    })
+
+    it('should write an incident report when an agent keeps failing', async () => {
+      const rules = bugfixRules.map((rule) =>
+        rule.agent === 'fe' ? { agent: 'fe', error: 'Invalid request: unsupported model' } : rule
+      )
+      const orchestrator = new Orchestrator(mockConfig(rules), dir)
+
+      await expect(orchestrator.execute('Fix login crash', 'bugfix', dir)).rejects.toThrow(
+        'Invalid request: unsupported model'
+      )
+
+      expect(orchestrator.getWorkflowState()?.status).toBe('failed')
+      const reports = join(dir, DEFAULT_CONFIG.incidentReport.outputDir)
+      expect(existsSync(reports) && readdirSync(reports).length).toBe(1)
+    })
+  })
+})
@@ -1,19 +1,29 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { Orchestrator } from '../../src/core/orchestrator'
+import { ContextManager } from '../../src/core/context-manager'
 import type { CrewConfig } from '../../src/config'
 import type { Task, AgentError } from '../../src/core/types'
 
 // Mock dependencies
 vi.mock('../../src/core/context-manager', () => ({
   ContextManager: class {
+    static import() {
+      return new this()
+    }
     getContext = vi.fn().mockReturnValue({})
     updateContext = vi.fn()
+    setData = vi.fn()
+    setOutput = vi.fn()
+    getAllOutputs = vi.fn().mockReturnValue({})
+    addHistoryEntry = vi.fn()
     getPhase = vi.fn().mockReturnValue('idle')
     getWorkflowId = vi.fn().mockReturnValue('workflow-123')
   },
 }))
 
-vi.mock('../../src/core/task-queue', () => ({
+vi.mock('../../src/core/task-queue', async (importOriginal) => ({
+  findDependencyCycle: (await importOriginal<typeof import('../../src/core/task-queue')>())
+    .findDependencyCycle,
   TaskQueue: class {
     addTasks = vi.fn()
     addTask = vi.fn()
@@ -39,11 +49,14 @@ vi.mock('../../src/core/workflow-storage', () => ({
     cleanup = vi.fn().mockResolvedValue(0)
     exists = vi.fn().mockResolvedValue(false)
     getSummary = vi.fn().mockResolvedValue(null)
+    getStopRequest = vi.fn().mockResolvedValue(null)
+    clearStopRequest = vi.fn().mockResolvedValue(undefined)
   },
 }))
 
 vi.mock('../../src/core/agent-runner', () => ({
   AgentRunner: class {
+    setContextManager = vi.fn()
     executeWithRetry = vi.fn().mockResolvedValue({
       success: true,
       output: {},
@@ -173,6 +186,12 @@ const mockConfig: CrewConfig = {
     postToolUse: [],
     stop: [],
   },
+  planning: {
+    enabled: false,
+    output: 'execution_plan',
+    maxTasks: 8,
+    allowedAgents: ['ta', 'design', 'fe', 'qa'],
+  },
 }
 
 describe('Orchestrator', () => {
@@ -199,6 +218,7 @@ describe('Orchestrator', () => {
     it('should execute a feature workflow successfully', async () => {
       // Mock the internal methods
       const mockAgentRunner = {
+        setContextManager: vi.fn(),
         executeWithRetry: vi.fn().mockResolvedValue({
           success: true,
           output: { result: 'success' },
@@ -247,6 +267,7 @@ describe('Orchestrator', () => {
 
     it('should handle workflow failure', async () => {
       const mockAgentRunner = {
+        setContextManager: vi.fn(),
         executeWithRetry: vi.fn().mockRejectedValue(new Error('Agent failed')),
       }
 
@@ -260,6 +281,7 @@ describe('Orchestrator', () => {
         updateTaskStatus: vi.fn(),
         markTaskFailed: vi.fn(),
         getPendingTasks: vi.fn().mockReturnValue([]),
+        getAllTasks: vi.fn().mockReturnValue([]),
       }
 
       // @ts-expect-error - accessing private property for testing
@@ -384,6 +406,7 @@ describe('Orchestrator', () => {
       orchestrator.on(eventHandler)
 
       const mockAgentRunner = {
+        setContextManager: vi.fn(),
         executeWithRetry: vi.fn().mockRejectedValue(new Error('Test error')),
       }
 
@@ -397,6 +420,7 @@ describe('Orchestrator', () => {
         updateTaskStatus: vi.fn(),
         markTaskFailed: vi.fn(),
         getPendingTasks: vi.fn().mockReturnValue([]),
+        getAllTasks: vi.fn().mockReturnValue([]),
       }
 
       // @ts-expect-error - accessing private property for testing
@@ -475,6 +499,7 @@ describe('Orchestrator', () => {
         getPendingTasks: vi.fn().mockReturnValue([
           { id: 'task-1', status: 'pending' },
         ]),
+        getAllTasks: vi.fn().mockReturnValue([]),
       }
 
       // @ts-expect-error - accessing private property for testing
@@ -487,6 +512,7 @@ describe('Orchestrator', () => {
 
     it('should handle task failures properly', async () => {
       const mockAgentRunner = {
+        setContextManager: vi.fn(),
         executeWithRetry: vi.fn().mockResolvedValue({
           success: false,
           error: {
@@ -507,6 +533,7 @@ describe('Orchestrator', () => {
         updateTaskStatus: vi.fn(),
         markTaskFailed: vi.fn(),
         getPendingTasks: vi.fn().mockReturnValue([]),
+        getAllTasks: vi.fn().mockReturnValue([]),
       }
 
       // @ts-expect-error - accessing private property for testing
@@ -562,6 +589,97 @@ describe('Orchestrator', () => {
       expect(addedTasks[1].dependsOn).toBeDefined()
       expect(addedTasks[1].dependsOn?.length).toBeGreaterThan(0)
     })
+
+    it('should reject SOPs whose inputs are not produced upstream', async () => {
+      const brokenConfig: CrewConfig = {
+        ...mockConfig,
+        sop: {
+          ...mockConfig.sop,
+          bugfix: {
+            name: 'bugfix',
+            description: 'Bug fix SOP',
+            requiredAgents: ['pm', 'fe'],
+            steps: [
+              { order: 1, agent: 'fe', action: 'Fix', inputs: ['root_cause'], outputs: ['fix'] },
+              { order: 2, agent: 'pm', action: 'Triage', inputs: [], outputs: ['root_cause'] },
+            ],
+          },
+        },
+      }
+      const orch = new Orchestrator(brokenConfig, '/test/project')
+
+      const mockTaskQueue = {
+        addTasks: vi.fn(),
+        getAllTasks: vi.fn().mockReturnValue([]),
+      }
+
+      // @ts-expect-error - accessing private property for testing
+      orch.taskQueue = mockTaskQueue
+
+      await expect(orch.execute('Fix login', 'bugfix')).rejects.toThrow(
+        'input "root_cause" is produced by "2-pm", which does not run before it'
+      )
+      expect(mockTaskQueue.addTasks).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('explicit step dependencies', () => {
+    it('should plan tasks from dependsOn instead of step order', async () => {
+      const dagConfig: CrewConfig = {
+        ...mockConfig,
+        sop: {
+          ...mockConfig.sop,
+          refactor: {
+            name: 'refactor',
+            description: 'Refactoring SOP',
+            requiredAgents: ['pm', 'ta', 'qa'],
+            steps: [
+              { id: 'scope', order: 1, agent: 'pm', action: 'Scope', inputs: [], outputs: [] },
+              {
+                id: 'analyze',
+                order: 2,
+                agent: 'ta',
+                action: 'Analyze',
+                inputs: [],
+                outputs: [],
+                dependsOn: ['scope'],
+              },
+              {
+                id: 'safety-net',
+                order: 3,
+                agent: 'qa',
+                action: 'Safety net',
+                inputs: [],
+                outputs: [],
+                dependsOn: ['scope'],
+              },
+            ],
+          },
+        },
+      }
+      const orch = new Orchestrator(dagConfig, '/test/project')
+
+      const mockTaskQueue = {
+        addTasks: vi.fn(),
+        isComplete: vi.fn().mockReturnValue(true),
+        hasFailed: vi.fn().mockReturnValue(false),
+        getNextExecutableTasks: vi.fn().mockReturnValue([]),
+        getAllTasks: vi.fn().mockReturnValue([]),
+      }
+
+      // @ts-expect-error - accessing private property for testing
+      orch.taskQueue = mockTaskQueue
+
+      const result = await orch.execute('Refactor auth', 'refactor')
+
+      const addedTasks: Task[] = mockTaskQueue.addTasks.mock.calls[0][0]
+      expect(addedTasks.map((t) => t.id)).toEqual([
+        `${result.id}-scope`,
+        `${result.id}-analyze`,
+        `${result.id}-safety-net`,
+      ])
+      expect(addedTasks[2]?.dependsOn).toEqual([`${result.id}-scope`])
+    })
   })
 
   describe('parallel task execution', () => {
@@ -569,6 +687,7 @@ describe('Orchestrator', () => {
       const executionOrder: string[] = []
 
       const mockAgentRunner = {
+        setContextManager: vi.fn(),
         executeWithRetry: vi.fn().mockImplementation(async (task: Task) => {
           executionOrder.push(task.id)
           await new Promise((resolve) => setTimeout(resolve, 10))
@@ -613,6 +732,354 @@ describe('Orchestrator', () => {
     })
   })
 
+  describe('feedback loops', () => {
+    const loopConfig = (maxIterations: number): CrewConfig => ({
+      ...mockConfig,
+      sop: {
+        ...mockConfig.sop,
+        feature: {
+          name: 'feature',
+          description: 'Feature development SOP',
+          requiredAgents: ['fe', 'qa', 'pm'],
+          steps: [
+            { id: 'implement', order: 1, agent: 'fe', action: 'Implement', inputs: [], outputs: ['code'] },
+            {
+              id: 'verify',
+              order: 2,
+              agent: 'qa',
+              action: 'Verify',
+              inputs: ['code'],
+              outputs: ['quality_assessment'],
+              loop: { when: 'qa.quality_assessment.pass == false', goto: 'implement', maxIterations },
+            },
+            { id: 'review', order: 3, agent: 'pm', action: 'Review', inputs: ['quality_assessment'], outputs: [] },
+          ],
+        },
+      },
+    })
+
+    const runLoop = async (maxIterations: number, passOnRun: number) => {
+      const { TaskQueue: RealTaskQueue } = await vi.importActual<
+        typeof import('../../src/core/task-queue')
+      >('../../src/core/task-queue')
+      const orch = new Orchestrator(loopConfig(maxIterations), '/test/project')
+      const executed: string[] = []
+      let qaRuns = 0
+
+      const mockAgentRunner = {
+        setContextManager: vi.fn(),
+        executeWithRetry: vi.fn().mockImplementation(async (task: Task) => {
+          executed.push(`${task.id.split('-').pop()}@${task.iteration ?? 1}`)
+          if (task.agent !== 'qa') {
+            return { success: true, outputs: {} }
+          }
+          qaRuns++
+          return { success: true, outputs: { quality_assessment: { pass: qaRuns >= passOnRun } } }
+        }),
+      }
+
+      // @ts-expect-error - accessing private property for testing
+      orch.agentRunner = mockAgentRunner
+      // @ts-expect-error - accessing private property for testing
+      orch.taskQueue = new RealTaskQueue()
+
+      const events: string[] = []
+      orch.on((event) => {
+        if (event.type === 'task:loop') events.push(`${event.iteration}/${event.maxIterations}`)
+      })
+
+      const result = await orch.execute('Add login', 'feature')
+      return { result, executed, events }
+    }
+
+    it('should re-run FE with QA findings until QA passes', async () => {
+      const { result, executed, events } = await runLoop(3, 2)
+
+      expect(result.status).toBe('completed')
+      expect(executed).toEqual(['implement@1', 'verify@1', 'implement@2', 'verify@2', 'review@1'])
+      expect(events).toEqual(['2/3'])
+
+      const implement = result.tasks.find((t) => t.id === `${result.id}-implement`)
+      expect(implement).toMatchObject({ iteration: 2, feedback: ['quality_assessment'] })
+      expect(result.tasks.find((t) => t.id === `${result.id}-implement#1`)).toMatchObject({
+        status: 'completed',
+        iterationOf: `${result.id}-implement`,
+      })
+    })
+
+    it('should move on once max iterations are reached', async () => {
+      const { result, executed, events } = await runLoop(2, Infinity)
+
+      expect(result.status).toBe('completed')
+      expect(executed).toEqual(['implement@1', 'verify@1', 'implement@2', 'verify@2', 'review@1'])
+      expect(events).toEqual(['2/2'])
+    })
+  })
+
+  describe('conditional steps', () => {
+    it('should skip steps whose when condition is false and record why', async () => {
+      const { TaskQueue: RealTaskQueue } = await vi.importActual<
+        typeof import('../../src/core/task-queue')
+      >('../../src/core/task-queue')
+      const conditionalConfig: CrewConfig = {
+        ...mockConfig,
+        sop: {
+          ...mockConfig.sop,
+          feature: {
+            name: 'feature',
+            description: 'Feature development SOP',
+            requiredAgents: ['pm', 'design', 'fe'],
+            steps: [
+              { id: 'plan', order: 1, agent: 'pm', action: 'Plan', inputs: [], outputs: ['task_breakdown'] },
+              {
+                id: 'design',
+                order: 2,
+                agent: 'design',
+                action: 'Design',
+                inputs: ['task_breakdown'],
+                outputs: ['design_spec'],
+                when: 'task_breakdown.hasUI == true',
+              },
+              { id: 'implement', order: 3, agent: 'fe', action: 'Implement', inputs: ['task_breakdown'], outputs: [] },
+            ],
+          },
+        },
+      }
+      const orch = new Orchestrator(conditionalConfig, '/test/project')
+      const mockAgentRunner = {
+        setContextManager: vi.fn(),
+        executeWithRetry: vi.fn().mockResolvedValue({ success: true, outputs: {} }),
+      }
+
+      // @ts-expect-error - accessing private property for testing
+      orch.agentRunner = mockAgentRunner
+      // @ts-expect-error - accessing private property for testing
+      orch.taskQueue = new RealTaskQueue()
+
+      const skipped: string[] = []
+      orch.on((event) => {
+        if (event.type === 'task:skip') skipped.push(`${event.taskId}: ${event.reason}`)
+      })
+
+      const result = await orch.execute('Add rate limiting to the API', 'feature')
+
+      expect(result.status).toBe('completed')
+      expect(mockAgentRunner.executeWithRetry.mock.calls.map(([task]) => task.agent)).toEqual([
+        'pm',
+        'fe',
+      ])
+      expect(result.tasks.find((t) => t.agent === 'design')?.status).toBe('skipped')
+      expect(skipped).toEqual([
+        `${result.id}-design: Condition not met: task_breakdown.hasUI == true`,
+      ])
+      // @ts-expect-error - accessing private property for testing
+      expect(orch.contextManager.addHistoryEntry).toHaveBeenCalledWith(
+        'design',
+        'Design',
+        'skipped',
+        'Condition not met: task_breakdown.hasUI == true'
+      )
+    })
+  })
+
+  describe('approval checkpoints', () => {
+    const approvalConfig: CrewConfig = {
+      ...mockConfig,
+      sop: {
+        ...mockConfig.sop,
+        feature: {
+          name: 'feature',
+          description: 'Feature development SOP',
+          requiredAgents: ['pm', 'fe'],
+          steps: [
+            {
+              id: 'plan',
+              order: 1,
+              agent: 'pm',
+              action: 'Plan',
+              inputs: [],
+              outputs: ['execution_plan'],
+              approval: true,
+            },
+            { id: 'implement', order: 2, agent: 'fe', action: 'Implement', inputs: ['execution_plan'], outputs: [] },
+          ],
+        },
+      },
+    }
+
+    const runUntilApproval = async () => {
+      const { TaskQueue: RealTaskQueue } = await vi.importActual<
+        typeof import('../../src/core/task-queue')
+      >('../../src/core/task-queue')
+      const orch = new Orchestrator(approvalConfig, '/test/project')
+      const mockAgentRunner = {
+        setContextManager: vi.fn(),
+        executeWithRetry: vi.fn().mockResolvedValue({ success: true, outputs: {} }),
+      }
+
+      // @ts-expect-error - accessing private property for testing
+      orch.agentRunner = mockAgentRunner
+      // @ts-expect-error - accessing private property for testing
+      orch.taskQueue = new RealTaskQueue()
+      // @ts-expect-error - accessing private property for testing
+      const storage = orch.workflowStorage
+      // Reads return whatever was saved last, like the real storage
+      storage.load.mockImplementation(async () => storage.save.mock.calls.at(-1)?.[0] ?? null)
+
+      const events: string[] = []
+      orch.on((event) => events.push(event.type))
+
+      const result = await orch.execute('Add rate limiting to the API', 'feature')
+
+      return { orch, result, events, executeWithRetry: mockAgentRunner.executeWithRetry }
+    }
+
+    it('should pause for approval after the step completes', async () => {
+      const { result, events, executeWithRetry } = await runUntilApproval()
+
+      expect(result.status).toBe('awaiting-approval')
+      expect(result.approval).toMatchObject({
+        taskId: `${result.id}-plan`,
+        agent: 'pm',
+        outputs: ['execution_plan'],
+      })
+      expect(executeWithRetry.mock.calls.map(([task]) => task.agent)).toEqual(['pm'])
+      expect(events).toContain('workflow:awaiting-approval')
+      expect(events).not.toContain('workflow:complete')
+    })
+
+    it('should refuse to resume before approval', async () => {
+      const { orch, result } = await runUntilApproval()
+
+      await expect(orch.resume(result.id)).rejects.toThrow('awaiting approval')
+    })
+
+    it('should apply edited outputs and continue on approve', async () => {
+      const { orch, result, executeWithRetry } = await runUntilApproval()
+      const context = new ContextManager('feature', 'request', '/test/project')
+      vi.spyOn(ContextManager, 'import').mockReturnValueOnce(context)
+
+      const finalState = await orch.approve(result.id, {
+        outputs: { execution_plan: { steps: ['edited'] } },
+      })
+
+      expect(context.setOutput).toHaveBeenCalledWith('execution_plan', { steps: ['edited'] })
+      expect(context.addHistoryEntry).toHaveBeenCalledWith(
+        'pm',
+        'Plan',
+        'completed',
+        'Approved with edits to execution_plan'
+      )
+      expect(executeWithRetry.mock.calls.map(([task]) => task.agent)).toEqual(['pm', 'fe'])
+      expect(finalState.status).toBe('completed')
+      expect(finalState.tasks.find((t) => t.agent === 'pm')?.approvedAt).toBeInstanceOf(Date)
+    })
+
+    it('should reject edits to outputs the step does not produce', async () => {
+      const { orch, result } = await runUntilApproval()
+
+      await expect(orch.approve(result.id, { outputs: { design_spec: {} } })).rejects.toThrow(
+        `Task ${result.id}-plan has no output "design_spec"`
+      )
+    })
+
+    it('should cancel the workflow and reset the step on reject', async () => {
+      const { orch, result, events } = await runUntilApproval()
+
+      const rejected = await orch.reject(result.id, 'Plan misses the API')
+
+      expect(rejected.status).toBe('cancelled')
+      expect(rejected.approval).toBeUndefined()
+      expect(rejected.tasks.find((t) => t.agent === 'pm')?.status).toBe('pending')
+      expect(events.at(-1)).toBe('workflow:cancel')
+      await expect(orch.approve(result.id)).rejects.toThrow('not awaiting approval')
+    })
+  })
+
+  describe('dynamic plans', () => {
+    const planningConfig: CrewConfig = {
+      ...mockConfig,
+      planning: { ...mockConfig.planning, enabled: true, maxTasks: 3 },
+      sop: {
+        ...mockConfig.sop,
+        feature: {
+          name: 'feature',
+          description: 'Feature development SOP',
+          requiredAgents: ['pm', 'fe'],
+          steps: [
+            { id: 'plan', order: 1, agent: 'pm', action: 'Plan', inputs: [], outputs: ['execution_plan'] },
+            { id: 'implement', order: 2, agent: 'fe', action: 'Implement', inputs: ['execution_plan'], outputs: [] },
+          ],
+        },
+      },
+    }
+
+    const runWithPlan = async (plan: unknown) => {
+      const { TaskQueue: RealTaskQueue } = await vi.importActual<
+        typeof import('../../src/core/task-queue')
+      >('../../src/core/task-queue')
+      const orch = new Orchestrator(planningConfig, '/test/project')
+      const mockAgentRunner = {
+        setContextManager: vi.fn(),
+        executeWithRetry: vi.fn().mockImplementation(async (task: Task) => {
+          if (task.planner) {
+            // @ts-expect-error - accessing private property for testing
+            orch.contextManager.getAllOutputs.mockReturnValue({ execution_plan: plan })
+          }
+          return { success: true, outputs: {} }
+        }),
+      }
+
+      // @ts-expect-error - accessing private property for testing
+      orch.agentRunner = mockAgentRunner
+      // @ts-expect-error - accessing private property for testing
+      orch.taskQueue = new RealTaskQueue()
+
+      const expansions: ReadonlyArray<string>[] = []
+      orch.on((event) => {
+        if (event.type === 'plan:expand') expansions.push(event.addedTasks)
+      })
+
+      const run = orch.execute('Add rate limiting to the API', 'feature')
+      return { run, expansions, executeWithRetry: mockAgentRunner.executeWithRetry }
+    }
+
+    it('should run planned tasks between the planning step and its dependents', async () => {
+      const { run, expansions, executeWithRetry } = await runWithPlan({
+        tasks: [
+          { id: 'schema', agent: 'ta', action: 'Design the limits table' },
+          { id: 'tests', agent: 'qa', action: 'Write limit tests', dependsOn: ['schema'] },
+        ],
+      })
+      const result = await run
+
+      expect(result.status).toBe('completed')
+      expect(executeWithRetry.mock.calls.map(([task]) => task.agent)).toEqual(['pm', 'ta', 'qa', 'fe'])
+      expect(result.totalSteps).toBe(4)
+      expect(expansions).toEqual([['workflow-123-plan-schema', 'workflow-123-plan-tests']])
+    })
+
+    it('should ask the PM for a structured plan within the limits', async () => {
+      const { run, executeWithRetry } = await runWithPlan({ tasks: [] })
+      await run
+
+      const planner: Task = executeWithRetry.mock.calls[0][0]
+      expect(planner.planner).toBe(true)
+      expect(planner.action).toContain('Use at most 3 tasks, only these agents: ta, design, fe, qa')
+      expect(planner.validation?.schema?.execution_plan).toMatchObject({ type: 'object' })
+      expect(executeWithRetry.mock.calls.map(([task]) => task.agent)).toEqual(['pm', 'fe'])
+    })
+
+    it('should fail the planning task when the plan breaks the limits', async () => {
+      const { run, executeWithRetry } = await runWithPlan({
+        tasks: [{ id: 'deploy', agent: 'pm', action: 'Deploy to production' }],
+      })
+
+      await expect(run).rejects.toThrow('Invalid plan')
+      expect(executeWithRetry.mock.calls.map(([task]) => task.agent)).toEqual(['pm'])
+    })
+  })
+
   describe('workflow state', () => {
     it('should track workflow state during execution', async () => {
       const mockTaskQueue = {
@@ -640,4 +1107,187 @@ describe('Orchestrator', () => {
       expect(result.totalSteps).toBeDefined()
     })
   })
+
+  describe('resume', () => {
+    const createSavedState = (overrides: Record<string, unknown> = {}) => ({
+      id: 'wf-saved',
+      sopName: 'feature',
+      status: 'failed',
+      currentStep: 1,
+      totalSteps: 4,
+      tasks: [
+        { id: 'task-1', agent: 'pm', action: 'Plan', status: 'completed', retryCount: 0 },
+        {
+          id: 'task-2',
+          agent: 'ta',
+          action: 'Research',
+          status: 'failed',
+          retryCount: 3,
+          error: new Error('network'),
+        },
+        { id: 'task-3', agent: 'fe', action: 'Implement', status: 'running', retryCount: 0 },
+        { id: 'task-4', agent: 'qa', action: 'Test', status: 'pending', retryCount: 0 },
+      ],
+      context: { workflowId: 'wf-saved', projectPath: '/test/project', outputs: { plan: 'p' } },
+      startedAt: new Date(),
+      completedAt: new Date(),
+      error: { code: 'Error', message: 'network', recoverable: false },
+      ...overrides,
+    })
+
+    const createQueue = () => ({
+      reset: vi.fn(),
+      addTasks: vi.fn(),
+      isComplete: vi.fn().mockReturnValue(true),
+      hasFailed: vi.fn().mockReturnValue(false),
+      getNextExecutableTasks: vi.fn().mockReturnValue([]),
+      getAllTasks: vi.fn().mockReturnValue([]),
+    })
+
+    it('should throw when the workflow does not exist', async () => {
+      await expect(orchestrator.resume('wf-missing')).rejects.toThrow(
+        'Workflow not found: wf-missing'
+      )
+    })
+
+    it('should refuse to resume a completed workflow', async () => {
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.workflowStorage.load.mockResolvedValue(
+        createSavedState({ status: 'completed' })
+      )
+
+      await expect(orchestrator.resume('wf-saved')).rejects.toThrow('already completed')
+    })
+
+    it('should re-queue only unfinished tasks', async () => {
+      const mockTaskQueue = createQueue()
+
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.workflowStorage.load.mockResolvedValue(createSavedState())
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.taskQueue = mockTaskQueue
+
+      const result = await orchestrator.resume('wf-saved')
+
+      expect(mockTaskQueue.reset).toHaveBeenCalled()
+      const queued = mockTaskQueue.addTasks.mock.calls[0][0]
+      expect(queued.map((t: Task) => t.status)).toEqual([
+        'completed',
+        'pending',
+        'pending',
+        'pending',
+      ])
+      expect(queued[1].error).toBeUndefined()
+      expect(queued[1].retryCount).toBe(0)
+      expect(result.id).toBe('wf-saved')
+      expect(result.status).toBe('completed')
+      expect(result.error).toBeUndefined()
+    })
+
+    it('should emit workflow:resume with remaining task count', async () => {
+      const eventHandler = vi.fn()
+      orchestrator.on(eventHandler)
+
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.workflowStorage.load.mockResolvedValue(createSavedState())
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.taskQueue = createQueue()
+
+      await orchestrator.resume('wf-saved')
+
+      const resumeEvent = eventHandler.mock.calls
+        .map((call) => call[0])
+        .find((event) => event.type === 'workflow:resume')
+
+      expect(resumeEvent).toMatchObject({
+        type: 'workflow:resume',
+        workflowId: 'wf-saved',
+        remainingTasks: 3,
+      })
+    })
+  })
+
+  describe('cancellation', () => {
+    const createQueue = () => ({
+      addTasks: vi.fn(),
+      isComplete: vi.fn().mockReturnValue(false),
+      hasFailed: vi.fn().mockReturnValue(false),
+      getNextExecutableTasks: vi.fn().mockReturnValue([
+        { id: 'task-1', agent: 'pm', action: 'Plan' },
+      ]),
+      updateTaskStatus: vi.fn(),
+      markTaskFailed: vi.fn(),
+      getPendingTasks: vi.fn().mockReturnValue([]),
+      getCompletedTasks: vi.fn().mockReturnValue([]),
+      getAllTasks: vi.fn().mockReturnValue([]),
+    })
+
+    it('should cancel in-flight tasks and persist a cancelled state', async () => {
+      const eventHandler = vi.fn()
+      orchestrator.on(eventHandler)
+
+      const mockAgentRunner = {
+        setContextManager: vi.fn(),
+        executeWithRetry: vi.fn().mockImplementation(async () => {
+          orchestrator.cancel('User pressed Ctrl+C')
+          return {
+            success: false,
+            error: { code: 'ABORTED', message: 'aborted', recoverable: false },
+          }
+        }),
+      }
+      const mockTaskQueue = createQueue()
+
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.agentRunner = mockAgentRunner
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.taskQueue = mockTaskQueue
+
+      const result = await orchestrator.execute('Test task', 'feature')
+
+      expect(result.status).toBe('cancelled')
+      expect(mockTaskQueue.updateTaskStatus).toHaveBeenCalledWith('task-1', 'pending')
+      expect(mockTaskQueue.markTaskFailed).not.toHaveBeenCalled()
+
+      const options = mockAgentRunner.executeWithRetry.mock.calls[0][2]
+      expect(options.signal.aborted).toBe(true)
+
+      // @ts-expect-error - accessing private property for testing
+      const saved = orchestrator.workflowStorage.save.mock.calls.at(-1)[0]
+      expect(saved.status).toBe('cancelled')
+
+      const events = eventHandler.mock.calls.map((call) => call[0])
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: 'workflow:cancel', reason: 'User pressed Ctrl+C' })
+      )
+      expect(events.some((event) => event.type === 'workflow:fail')).toBe(false)
+    })
+
+    it('should pause after in-flight tasks finish', async () => {
+      const mockAgentRunner = {
+        setContextManager: vi.fn(),
+        executeWithRetry: vi.fn().mockImplementation(async () => {
+          orchestrator.pause()
+          return { success: true, outputs: {} }
+        }),
+      }
+      const mockTaskQueue = createQueue()
+
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.agentRunner = mockAgentRunner
+      // @ts-expect-error - accessing private property for testing
+      orchestrator.taskQueue = mockTaskQueue
+
+      const result = await orchestrator.execute('Test task', 'feature')
+
+      expect(result.status).toBe('paused')
+      expect(mockAgentRunner.executeWithRetry).toHaveBeenCalledTimes(1)
+      expect(mockTaskQueue.updateTaskStatus).toHaveBeenCalledWith('task-1', 'completed')
+    })
+
+    it('should ignore cancel when no workflow is running', () => {
+      expect(() => orchestrator.cancel()).not.toThrow()
+      expect(orchestrator.getWorkflowState()).toBeUndefined()
+    })
+  })
 })
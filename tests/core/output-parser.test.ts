@@ -359,5 +359,12 @@ It should not crash the parser.
       expect(instruction).toContain('type="number"')
       expect(instruction).toContain('type="boolean"')
     })
+
+    it('should advertise the patch format', () => {
+      const instruction = formatOutputInstruction(['data'])
+
+      expect(instruction).toContain('<patch path="src/example.ts">')
+      expect(instruction).toContain('@@ -10,3 +10,3 @@')
+    })
   })
 })
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createPlannedTasks,
+  createPlanValidation,
+  formatPlanInstruction,
+} from '../../src/core/planner'
+import { checkValidationGates } from '../../src/core/validation-gates'
+import { DEFAULT_CONFIG } from '../../src/config'
+import type { Task } from '../../src/core/types'
+
+describe('Dynamic Plans', () => {
+  const planning = { ...DEFAULT_CONFIG.planning, enabled: true, maxTasks: 2 }
+
+  const planner: Task = {
+    id: 'wf-1-plan',
+    agent: 'pm',
+    action: 'Plan',
+    inputs: [],
+    expectedOutputs: ['execution_plan'],
+    status: 'completed',
+    priority: 'medium',
+    retryCount: 0,
+    maxRetries: 3,
+  }
+
+  describe('createPlannedTasks', () => {
+    it('should create tasks that run after the planner', () => {
+      const tasks = createPlannedTasks(
+        {
+          tasks: [
+            { id: 'schema', agent: 'ta', action: 'Design the table', outputs: ['table_spec'] },
+            { id: 'api', agent: 'fe', action: 'Build the API', inputs: ['table_spec'], dependsOn: ['schema'] },
+          ],
+        },
+        planner,
+        planning,
+        'wf-1'
+      )
+
+      expect(tasks).toHaveLength(2)
+      expect(tasks[0]).toMatchObject({
+        id: 'wf-1-plan-schema',
+        agent: 'ta',
+        expectedOutputs: ['table_spec'],
+        dependsOn: ['wf-1-plan'],
+        plannedBy: 'wf-1-plan',
+        status: 'pending',
+      })
+      expect(tasks[1]).toMatchObject({
+        id: 'wf-1-plan-api',
+        inputs: ['table_spec'],
+        dependsOn: ['wf-1-plan-schema'],
+      })
+    })
+
+    it('should enforce task count and agent limits', () => {
+      const task = { id: 'a', agent: 'ta', action: 'Research' }
+
+      expect(() =>
+        createPlannedTasks({ tasks: [task, { ...task, id: 'b' }, { ...task, id: 'c' }] }, planner, planning, 'wf-1')
+      ).toThrow('Invalid plan: tasks: Too big')
+      expect(() =>
+        createPlannedTasks({ tasks: [{ ...task, agent: 'pm' }] }, planner, planning, 'wf-1')
+      ).toThrow('Invalid plan: tasks.0.agent')
+      expect(() => createPlannedTasks('do everything', planner, planning, 'wf-1')).toThrow(
+        'Invalid plan: (root)'
+      )
+    })
+
+    it('should reject unknown, duplicate and circular dependencies', () => {
+      const task = { id: 'a', agent: 'ta', action: 'Research' }
+
+      expect(() =>
+        createPlannedTasks({ tasks: [{ ...task, dependsOn: ['z'] }] }, planner, planning, 'wf-1')
+      ).toThrow('task "a" depends on unknown task "z"')
+      expect(() => createPlannedTasks({ tasks: [task, task] }, planner, planning, 'wf-1')).toThrow(
+        'duplicate task id "a"'
+      )
+      expect(() =>
+        createPlannedTasks(
+          { tasks: [{ ...task, dependsOn: ['b'] }, { ...task, id: 'b', dependsOn: ['a'] }] },
+          planner,
+          planning,
+          'wf-1'
+        )
+      ).toThrow('circular dependency')
+    })
+  })
+
+  describe('createPlanValidation', () => {
+    it('should gate the plan output on the plan schema', async () => {
+      const validation = createPlanValidation(planning, { requiredOutputs: ['execution_plan'] })
+
+      expect(validation.requiredOutputs).toEqual(['execution_plan'])
+
+      const valid = await checkValidationGates(
+        validation,
+        { execution_plan: { tasks: [{ id: 'a', agent: 'qa', action: 'Test' }] } },
+        { cwd: process.cwd() }
+      )
+      const invalid = await checkValidationGates(
+        validation,
+        { execution_plan: { tasks: [{ id: 'a', agent: 'pm', action: 'Test' }] } },
+        { cwd: process.cwd() }
+      )
+
+      expect(valid.passed).toBe(true)
+      expect(invalid.failures[0]).toContain('Output "execution_plan" does not match its schema')
+    })
+  })
+
+  describe('formatPlanInstruction', () => {
+    it('should describe the plan format and limits', () => {
+      const instruction = formatPlanInstruction(planning)
+
+      expect(instruction).toContain('Return execution_plan as JSON')
+      expect(instruction).toContain('at most 2 tasks, only these agents: ta, design, fe, qa')
+    })
+  })
+})
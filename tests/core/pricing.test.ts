@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { calculateCost, selectPricing } from '../../src/core/pricing'
+import { DEFAULT_PRICING } from '../../src/config'
+
+describe('Pricing', () => {
+  describe('selectPricing', () => {
+    const dated = [
+      { effectiveFrom: '2026-01-01', input: 3, output: 15 },
+      { effectiveFrom: '2026-07-01', input: 2, output: 10 },
+    ]
+
+    it('should pick the latest prices in effect on the date', () => {
+      expect(selectPricing(dated, new Date('2026-03-15'))?.input).toBe(3)
+      expect(selectPricing(dated, new Date('2026-07-01'))?.input).toBe(2)
+    })
+
+    it('should return nothing before the first effective date', () => {
+      expect(selectPricing(dated, new Date('2025-12-31'))).toBeUndefined()
+    })
+
+    it('should always apply undated prices', () => {
+      expect(selectPricing({ input: 1, output: 2 }, new Date('2000-01-01'))).toEqual({ input: 1, output: 2 })
+      expect(selectPricing(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('calculateCost', () => {
+    it('should price tokens per million', () => {
+      expect(calculateCost({ input: 3, output: 15 }, 1_000_000, 100_000)).toBeCloseTo(4.5)
+    })
+
+    it('should be free without pricing', () => {
+      expect(calculateCost(undefined, 1000, 1000)).toBe(0)
+    })
+
+    it('should charge prompt-cache tokens at their own rates', () => {
+      const pricing = { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 }
+
+      // 200k uncached, 600k cached and 200k written out of 1M input tokens
+      expect(
+        calculateCost(pricing, 1_000_000, 0, { cachedInputTokens: 600_000, cacheWriteTokens: 200_000 })
+      ).toBeCloseTo(0.6 + 0.18 + 0.75)
+    })
+
+    it('should charge cached tokens at the input rate without a cached rate', () => {
+      expect(calculateCost({ input: 3, output: 15 }, 1_000_000, 0, { cachedInputTokens: 500_000 })).toBeCloseTo(3)
+    })
+  })
+
+  it('should ship a valid price table for the built-in providers', () => {
+    expect(Object.keys(DEFAULT_PRICING.providers)).toEqual(['anthropic', 'openai', 'google'])
+  })
+})
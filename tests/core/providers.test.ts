@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { createProviderRegistry } from '../../src/core/providers'
+
+describe('Provider Registry', () => {
+  describe('resolve', () => {
+    it('should route built-in model names to their providers', () => {
+      const registry = createProviderRegistry()
+
+      expect(registry.resolve('claude-sonnet-4.5')).toMatchObject({
+        provider: 'anthropic',
+        model: 'claude-sonnet-4.5',
+        pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+        unpriced: false,
+      })
+      expect(registry.resolve('gpt-5.2-mini').provider).toBe('openai')
+      expect(registry.resolve('gemini-3-flash').provider).toBe('google')
+    })
+
+    it('should split provider/model ids at the first slash', () => {
+      const registry = createProviderRegistry({
+        gateway: { kind: 'openai-compatible', baseURL: 'https://llm.internal/v1' },
+      })
+
+      expect(registry.resolve('anthropic/claude-opus-4.5').model).toBe('claude-opus-4.5')
+      expect(registry.resolve('gateway/meta-llama/llama-3-70b')).toMatchObject({
+        provider: 'gateway',
+        model: 'meta-llama/llama-3-70b',
+        pricing: undefined,
+        unpriced: false,
+      })
+    })
+
+    it('should flag models missing from the price table as unpriced', () => {
+      const registry = createProviderRegistry()
+
+      expect(registry.resolve('openai/gpt-6')).toMatchObject({ pricing: undefined, unpriced: true })
+    })
+
+    it('should flag keyed providers without pricing as unpriced', () => {
+      const registry = createProviderRegistry({
+        together: {
+          kind: 'openai-compatible',
+          baseURL: 'https://api.together.xyz/v1',
+          apiKeyEnv: 'TOGETHER_KEY',
+        },
+      })
+
+      expect(registry.resolve('together/llama-3-70b')).toMatchObject({
+        pricing: undefined,
+        unpriced: true,
+      })
+    })
+
+    it('should fall back to configured wildcard pricing', () => {
+      const registry = createProviderRegistry({
+        openai: { kind: 'openai', pricing: { '*': { input: 5, output: 15 } } },
+      })
+
+      expect(registry.resolve('openai/gpt-6')).toMatchObject({
+        pricing: { input: 5, output: 15 },
+        unpriced: false,
+      })
+    })
+
+    it('should throw for unknown providers and models', () => {
+      const registry = createProviderRegistry()
+
+      expect(() => registry.resolve('ollama/llama3.1')).toThrow(
+        'Unknown provider "ollama" for model ollama/llama3.1. Available: anthropic, openai, google'
+      )
+      expect(() => registry.resolve('llama3.1')).toThrow('Unknown model provider for: llama3.1')
+    })
+  })
+
+  describe('createProviderRegistry', () => {
+    it('should merge configured providers over built-ins', () => {
+      const registry = createProviderRegistry({
+        anthropic: {
+          kind: 'anthropic',
+          baseURL: 'https://proxy.internal',
+          pricing: { 'claude-haiku-4.5': { input: 1, output: 5 } },
+        },
+      })
+
+      const resolved = registry.resolve('claude-haiku-4.5')
+      expect(resolved.config.baseURL).toBe('https://proxy.internal')
+      expect(resolved.config.apiKeyEnv).toBe('ANTHROPIC_API_KEY')
+      expect(resolved.pricing).toEqual({ input: 1, output: 5 })
+      expect(registry.resolve('claude-opus-4.5').pricing).toMatchObject({ input: 15, output: 75 })
+    })
+
+    it('should list the API key variables of all providers', () => {
+      const registry = createProviderRegistry({
+        together: { kind: 'openai', baseURL: 'https://api.together.xyz/v1', apiKeyEnv: 'TOGETHER_KEY' },
+        ollama: { kind: 'openai', baseURL: 'http://localhost:11434/v1' },
+      })
+
+      expect(registry.apiKeyEnvs()).toEqual([
+        'ANTHROPIC_API_KEY',
+        'OPENAI_API_KEY',
+        'GOOGLE_API_KEY',
+        'TOGETHER_KEY',
+      ])
+    })
+  })
+})
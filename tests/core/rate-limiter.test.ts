@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { RateLimiter } from '../../src/core/rate-limiter'
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /**
+   * Track when each acquire resolves
+   */
+  const track = (limiter: RateLimiter, tokens = 0, signal?: AbortSignal) => {
+    const state: { waited?: number; release?: (tokens?: number) => void; error?: Error } = {}
+    limiter.acquire(tokens, signal).then(
+      (slot) => Object.assign(state, { waited: slot.waited, release: slot.release }),
+      (error: Error) => Object.assign(state, { error })
+    )
+    return state
+  }
+
+  it('should admit requests right away without limits', async () => {
+    const limiter = new RateLimiter()
+
+    const slots = await Promise.all([limiter.acquire(100), limiter.acquire(100), limiter.acquire(100)])
+
+    expect(slots.map((slot) => slot.waited)).toEqual([0, 0, 0])
+  })
+
+  it('should cap concurrent requests', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 })
+
+    const first = track(limiter)
+    track(limiter)
+    const third = track(limiter)
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(third.release).toBeUndefined()
+    expect(limiter.pending).toBe(1)
+
+    first.release?.()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(third.waited).toBe(1000)
+  })
+
+  it('should spread requests over the minute', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 })
+
+    track(limiter)
+    track(limiter)
+    const third = track(limiter)
+    await vi.advanceTimersByTimeAsync(29_000)
+    expect(third.release).toBeUndefined()
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(third.waited).toBe(30_000)
+  })
+
+  it('should limit tokens per minute and correct estimates with actual usage', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 6000 })
+
+    const first = track(limiter, 1000)
+    await vi.advanceTimersByTimeAsync(0)
+    // The call used far more than estimated
+    first.release?.(7000)
+
+    const second = track(limiter, 1000)
+    await vi.advanceTimersByTimeAsync(10_000)
+    expect(second.release).toBeUndefined()
+
+    await vi.advanceTimersByTimeAsync(10_000)
+    expect(second.waited).toBe(20_000)
+  })
+
+  it('should hold requests for a retry-after pause', async () => {
+    const limiter = new RateLimiter()
+
+    limiter.pause(5000)
+    const slot = track(limiter)
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(slot.release).toBeUndefined()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(slot.waited).toBe(5000)
+  })
+
+  it('should drop waiting requests when aborted', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 })
+    const controller = new AbortController()
+
+    track(limiter)
+    const waiting = track(limiter, 0, controller.signal)
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(waiting.error?.message).toBe('Aborted while waiting for the rate limit')
+    expect(limiter.pending).toBe(0)
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ResponseCache, getCacheKey } from '../../src/core/response-cache'
+import type { LLMResponse } from '../../src/core/llm-clients'
+
+describe('ResponseCache', () => {
+  let dir: string
+  let cache: ResponseCache
+
+  const request = {
+    model: 'claude-sonnet-4.5',
+    temperature: 0.5,
+    systemPrompt: 'You are TA',
+    prompt: 'Design the API',
+  }
+
+  const response: LLMResponse = {
+    content: 'Use REST',
+    tokenUsage: {
+      model: 'claude-sonnet-4.5',
+      inputTokens: 100,
+      outputTokens: 20,
+      totalTokens: 120,
+      estimatedCost: 0.0006,
+    },
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'crew-cache-'))
+    cache = new ResponseCache(dir, 60_000)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should serve identical requests from the cache at zero cost', async () => {
+    const call = vi.fn().mockResolvedValue(response)
+    const onToken = vi.fn()
+
+    expect(await cache.fetch(request, call)).toEqual(response)
+    const cached = await cache.fetch({ ...request, onToken }, call)
+
+    expect(call).toHaveBeenCalledTimes(1)
+    expect(cached.content).toBe('Use REST')
+    expect(cached.tokenUsage).toEqual({ ...response.tokenUsage, estimatedCost: 0, cached: true })
+    expect(onToken).toHaveBeenCalledWith({ text: 'Use REST', outputTokens: 20 })
+  })
+
+  it('should key requests by model, temperature, tools, system prompt and prompt', () => {
+    const key = getCacheKey(request)
+
+    expect(getCacheKey({ ...request, onToken: () => {} })).toBe(key)
+    expect(getCacheKey({ ...request, model: 'claude-opus-4.5' })).not.toBe(key)
+    expect(getCacheKey({ ...request, temperature: 0.7 })).not.toBe(key)
+    expect(getCacheKey({ ...request, maxTokens: 1024 })).not.toBe(key)
+    expect(
+      getCacheKey({
+        ...request,
+        tools: [{ name: 'read_file', description: 'Read a file', parameters: { type: 'object' } }],
+      })
+    ).not.toBe(key)
+    expect(getCacheKey({ ...request, toolChoice: 'none' })).not.toBe(key)
+    expect(getCacheKey({ ...request, systemPrompt: 'You are QA' })).not.toBe(key)
+    expect(getCacheKey({ ...request, prompt: 'Design the UI' })).not.toBe(key)
+  })
+
+  it('should call again once entries expire', async () => {
+    vi.useFakeTimers()
+    const call = vi.fn().mockResolvedValue(response)
+
+    await cache.fetch(request, call)
+    vi.advanceTimersByTime(60_001)
+    await cache.fetch(request, call)
+
+    expect(call).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report entries, hits and saved cost', async () => {
+    const call = vi.fn().mockResolvedValue(response)
+    await cache.fetch(request, call)
+    await cache.fetch(request, call)
+    await cache.fetch(request, call)
+    await cache.fetch({ ...request, prompt: 'Other' }, call)
+
+    const stats = cache.stats()
+
+    expect(stats).toMatchObject({ entries: 2, expired: 0, hits: 2 })
+    expect(stats.savedCost).toBeCloseTo(0.0012)
+    expect(stats.size).toBeGreaterThan(0)
+  })
+
+  it('should clear all entries or only expired ones', async () => {
+    vi.useFakeTimers()
+    const call = vi.fn().mockResolvedValue(response)
+    await cache.fetch(request, call)
+    vi.advanceTimersByTime(60_001)
+    await cache.fetch({ ...request, prompt: 'Other' }, call)
+
+    expect(cache.clear({ expiredOnly: true })).toBe(1)
+    expect(cache.stats().entries).toBe(1)
+    expect(cache.clear()).toBe(1)
+    expect(cache.stats().entries).toBe(0)
+  })
+})
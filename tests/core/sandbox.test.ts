@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { execFileSync } from 'node:child_process'
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CommandSandbox, createSandboxEnv, formatSandboxResult } from '../../src/core/sandbox'
+import { DEFAULT_CONFIG } from '../../src/config'
+
+describe('CommandSandbox', () => {
+  const config = { ...DEFAULT_CONFIG.sandbox, allowedCommands: ['ls', 'seq', 'sleep', 'bun test'] }
+  let projectPath: string
+
+  beforeAll(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'crew-sandbox-'))
+    writeFileSync(join(projectPath, 'committed.txt'), 'committed')
+  })
+
+  afterAll(() => {
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('check', () => {
+    const sandbox = new CommandSandbox(config)
+
+    it('should allow listed commands with extra arguments', () => {
+      expect(sandbox.check('bun test')).toBeUndefined()
+      expect(sandbox.check('bun test tests/core --bail')).toBeUndefined()
+    })
+
+    it('should reject other commands and shell syntax', () => {
+      expect(sandbox.check('bun install')).toContain('is not allowed')
+      expect(sandbox.check('bun testx')).toContain('is not allowed')
+      expect(sandbox.check('bun test && rm -rf /')).toContain('uses shell syntax')
+      expect(sandbox.check('bun test $(whoami)')).toContain('uses shell syntax')
+    })
+  })
+
+  describe('createSandboxEnv', () => {
+    it('should drop secrets and put local binaries on PATH', () => {
+      const env = createSandboxEnv('/project', {
+        PATH: '/usr/bin',
+        HOME: '/home/dev',
+        ANTHROPIC_API_KEY: 'sk-ant',
+        OPENAI_API_KEY: 'sk-openai',
+        GITHUB_TOKEN: 'ghp',
+        DB_PASSWORD: 'hunter2',
+      })
+
+      expect(env).toEqual({
+        PATH: `${join('/project', 'node_modules', '.bin')}:/usr/bin`,
+        HOME: '/home/dev',
+      })
+    })
+
+    it('should drop other keys and the configured provider key variables', () => {
+      const env = createSandboxEnv(
+        '/project',
+        { PATH: '/usr/bin', TOGETHER_KEY: 'tg', KEY_FILE: 'id_rsa', OLLAMA_AUTH: 'x', KEYBOARD: 'us' },
+        ['OLLAMA_AUTH']
+      )
+
+      expect(env).toEqual({ PATH: `${join('/project', 'node_modules', '.bin')}:/usr/bin`, KEYBOARD: 'us' })
+    })
+  })
+
+  describe('run', () => {
+    it('should run in the project directory', async () => {
+      const result = await new CommandSandbox(config).run('ls', { projectPath })
+
+      expect(result).toMatchObject({ ok: true, exitCode: 0, output: 'committed.txt', truncated: false })
+    })
+
+    it('should keep the end of long output', async () => {
+      const result = await new CommandSandbox({ ...config, maxOutput: 1000 }).run('seq 1 10000', {
+        projectPath,
+      })
+
+      expect(result.truncated).toBe(true)
+      expect(result.output.length).toBeLessThanOrEqual(1000)
+      expect(result.output.endsWith('10000')).toBe(true)
+      expect(formatSandboxResult(result)).toMatch(/^Exit code 0\n\(earlier output truncated\)\n/)
+    })
+
+    it('should stop commands that time out', async () => {
+      const result = await new CommandSandbox(config).run('sleep 5', { projectPath, timeout: 200 })
+
+      expect(result.ok).toBe(false)
+      expect(result.timedOut).toBe(true)
+      expect(formatSandboxResult(result)).toContain('Command timed out')
+    })
+
+    it('should throw for commands that are not allowed', async () => {
+      await expect(new CommandSandbox(config).run('cat committed.txt', { projectPath })).rejects.toThrow(
+        'is not allowed'
+      )
+    })
+
+    it('should run in a scratch worktree of HEAD', async () => {
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: projectPath })
+      git('init', '-q')
+      git('add', 'committed.txt')
+      git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'init')
+      writeFileSync(join(projectPath, 'uncommitted.txt'), 'uncommitted')
+
+      const result = await new CommandSandbox({ ...config, worktree: true }).run('ls', { projectPath })
+
+      expect(result.output).toBe('committed.txt')
+      expect(git('worktree', 'list').toString().trim().split('\n')).toHaveLength(1)
+    })
+  })
+})
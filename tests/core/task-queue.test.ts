@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { TaskQueue } from '../../src/core/task-queue'
+import { TaskQueue, findDependencyCycle } from '../../src/core/task-queue'
 import type { Task } from '../../src/core/types'
 
 describe('TaskQueue', () => {
@@ -95,6 +95,13 @@ describe('TaskQueue', () => {
   })
 
   describe('getNextExecutableTasks', () => {
+    it('should treat skipped dependencies as satisfied', () => {
+      queue.addTask({ ...createTask('design', 1), status: 'skipped' })
+      queue.addTask({ ...createTask('implement', 2), dependsOn: ['design'] })
+
+      expect(queue.getNextExecutableTasks().map((t) => t.id)).toEqual(['implement'])
+    })
+
     it('should return pending tasks with no dependencies', () => {
       queue.addTask(createTask('task-1', 1))
       queue.addTask(createTask('task-2', 2))
@@ -230,6 +237,113 @@ describe('TaskQueue', () => {
     })
   })
 
+  describe('findDependencyCycle', () => {
+    it('should return the nodes forming the cycle', () => {
+      const graph = new Map([
+        ['a', ['b']],
+        ['b', ['c']],
+        ['c', ['a']],
+      ])
+
+      expect(findDependencyCycle(graph)).toEqual(['a', 'b', 'c', 'a'])
+    })
+
+    it('should return null for an acyclic graph', () => {
+      const graph = new Map([
+        ['a', []],
+        ['b', ['a']],
+        ['c', ['a', 'b', 'unknown']],
+      ])
+
+      expect(findDependencyCycle(graph)).toBeNull()
+    })
+  })
+
+  describe('startIteration', () => {
+    const setupLoop = () => {
+      queue.addTasks([
+        { ...createTask('plan', 1), status: 'completed' },
+        { ...createTask('implement', 2), dependsOn: ['plan'], status: 'completed' },
+        { ...createTask('docs', 3), dependsOn: ['implement'], status: 'completed' },
+        {
+          ...createTask('verify', 3),
+          dependsOn: ['implement'],
+          expectedOutputs: ['quality_assessment'],
+          loop: { when: 'quality_assessment.pass == false', gotoTaskId: 'implement', maxIterations: 3 },
+          status: 'completed',
+        },
+        { ...createTask('review', 4), dependsOn: ['verify'] },
+      ])
+    }
+
+    it('should reset tasks from the loop target to the looping task', () => {
+      setupLoop()
+
+      const rerun = queue.startIteration('verify')
+
+      expect(rerun.map((t) => t.id)).toEqual(['implement', 'verify'])
+      expect(queue.getTask('implement')).toMatchObject({
+        status: 'pending',
+        iteration: 2,
+        feedback: ['quality_assessment'],
+      })
+      expect(queue.getTask('verify')).toMatchObject({ status: 'pending', iteration: 2 })
+      expect(queue.getTask('docs')?.status).toBe('completed')
+      expect(queue.getNextExecutableTasks().map((t) => t.id)).toEqual(['implement'])
+    })
+
+    it('should keep completed iterations as history snapshots', () => {
+      setupLoop()
+
+      queue.startIteration('verify')
+      queue.updateTaskStatus('implement', 'completed')
+      queue.updateTaskStatus('verify', 'completed')
+      queue.startIteration('verify')
+
+      expect(queue.getTask('implement#1')).toMatchObject({
+        status: 'completed',
+        iteration: 1,
+        iterationOf: 'implement',
+      })
+      expect(queue.getTask('verify#2')?.loop).toBeUndefined()
+      expect(queue.getTask('verify')?.iteration).toBe(3)
+      expect(queue.getAllTasks()).toHaveLength(9)
+    })
+
+    it('should throw for tasks without a loop', () => {
+      setupLoop()
+
+      expect(() => queue.startIteration('review')).toThrow('Task has no loop: review')
+    })
+  })
+
+  describe('insertAfter', () => {
+    it('should run inserted tasks before the dependents of the anchor task', () => {
+      queue.addTasks([
+        { ...createTask('plan', 1), status: 'completed' },
+        { ...createTask('implement', 2), dependsOn: ['plan'] },
+      ])
+
+      queue.insertAfter('plan', [
+        { ...createTask('schema', 1), dependsOn: ['plan'] },
+        { ...createTask('api', 1), dependsOn: ['plan'] },
+        { ...createTask('tests', 1), dependsOn: ['schema'] },
+      ])
+
+      expect(queue.getTask('implement')?.dependsOn).toEqual(['plan', 'api', 'tests'])
+      expect(queue.getNextExecutableTasks().map((t) => t.id)).toEqual(['schema', 'api'])
+    })
+
+    it('should reject duplicate task ids', () => {
+      queue.addTasks([createTask('plan', 1), createTask('schema', 2)])
+
+      expect(() => queue.insertAfter('plan', [createTask('schema', 1)])).toThrow(
+        'Task already exists: schema'
+      )
+      expect(() => queue.insertAfter('missing', [])).toThrow('Task not found: missing')
+    })
+  })
+
   describe('reset', () => {
     it('should clear all tasks', () => {
       queue.addTask(createTask('task-1', 1))
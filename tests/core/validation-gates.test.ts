@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { checkValidationGates, lintValidationGates } from '../../src/core/validation-gates'
+
+describe('Validation Gates', () => {
+  const cwd = process.cwd()
+
+  describe('checkValidationGates', () => {
+    it('should pass when every gate holds', async () => {
+      const result = await checkValidationGates(
+        {
+          requiredOutputs: ['summary'],
+          schema: { quality_assessment: { type: 'object', required: ['pass'] } },
+          pattern: { summary: '^Done' },
+          condition: 'quality_assessment.pass == true',
+        },
+        { summary: 'Done: 3 files changed', quality_assessment: { pass: true } },
+        { cwd }
+      )
+
+      expect(result).toEqual({ passed: true, failures: [] })
+    })
+
+    it('should report missing and empty required outputs', async () => {
+      const result = await checkValidationGates(
+        { requiredOutputs: ['summary', 'changed_files', 'notes'] },
+        { summary: '  ', changed_files: [], notes: { ok: true } },
+        { cwd }
+      )
+
+      expect(result.passed).toBe(false)
+      expect(result.failures).toEqual([
+        'Required output "summary" is missing or empty',
+        'Required output "changed_files" is missing or empty',
+      ])
+    })
+
+    it('should check outputs against JSON Schemas', async () => {
+      const result = await checkValidationGates(
+        {
+          schema: {
+            quality_assessment: {
+              type: 'object',
+              properties: { pass: { type: 'boolean' } },
+              required: ['pass'],
+            },
+          },
+        },
+        { quality_assessment: { pass: 'yes' } },
+        { cwd }
+      )
+
+      expect(result.failures).toEqual([
+        'Output "quality_assessment" does not match its schema: pass: Invalid input: expected boolean, received string',
+      ])
+    })
+
+    it('should match patterns against text and JSON outputs', async () => {
+      const result = await checkValidationGates(
+        { pattern: { code: 'export function', report: '"pass":true' } },
+        { code: 'const x = 1', report: { pass: true } },
+        { cwd }
+      )
+
+      expect(result.failures).toEqual(['Output "code" does not match /export function/'])
+    })
+
+    it('should prefix failures with the gate message', async () => {
+      const result = await checkValidationGates(
+        { condition: 'coverage.percent >= 80', message: 'Coverage too low' },
+        { coverage: { percent: 60 } },
+        { cwd }
+      )
+
+      expect(result.failures).toEqual(['Coverage too low: Condition not met: coverage.percent >= 80'])
+    })
+
+    describe('commands', () => {
+      let dir: string
+
+      beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'crew-gates-'))
+        writeFileSync(join(dir, 'pass.js'), 'process.exit(0)')
+        writeFileSync(join(dir, 'fail.js'), "console.log('2 tests failed'); process.exit(1)")
+        writeFileSync(
+          join(dir, 'env.js'),
+          'process.exit(process.env.ANTHROPIC_API_KEY || process.env.GATE_TOKEN ? 1 : 0)'
+        )
+      })
+
+      afterAll(() => {
+        rmSync(dir, { recursive: true, force: true })
+      })
+
+      it('should run commands in the given directory', async () => {
+        const passing = await checkValidationGates({ command: 'node pass.js' }, {}, { cwd: dir })
+        const failing = await checkValidationGates({ command: 'node fail.js' }, {}, { cwd: dir })
+
+        expect(passing.passed).toBe(true)
+        expect(failing.failures).toHaveLength(1)
+        expect(failing.failures[0]).toContain('exited with code 1')
+        expect(failing.failures[0]).toContain('2 tests failed')
+      })
+
+      it('should run commands without a shell or secrets', async () => {
+        process.env.GATE_TOKEN = 'secret'
+        try {
+          const scrubbed = await checkValidationGates({ command: 'node env.js' }, {}, { cwd: dir })
+          expect(scrubbed.passed).toBe(true)
+        } finally {
+          delete process.env.GATE_TOKEN
+        }
+
+        const shell = await checkValidationGates(
+          { command: 'node pass.js && cat ~/.npmrc' },
+          {},
+          { cwd: dir }
+        )
+        expect(shell.failures).toEqual([
+          'Command "node pass.js && cat ~/.npmrc" uses shell syntax, which gates do not run',
+        ])
+      })
+
+      it('should skip the command when another gate already failed', async () => {
+        const result = await checkValidationGates(
+          { requiredOutputs: ['summary'], command: 'node fail.js' },
+          {},
+          { cwd: dir }
+        )
+
+        expect(result.failures).toEqual(['Required output "summary" is missing or empty'])
+      })
+    })
+  })
+
+  describe('lintValidationGates', () => {
+    it('should accept valid gates', () => {
+      expect(
+        lintValidationGates({
+          schema: { report: { type: 'array', items: { type: 'string' } } },
+          pattern: { report: '\\d+' },
+          condition: 'report.pass',
+        })
+      ).toEqual([])
+    })
+
+    it('should report invalid schemas, patterns and conditions', () => {
+      const errors = lintValidationGates({
+        schema: { report: { type: 'nope' } },
+        pattern: { code: '[' },
+        condition: 'a = 1',
+        command: 'npm test | tee log',
+      })
+
+      expect(errors).toHaveLength(4)
+      expect(errors[0]).toBe('schema for "report": Unsupported type: nope')
+      expect(errors[1]).toContain('pattern for "code"')
+      expect(errors[2]).toContain('condition: Unexpected character "="')
+      expect(errors[3]).toBe('command: "npm test | tee log" uses shell syntax, which gates do not run')
+    })
+  })
+})
@@ -58,4 +58,48 @@ describe('Configuration Schema', () => {
       expect(result.data).toBeUndefined()
     })
   })
+
+  describe('providers', () => {
+    const withQA = (model: string | string[], providers?: Record<string, unknown>) => ({
+      crew: {
+        ...DEFAULT_CONFIG.crew,
+        qa: { ...DEFAULT_CONFIG.crew.qa, model },
+      },
+      providers,
+    })
+
+    it('should accept provider/model ids for configured providers', () => {
+      const result = safeValidateConfig(
+        withQA('ollama/llama3.1:8b', {
+          ollama: { kind: 'openai-compatible', baseURL: 'http://localhost:11434/v1' },
+        })
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.data?.providers.ollama?.kind).toBe('openai-compatible')
+    })
+
+    it('should accept built-in providers without configuration', () => {
+      expect(safeValidateConfig(withQA('anthropic/claude-haiku-4.5')).success).toBe(true)
+    })
+
+    it('should reject unknown providers', () => {
+      const result = safeValidateConfig(withQA('vllm/qwen'))
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.path).toEqual(['crew', 'qa', 'model'])
+      expect(result.error?.issues[0]?.message).toContain('Unknown provider "vllm"')
+    })
+
+    it('should accept fallback chains and check each model', () => {
+      expect(safeValidateConfig(withQA(['claude-haiku-4.5', 'openai/gpt-5.2-mini'])).success).toBe(true)
+
+      const result = safeValidateConfig(withQA(['claude-haiku-4.5', 'vllm/qwen']))
+      expect(result.error?.issues[0]?.path).toEqual(['crew', 'qa', 'model', 1])
+    })
+
+    it('should reject model ids without a provider', () => {
+      expect(safeValidateConfig(withQA('llama3.1')).success).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { vol } from 'memfs'
+import { join } from 'node:path'
+import { createSOPRegistry, parseSOPFile, getSOPDirectories } from '../../src/sop'
+import { DEFAULT_CONFIG, type CrewConfig } from '../../src/config'
+
+// Mock fs module with memfs
+vi.mock('node:fs', async () => {
+  const memfs = await import('memfs')
+  return memfs.fs
+})
+
+// Mock os.homedir
+vi.mock('node:os', () => ({
+  homedir: () => '/test/home',
+}))
+
+const MIGRATION_YAML = `
+description: Database migration
+requiredAgents: [ta, qa]
+steps:
+  - id: plan
+    order: 1
+    agent: ta
+    action: Plan the migration
+    inputs: [user_request]
+    outputs: [migration_plan]
+  - id: verify
+    order: 2
+    agent: qa
+    action: Verify the migration
+    inputs: [migration_plan]
+    outputs: [verification_report]
+`
+
+describe('SOP Registry', () => {
+  const testCwd = '/test/project'
+  const localDir = join(testCwd, '.opencode', 'crew-opencode', 'sop')
+  const globalDir = join('/test/home', '.opencode', 'crew-opencode', 'sop')
+
+  beforeEach(() => {
+    vol.reset()
+    vi.spyOn(process, 'cwd').mockReturnValue(testCwd)
+    vol.mkdirSync(localDir, { recursive: true })
+    vol.mkdirSync(globalDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vol.reset()
+  })
+
+  it('should resolve local and global SOP directories', () => {
+    expect(getSOPDirectories()).toEqual({ global: globalDir, local: localDir })
+    expect(getSOPDirectories('/other').local).toBe(join('/other', '.opencode', 'crew-opencode', 'sop'))
+  })
+
+  it('should register built-in SOPs', () => {
+    const registry = createSOPRegistry()
+
+    expect(registry.names()).toEqual(['feature', 'bugfix', 'refactor'])
+    expect(registry.getEntry('feature')?.source).toBe('builtin')
+  })
+
+  it('should load YAML SOPs named after their file', () => {
+    vol.writeFileSync(join(localDir, 'migration.yaml'), MIGRATION_YAML)
+
+    const registry = createSOPRegistry()
+    const migration = registry.get('migration')
+
+    expect(registry.names()).toEqual(['feature', 'bugfix', 'refactor', 'migration'])
+    expect(migration?.steps.map((s) => s.id)).toEqual(['plan', 'verify'])
+    expect(registry.getEntry('migration')?.source).toBe('local')
+  })
+
+  it('should load JSON and Markdown SOPs', () => {
+    vol.writeFileSync(
+      join(globalDir, 'docs.json'),
+      JSON.stringify({
+        name: 'docs',
+        description: 'Documentation update',
+        requiredAgents: ['pm'],
+        steps: [{ order: 1, agent: 'pm', action: 'Write docs', inputs: ['user_request'] }],
+      })
+    )
+    vol.writeFileSync(
+      join(localDir, 'security-review.md'),
+      [
+        '---',
+        'description: Security review',
+        'estimatedTime: 30 minutes',
+        'requiredAgents: [ta]',
+        'steps:',
+        '  - order: 1',
+        '    agent: ta',
+        '    action: Review for vulnerabilities',
+        '---',
+        '# Security Review',
+        '',
+        'Check auth, input handling and secrets.',
+      ].join('\n')
+    )
+
+    const registry = createSOPRegistry()
+
+    expect(registry.getEntry('docs')?.source).toBe('global')
+    expect(registry.get('docs')?.steps[0]?.outputs).toEqual([])
+    expect(registry.get('security-review')?.estimatedTime).toBe('30 minutes')
+    expect(registry.getEntry('security-review')?.documentation).toBe(
+      '# Security Review\n\nCheck auth, input handling and secrets.'
+    )
+  })
+
+  it('should let local files override global files and built-ins', () => {
+    vol.writeFileSync(join(globalDir, 'migration.yaml'), MIGRATION_YAML)
+    vol.writeFileSync(
+      join(localDir, 'migration.yaml'),
+      MIGRATION_YAML.replace('Database migration', 'Local migration')
+    )
+    vol.writeFileSync(
+      join(localDir, 'bugfix.yaml'),
+      MIGRATION_YAML.replace('Database migration', 'Custom bugfix')
+    )
+
+    const registry = createSOPRegistry()
+
+    expect(registry.get('migration')?.description).toBe('Local migration')
+    expect(registry.get('bugfix')?.description).toBe('Custom bugfix')
+  })
+
+  it('should apply config overrides of built-in SOPs', () => {
+    const config: CrewConfig = {
+      ...DEFAULT_CONFIG,
+      sop: {
+        ...DEFAULT_CONFIG.sop,
+        feature: { ...DEFAULT_CONFIG.sop.feature!, description: 'Team feature flow' },
+      },
+    }
+
+    const registry = createSOPRegistry({ config })
+
+    expect(registry.get('feature')?.description).toBe('Team feature flow')
+    expect(registry.getEntry('feature')?.source).toBe('config')
+    expect(registry.getEntry('bugfix')?.source).toBe('builtin')
+  })
+
+  it('should skip plain Markdown docs and record invalid files', () => {
+    vol.writeFileSync(join(localDir, 'feature.md'), '# SOP: Feature Development\n')
+    vol.writeFileSync(join(localDir, 'broken.yaml'), 'description: Missing steps\n')
+    vol.writeFileSync(join(localDir, 'notes.txt'), 'ignored')
+
+    const registry = createSOPRegistry()
+
+    expect(registry.names()).toEqual(['feature', 'bugfix', 'refactor'])
+    expect(registry.getErrors()).toHaveLength(1)
+    expect(registry.getErrors()[0]).toContain('broken.yaml')
+    expect(registry.getErrors()[0]).toContain('steps')
+  })
+
+  it('should reject Markdown SOP files without front matter when parsed directly', () => {
+    vol.writeFileSync(join(localDir, 'plain.md'), '# Just docs\n')
+
+    expect(() => parseSOPFile(join(localDir, 'plain.md'))).toThrow('front matter')
+  })
+})
@@ -70,6 +70,58 @@ describe('WorkflowStorage', () => {
       expect(loaded?.completedAt).toEqual(new Date('2024-01-01T10:15:00Z'))
     })
 
+    it('should restore task and history dates for resuming', async () => {
+      const workflow: WorkflowState = {
+        id: 'test-workflow-dates',
+        sopName: 'feature',
+        status: 'failed',
+        currentStep: 1,
+        totalSteps: 2,
+        tasks: [
+          {
+            id: 'task-1',
+            agent: 'pm',
+            action: 'Plan',
+            inputs: [],
+            expectedOutputs: ['plan'],
+            status: 'completed',
+            priority: 'medium',
+            retryCount: 0,
+            maxRetries: 3,
+            startedAt: new Date('2024-01-01T10:00:00Z'),
+            completedAt: new Date('2024-01-01T10:05:00Z'),
+          },
+        ],
+        context: {
+          workflowId: 'test-workflow-dates',
+          sopName: 'feature',
+          userRequest: 'Add login',
+          projectPath: '/',
+          startedAt: new Date('2024-01-01T10:00:00Z'),
+          data: {},
+          outputs: { plan: 'step 1' },
+          artifacts: [],
+          history: [
+            {
+              timestamp: new Date('2024-01-01T10:05:00Z'),
+              agent: 'pm',
+              action: 'Plan',
+              status: 'completed',
+            },
+          ],
+        },
+        startedAt: new Date('2024-01-01T10:00:00Z'),
+      }
+
+      await storage.save(workflow)
+      const loaded = await storage.load('test-workflow-dates')
+
+      expect(loaded?.tasks[0]?.completedAt).toEqual(new Date('2024-01-01T10:05:00Z'))
+      expect(loaded?.context.startedAt).toEqual(new Date('2024-01-01T10:00:00Z'))
+      expect(loaded?.context.history[0]?.timestamp).toBeInstanceOf(Date)
+      expect(loaded?.context.outputs).toEqual({ plan: 'step 1' })
+    })
+
     it('should return null for non-existent workflow', async () => {
       const loaded = await storage.load('non-existent-workflow')
       expect(loaded).toBeNull()
@@ -349,4 +401,25 @@ describe('WorkflowStorage', () => {
       expect(summary).toBeNull()
     })
   })
+
+  describe('stop requests', () => {
+    it('should store and clear a stop request', async () => {
+      await storage.requestStop('running-workflow', 'pause', 'Lunch break')
+
+      const request = await storage.getStopRequest('running-workflow')
+      expect(request?.action).toBe('pause')
+      expect(request?.reason).toBe('Lunch break')
+      expect(request?.requestedAt).toBeInstanceOf(Date)
+
+      await storage.clearStopRequest('running-workflow')
+      expect(await storage.getStopRequest('running-workflow')).toBeNull()
+    })
+
+    it('should not list stop requests as workflows', async () => {
+      await storage.requestStop('running-workflow', 'cancel')
+
+      const workflows = await storage.list()
+      expect(workflows).toHaveLength(0)
+    })
+  })
 })
@@ -4,9 +4,13 @@ import {
   getAllSOPDefinitions,
   validateSOPDefinition,
   getSOPMetadata,
+  getAllSOPMetadata,
+  createSOPRegistry,
   hasParallelSteps,
   getCriticalPath,
+  resolveStepDependencies,
 } from '../../src/sop'
+import { DEFAULT_CONFIG, type SOPDefinition } from '../../src/config'
 
 describe('SOP Utilities', () => {
   describe('getSOPDefinition', () => {
@@ -79,6 +83,328 @@ describe('SOP Utilities', () => {
     })
   })
 
+  describe('explicit step dependencies', () => {
+    const createSOP = (steps: SOPDefinition['steps']): SOPDefinition => ({
+      name: 'dag',
+      description: 'DAG SOP',
+      requiredAgents: ['pm', 'ta', 'qa'],
+      steps,
+    })
+
+    const step = (
+      id: string,
+      order: number,
+      agent: 'pm' | 'ta' | 'qa' | 'fe',
+      dependsOn?: string[]
+    ) => ({ id, order, agent, action: `${id} action`, inputs: [], outputs: [], dependsOn })
+
+    it('should honour dependsOn instead of order', () => {
+      const sop = createSOP([
+        step('plan', 1, 'pm'),
+        step('analyze', 2, 'ta', ['plan']),
+        step('safety-net', 3, 'qa', ['plan']),
+        step('implement', 4, 'fe', ['analyze', 'safety-net']),
+      ])
+
+      const deps = resolveStepDependencies(sop)
+
+      expect(deps.get('safety-net')).toEqual(['plan'])
+      expect(deps.get('implement')).toEqual(['analyze', 'safety-net'])
+    })
+
+    it('should fall back to order-based dependencies without dependsOn', () => {
+      const deps = resolveStepDependencies(getSOPDefinition('feature'))
+
+      expect(deps.get('plan')).toEqual([])
+      expect(deps.get('analyze')).toEqual(['plan'])
+      expect(deps.get('implement')).toEqual(['plan', 'analyze', 'design'])
+    })
+
+    it('should detect circular dependencies', () => {
+      const sop = createSOP([
+        step('plan', 1, 'pm', ['review']),
+        step('analyze', 2, 'ta', ['plan']),
+        step('review', 3, 'qa', ['analyze']),
+      ])
+
+      const result = validateSOPDefinition(sop)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain(
+        'Circular dependency between steps: plan -> review -> analyze -> plan'
+      )
+    })
+
+    it('should detect unknown and duplicate step ids', () => {
+      const sop = createSOP([
+        step('plan', 1, 'pm'),
+        step('plan', 2, 'ta', ['research']),
+      ])
+
+      const result = validateSOPDefinition(sop)
+
+      expect(result.errors).toContain('Duplicate step id "plan"')
+      expect(result.errors).toContain('Step "plan" depends on unknown step "research"')
+    })
+
+    it('should allow same-order steps with explicit dependencies', () => {
+      const sop = createSOP([
+        step('plan', 1, 'pm'),
+        step('analyze', 2, 'ta', ['plan']),
+        step('safety-net', 2, 'qa', ['plan']),
+      ])
+
+      expect(validateSOPDefinition(sop).valid).toBe(true)
+    })
+  })
+
+  describe('data flow linting', () => {
+    const createSOP = (steps: SOPDefinition['steps']): SOPDefinition => ({
+      name: 'flow',
+      description: 'Data flow SOP',
+      requiredAgents: ['pm', 'ta', 'fe'],
+      steps,
+    })
+
+    const step = (
+      id: string,
+      agent: 'pm' | 'ta' | 'qa' | 'fe',
+      inputs: string[],
+      outputs: string[],
+      dependsOn?: string[]
+    ) => ({ id, order: dependsOn ? 2 : 1, agent, action: `${id} action`, inputs, outputs, dependsOn })
+
+    it('should pass the default SOPs without errors', () => {
+      for (const sop of Object.values(getAllSOPDefinitions())) {
+        expect(validateSOPDefinition(sop).errors).toEqual([])
+      }
+    })
+
+    it('should report inputs no step produces', () => {
+      const sop = createSOP([
+        step('plan', 'pm', ['user_request'], ['plan']),
+        step('implement', 'fe', ['plan', 'design_spec'], ['code'], ['plan']),
+      ])
+
+      const result = validateSOPDefinition(sop)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual([
+        'Step "implement" input "design_spec" is not produced by any step',
+      ])
+    })
+
+    it('should report inputs produced by a step that does not run first', () => {
+      const sop = createSOP([
+        step('plan', 'pm', [], ['plan']),
+        step('implement', 'fe', ['design_spec'], ['code'], ['plan']),
+        step('design', 'ta', ['plan'], ['design_spec'], ['plan']),
+      ])
+
+      expect(validateSOPDefinition(sop).errors).toEqual([
+        'Step "implement" input "design_spec" is produced by "design", which does not run before it',
+      ])
+    })
+
+    it('should report output collisions between parallel steps', () => {
+      const sop = createSOP([
+        step('plan', 'pm', [], ['plan']),
+        step('analyze', 'ta', ['plan'], ['notes'], ['plan']),
+        step('design', 'fe', ['plan'], ['notes'], ['plan']),
+        step('implement', 'fe', ['notes'], ['code'], ['analyze', 'design']),
+      ])
+
+      expect(validateSOPDefinition(sop).errors).toEqual([
+        'Output "notes" is produced by parallel steps "analyze" and "design"',
+      ])
+    })
+
+    it('should warn about outputs nobody consumes', () => {
+      const sop = createSOP([
+        step('plan', 'pm', [], ['plan', 'estimate']),
+        step('implement', 'fe', ['plan'], ['code', 'changelog'], ['plan']),
+      ])
+
+      const result = validateSOPDefinition(sop)
+
+      expect(result.valid).toBe(true)
+      expect(result.warnings).toEqual(['Step "plan" output "estimate" is never consumed'])
+    })
+  })
+
+  describe('loop-back steps', () => {
+    const createSOP = (loop: SOPDefinition['steps'][number]['loop']): SOPDefinition => ({
+      name: 'loop',
+      description: 'Loop SOP',
+      requiredAgents: ['fe', 'qa'],
+      steps: [
+        { id: 'implement', order: 1, agent: 'fe', action: 'Implement', inputs: [], outputs: ['code'] },
+        { id: 'verify', order: 2, agent: 'qa', action: 'Verify', inputs: ['code'], outputs: ['qa'], loop },
+      ],
+    })
+
+    it('should accept the default feature SOP loop', () => {
+      const verify = getSOPDefinition('feature').steps.find((s) => s.id === 'verify')
+
+      expect(verify?.loop).toEqual({
+        when: 'quality_assessment.pass == false',
+        goto: 'implement',
+        maxIterations: 3,
+      })
+      expect(validateSOPDefinition(getSOPDefinition('feature')).valid).toBe(true)
+    })
+
+    it('should reject unknown and downstream loop targets', () => {
+      expect(
+        validateSOPDefinition(createSOP({ when: 'qa.pass == false', goto: 'fix', maxIterations: 3 }))
+          .errors
+      ).toEqual(['Step "verify" loops back to unknown step "fix"'])
+
+      const sop = createSOP(undefined)
+      sop.steps[0] = {
+        ...sop.steps[0]!,
+        loop: { when: 'qa.pass == false', goto: 'verify', maxIterations: 2 },
+      }
+      expect(validateSOPDefinition(sop).errors).toEqual([
+        'Step "implement" condition reads "qa", produced by "verify", which does not run before it',
+        'Step "implement" loop target "verify" does not run before it',
+      ])
+    })
+
+    it('should let loop conditions read the step outputs under its agent name', () => {
+      const sop = createSOP({ when: 'qa.report.pass == false', goto: 'implement', maxIterations: 3 })
+      sop.steps[1] = { ...sop.steps[1]!, outputs: ['report'] }
+
+      expect(validateSOPDefinition(sop).errors).toEqual([])
+
+      sop.steps[1] = { ...sop.steps[1]!, loop: { ...sop.steps[1]!.loop!, when: 'qa.coverage < 80' } }
+      expect(validateSOPDefinition(sop).errors).toEqual([
+        'Step "verify" condition reads "coverage", which no step produces',
+      ])
+    })
+
+    it('should reject invalid loop conditions', () => {
+      const result = validateSOPDefinition(
+        createSOP({ when: 'qa.pass = false', goto: 'implement', maxIterations: 3 })
+      )
+
+      expect(result.errors).toEqual([
+        'Step "verify" has an invalid loop condition: Unexpected character "=" at position 8',
+      ])
+    })
+  })
+
+  describe('conditional steps', () => {
+    const createSOP = (when: string): SOPDefinition => ({
+      name: 'conditional',
+      description: 'Conditional SOP',
+      requiredAgents: ['pm', 'design', 'fe'],
+      steps: [
+        { id: 'plan', order: 1, agent: 'pm', action: 'Plan', inputs: [], outputs: ['task_breakdown'] },
+        {
+          id: 'design',
+          order: 2,
+          agent: 'design',
+          action: 'Design',
+          inputs: ['task_breakdown'],
+          outputs: ['design_spec'],
+          when,
+        },
+        { id: 'implement', order: 3, agent: 'fe', action: 'Implement', inputs: ['design_spec'], outputs: [] },
+      ],
+    })
+
+    it('should warn about inputs only produced by conditional steps', () => {
+      const result = validateSOPDefinition(createSOP('task_breakdown.hasUI == true'))
+
+      expect(result.valid).toBe(true)
+      expect(result.warnings).toEqual([
+        'Step "implement" input "design_spec" is missing when "design" is skipped',
+      ])
+    })
+
+    it('should count outputs read by when conditions as consumed', () => {
+      const sop = createSOP('task_breakdown.hasUI == true')
+      sop.steps[1] = { ...sop.steps[1]!, inputs: [] }
+
+      const result = validateSOPDefinition(sop)
+
+      expect(result.errors).toEqual([])
+      expect(result.warnings).not.toContain('Step "plan" output "task_breakdown" is never consumed')
+    })
+
+    it('should reject when conditions on outputs no upstream step produces', () => {
+      expect(validateSOPDefinition(createSOP('estimate.days > 3')).errors).toEqual([
+        'Step "design" condition reads "estimate", which no step produces',
+      ])
+      expect(validateSOPDefinition(createSOP('design_spec.ready')).errors).toEqual([
+        'Step "design" condition reads "design_spec", produced by "design", which does not run before it',
+      ])
+    })
+
+    it('should reject invalid when conditions', () => {
+      expect(validateSOPDefinition(createSOP('task_breakdown.hasUI ==')).errors).toEqual([
+        'Step "design" has an invalid when condition: Unexpected end of expression',
+      ])
+    })
+
+    it('should skip design for backend-only work in the feature SOP', () => {
+      const design = getSOPDefinition('feature').steps.find((s) => s.id === 'design')
+
+      expect(design?.when).toBe('task_breakdown.hasUI != false')
+    })
+  })
+
+  describe('validation gates', () => {
+    const createSOP = (
+      validation: SOPDefinition['steps'][number]['validation']
+    ): SOPDefinition => ({
+      name: 'gated',
+      description: 'Gated SOP',
+      requiredAgents: ['qa'],
+      steps: [{ id: 'verify', order: 1, agent: 'qa', action: 'Verify', inputs: [], outputs: ['report'], validation }],
+    })
+
+    it('should accept valid gates and the feature SOP gate', () => {
+      expect(
+        validateSOPDefinition(
+          createSOP({
+            requiredOutputs: ['report'],
+            schema: { report: { type: 'object', required: ['pass'] } },
+            pattern: { report: 'pass' },
+            command: 'bun test',
+          })
+        ).errors
+      ).toEqual([])
+      expect(validateSOPDefinition(createSOP('report.pass == true')).errors).toEqual([])
+      expect(
+        getSOPDefinition('feature').steps.find((s) => s.id === 'verify')?.validation
+      ).toMatchObject({ schema: { quality_assessment: { required: ['pass'] } } })
+    })
+
+    it('should reject invalid gates', () => {
+      expect(
+        validateSOPDefinition(
+          createSOP({
+            schema: { report: { type: 'nope' } },
+            pattern: { report: '(' },
+            condition: 'report.pass ==',
+          })
+        ).errors
+      ).toEqual([
+        'Step "verify" has an invalid validation gate: schema for "report": Unsupported type: nope',
+        expect.stringContaining('Step "verify" has an invalid validation gate: pattern for "report"'),
+        'Step "verify" has an invalid validation gate: condition: Unexpected end of expression',
+      ])
+    })
+
+    it('should reject gates on outputs the step does not produce', () => {
+      expect(validateSOPDefinition(createSOP({ requiredOutputs: ['summary'] })).errors).toEqual([
+        'Step "verify" validation checks "summary", which it does not output',
+      ])
+    })
+  })
+
   describe('getSOPMetadata', () => {
     it('should return metadata for feature SOP', () => {
       const metadata = getSOPMetadata('feature')
@@ -89,6 +415,23 @@ describe('SOP Utilities', () => {
       expect(metadata.estimatedTime).toBeTruthy()
       expect(metadata.requiredAgents.length).toBeGreaterThan(0)
     })
+
+    it('should throw for unknown SOPs', () => {
+      expect(() => getSOPMetadata('migration')).toThrow('SOP not found: migration')
+    })
+
+    it('should read from the given registry', () => {
+      const feature = getSOPDefinition('feature')
+      const config = {
+        ...DEFAULT_CONFIG,
+        sop: { ...DEFAULT_CONFIG.sop, feature: { ...feature, steps: feature.steps.slice(0, 2) } },
+      }
+
+      const metadata = getAllSOPMetadata(createSOPRegistry({ config }))
+
+      expect(metadata.feature?.totalSteps).toBe(2)
+      expect(getSOPMetadata('feature').totalSteps).toBe(feature.steps.length)
+    })
   })
 
   describe('hasParallelSteps', () => {